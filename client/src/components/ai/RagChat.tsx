@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from "react"
 import { Loader2 } from "lucide-react"
 import { apiClient } from "@/lib/api"
+import { useUIStore } from "@/stores/ui-store"
 import { Input } from "../ui/input"
 
 import { GlowingEffect } from "../ui/glowing-effect"
@@ -73,8 +74,9 @@ export function RagChat({ open, onClose }: RagChatProps) {
     setMessages((prev) => [...prev, streamingMessage])
 
     try {
-      // Call RAG streaming endpoint
-      const responseBody = await apiClient.ragChat(input)
+      // Call RAG streaming endpoint, scoped to the notebook open in the workspace
+      const { activeNotebookId } = useUIStore.getState()
+      const responseBody = await apiClient.ragChat(input, undefined, activeNotebookId)
 
       if (!responseBody) {
         throw new Error("No response body")
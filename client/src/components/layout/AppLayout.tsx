@@ -1,6 +1,8 @@
 import { useUser, useSignOut } from "@/lib/auth-hooks"
 import { Button } from "@/components/ui/button"
 import { ThemeToggle } from "@/components/ui/theme-toggle"
+import { Toaster } from "@/components/ui/toast"
+import { MemoryExport, MemoryImport } from "@/components/memory"
 import { BookOpen, LogOut } from "lucide-react"
 
 interface AppLayoutProps {
@@ -32,6 +34,8 @@ export function AppLayout({ children }: AppLayoutProps) {
           <span className="text-xs text-muted-foreground/70">
             {user?.user_metadata?.full_name || user?.email}
           </span>
+          <MemoryImport />
+          <MemoryExport />
           <ThemeToggle />
           <Button
             variant="ghost"
@@ -47,6 +51,8 @@ export function AppLayout({ children }: AppLayoutProps) {
 
       {/* Main Content */}
       <main className="flex-1 overflow-hidden">{children}</main>
+
+      <Toaster />
     </div>
   )
 }
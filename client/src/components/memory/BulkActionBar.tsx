@@ -0,0 +1,195 @@
+import { useState } from "react"
+import { FolderInput, Hash, Loader2, RefreshCw, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useNotebooks } from "@/lib/notebooks-hooks"
+
+type TagMode = "add_tag" | "remove_tag"
+
+interface BulkActionBarProps {
+  selectedCount: number
+  totalCount: number
+  isPending: boolean
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onDelete: () => void
+  onTag: (mode: TagMode, tag: string) => void
+  onMoveToNotebook: (notebookId: number | null) => void
+  onReEmbed: () => void
+  onDone: () => void
+}
+
+export function BulkActionBar({
+  selectedCount,
+  totalCount,
+  isPending,
+  onSelectAll,
+  onClearSelection,
+  onDelete,
+  onTag,
+  onMoveToNotebook,
+  onReEmbed,
+  onDone,
+}: BulkActionBarProps) {
+  const [tagMode, setTagMode] = useState<TagMode | null>(null)
+  const [tag, setTag] = useState("")
+  const [isMoving, setIsMoving] = useState(false)
+  const { data: notebooks = [] } = useNotebooks()
+  const disabled = selectedCount === 0 || isPending
+
+  const submitTag = () => {
+    const value = tag.trim().replace(/^#/, "")
+    if (!tagMode || !value) return
+    onTag(tagMode, value)
+    setTag("")
+    setTagMode(null)
+  }
+
+  return (
+    <div className="sticky top-0 z-10 mb-3 rounded-md border bg-background/95 backdrop-blur-sm px-3 py-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          {isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+          <span>{selectedCount} selected</span>
+          <button
+            onClick={selectedCount === totalCount ? onClearSelection : onSelectAll}
+            className="hover:text-foreground transition-colors"
+          >
+            {selectedCount === totalCount ? "Clear" : "Select all"}
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={disabled}
+            onClick={() => setTagMode(tagMode === "add_tag" ? null : "add_tag")}
+            title="Add a tag to the selected memories"
+          >
+            <Hash className="w-3 h-3" />
+            Tag
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={disabled}
+            onClick={() =>
+              setTagMode(tagMode === "remove_tag" ? null : "remove_tag")
+            }
+            title="Remove a tag from the selected memories"
+          >
+            Untag
+          </Button>
+          {notebooks.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              disabled={disabled}
+              onClick={() => {
+                setIsMoving((prev) => !prev)
+                setTagMode(null)
+              }}
+              title="Move the selected memories to a notebook"
+            >
+              <FolderInput className="w-3 h-3" />
+              Move
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={disabled}
+            onClick={onReEmbed}
+            title="Regenerate search embeddings"
+          >
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs hover:text-red-600"
+            disabled={disabled}
+            onClick={onDelete}
+            title="Move the selected memories to the trash"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 w-6 p-0"
+            onClick={onDone}
+            title="Exit selection (Esc)"
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {isMoving && (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          <span className="text-muted-foreground">Move to</span>
+          {notebooks.map((notebook) => (
+            <Button
+              key={notebook.id}
+              size="sm"
+              variant="command"
+              className="h-6 px-2 text-xs"
+              disabled={disabled}
+              onClick={() => {
+                onMoveToNotebook(notebook.id)
+                setIsMoving(false)
+              }}
+            >
+              {notebook.name}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={disabled}
+            onClick={() => {
+              onMoveToNotebook(null)
+              setIsMoving(false)
+            }}
+            title="Take the selected memories out of their notebooks"
+          >
+            No notebook
+          </Button>
+        </div>
+      )}
+
+      {tagMode && (
+        <form
+          className="flex items-center gap-2 mt-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            submitTag()
+          }}
+        >
+          <input
+            autoFocus
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder={tagMode === "add_tag" ? "Tag to add" : "Tag to remove"}
+            className="flex-1 h-6 rounded bg-muted/30 px-2 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="command"
+            className="h-6 px-2 text-xs"
+            disabled={disabled || !tag.trim()}
+          >
+            {tagMode === "add_tag" ? "Add" : "Remove"}
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
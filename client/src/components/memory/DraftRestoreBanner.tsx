@@ -0,0 +1,30 @@
+import { FileClock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { getDeviceId, type Draft } from "@/lib/drafts-hooks"
+
+interface DraftRestoreBannerProps {
+  draft: Draft
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+// Offers an autosaved draft back, e.g. one started on another device
+export function DraftRestoreBanner({ draft, onRestore, onDiscard }: DraftRestoreBannerProps) {
+  const fromOtherDevice = draft.device_id !== null && draft.device_id !== getDeviceId()
+
+  return (
+    <div className="mb-2 flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-xs text-muted-foreground">
+      <FileClock className="w-3 h-3 shrink-0" />
+      <span className="flex-1">
+        Unsaved draft{fromOtherDevice ? " from another device" : ""},{" "}
+        {new Date(draft.updated_at).toLocaleString()}
+      </span>
+      <Button type="button" variant="ghost" size="sm" onClick={onDiscard}>
+        Discard
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={onRestore}>
+        Restore
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { useState } from "react"
+import { CornerDownRight, Loader2 } from "lucide-react"
+import { useEntryBacklinks } from "@/lib/entries-hooks"
+
+interface EntryBacklinksProps {
+  entryId: number
+  count: number
+  onOpenEntry: (entryId: number) => void
+}
+
+export function EntryBacklinks({ entryId, count, onOpenEntry }: EntryBacklinksProps) {
+  const [expanded, setExpanded] = useState(false)
+  const { data, isLoading } = useEntryBacklinks(entryId, expanded)
+  const backlinks = data?.backlinks || []
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          setExpanded((prev) => !prev)
+        }}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+        title="Memories that link here"
+      >
+        <CornerDownRight className="w-3 h-3" />
+        Linked from {count} {count === 1 ? "memory" : "memories"}
+      </button>
+
+      {expanded && (
+        <div className="mt-1 space-y-1 border-l pl-3">
+          {isLoading ? (
+            <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+          ) : (
+            backlinks.map((backlink) => (
+              <button
+                key={backlink.id}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onOpenEntry(backlink.id)
+                }}
+                className="block w-full text-left rounded px-1 py-0.5 hover:bg-muted/30"
+              >
+                <span className="text-foreground/80 line-clamp-1">
+                  {backlink.text_content || "Untitled memory"}
+                </span>
+                <span className="text-[11px] text-muted-foreground">
+                  {new Date(backlink.created_at).toLocaleDateString()}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { CalendarDays, Lock, X } from "lucide-react"
+import { toDayKey } from "@/lib/dates"
+
+interface EntryDateControlsProps {
+  entryDay: string | null
+  onEntryDayChange: (day: string | null) => void
+  unlockDay: string | null
+  onUnlockDayChange: (day: string | null) => void
+}
+
+function tomorrowKey(): string {
+  const date = new Date()
+  date.setDate(date.getDate() + 1)
+  return toDayKey(date)
+}
+
+// Backdate the memory being written, or seal it as a letter that opens on a later day
+export function EntryDateControls({
+  entryDay,
+  onEntryDayChange,
+  unlockDay,
+  onUnlockDayChange,
+}: EntryDateControlsProps) {
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-muted-foreground" data-section="entry-dates">
+      <label className="flex items-center gap-1" title="The day this memory happened">
+        <CalendarDays className="w-3 h-3" />
+        <input
+          type="date"
+          value={entryDay ?? ""}
+          max={toDayKey(new Date())}
+          disabled={unlockDay !== null}
+          onChange={(e) => onEntryDayChange(e.target.value || null)}
+          className="bg-transparent outline-none disabled:opacity-40"
+          aria-label="Date of this memory"
+        />
+        {entryDay && (
+          <button
+            type="button"
+            onClick={() => onEntryDayChange(null)}
+            className="hover:text-foreground transition-colors"
+            title="Use today"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </label>
+
+      <label className="flex items-center gap-1" title="Keep this memory hidden until the chosen day">
+        <Lock className="w-3 h-3" />
+        <span>Seal until</span>
+        <input
+          type="date"
+          value={unlockDay ?? ""}
+          min={tomorrowKey()}
+          onChange={(e) => onUnlockDayChange(e.target.value || null)}
+          className="bg-transparent outline-none"
+          aria-label="Seal until"
+        />
+        {unlockDay && (
+          <button
+            type="button"
+            onClick={() => onUnlockDayChange(null)}
+            className="hover:text-foreground transition-colors"
+            title="Don't seal"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </label>
+    </div>
+  )
+}
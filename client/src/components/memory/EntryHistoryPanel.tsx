@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from "react"
+import { History, Loader2, RotateCcw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { MemoryRenderer } from "./MemoryRenderer"
+import {
+  useEntryVersion,
+  useEntryVersions,
+  useRestoreEntryVersion,
+} from "@/lib/entries-hooks"
+import { diffWords } from "@/lib/diff"
+import { ApiError } from "@/lib/api"
+import { useUIStore } from "@/stores/ui-store"
+
+interface EntryHistoryPanelProps {
+  entryId: number
+  open: boolean
+  onClose: () => void
+}
+
+export function EntryHistoryPanel({
+  entryId,
+  open,
+  onClose,
+}: EntryHistoryPanelProps) {
+  const { data, isLoading, error } = useEntryVersions(entryId)
+  const restoreMutation = useRestoreEntryVersion()
+  const versions = useMemo(() => data?.versions ?? [], [data])
+
+  // Compare an older version ("from") against a newer one ("to")
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [view, setView] = useState<"diff" | "preview">("diff")
+
+  useEffect(() => {
+    if (versions.length === 0) return
+    setToVersion(versions[0].version)
+    setFromVersion(versions[1]?.version ?? versions[0].version)
+    setView("diff")
+  }, [entryId, versions])
+
+  const from = versions.find((v) => v.version === fromVersion)
+  const to = versions.find((v) => v.version === toVersion)
+  const { data: preview, isLoading: previewLoading } = useEntryVersion(
+    view === "preview" ? entryId : null,
+    fromVersion
+  )
+
+  const diff = useMemo(
+    () =>
+      from && to ? diffWords(from.text_content ?? "", to.text_content ?? "") : [],
+    [from, to]
+  )
+
+  // Handle escape key to close panel
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && open) {
+        onClose()
+      }
+    }
+    document.addEventListener("keydown", handleEscape)
+    return () => document.removeEventListener("keydown", handleEscape)
+  }, [open, onClose])
+
+  const handleRestore = async () => {
+    const current = versions.find((v) => v.current)
+    if (!from || from.current || !current) return
+    try {
+      await restoreMutation.mutateAsync({ id: entryId, version: from.version, currentVersion: current.version })
+    } catch (err) {
+      console.error("Failed to restore version:", err)
+      if (err instanceof ApiError && err.status === 409) {
+        useUIStore.getState().showToast({ message: "This memory changed since the history was loaded. Try again." })
+      }
+    }
+  }
+
+  const versionLabel = (version: number) => {
+    const item = versions.find((v) => v.version === version)
+    if (!item) return `v${version}`
+    const date = new Date(item.saved_at).toLocaleString()
+    return item.current ? `v${version} (current)` : `v${version} · ${date}`
+  }
+
+  return (
+    <div className="flex flex-col h-full p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">Memory history</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-6 w-6 p-0 hover:bg-muted/50"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center text-muted-foreground py-8">
+          <Loader2 className="w-6 h-6 mx-auto mb-2 animate-spin" />
+          <p className="text-xs">Loading history...</p>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">Failed to load history.</p>
+      ) : versions.length <= 1 ? (
+        <p className="text-xs text-muted-foreground">
+          This memory hasn't been edited yet.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-3 text-xs">
+            <label className="space-y-1">
+              <span className="text-muted-foreground">From</span>
+              <select
+                value={fromVersion ?? ""}
+                onChange={(e) => setFromVersion(Number(e.target.value))}
+                className="w-full rounded-md bg-muted/30 px-2 py-1"
+              >
+                {versions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    {versionLabel(v.version)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-muted-foreground">To</span>
+              <select
+                value={toVersion ?? ""}
+                onChange={(e) => setToVersion(Number(e.target.value))}
+                className="w-full rounded-md bg-muted/30 px-2 py-1"
+              >
+                {versions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    {versionLabel(v.version)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={view === "diff" ? "command" : "ghost"}
+                className="h-6 px-2 text-xs"
+                onClick={() => setView("diff")}
+              >
+                Changes
+              </Button>
+              <Button
+                size="sm"
+                variant={view === "preview" ? "command" : "ghost"}
+                className="h-6 px-2 text-xs"
+                onClick={() => setView("preview")}
+              >
+                Preview v{fromVersion}
+              </Button>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-xs"
+              onClick={handleRestore}
+              disabled={!from || from.current || restoreMutation.isPending}
+              title="Restore the 'From' version (the current text is kept in history)"
+            >
+              {restoreMutation.isPending ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <RotateCcw className="w-3 h-3" />
+              )}
+              Restore v{fromVersion}
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto scrollbar-thin rounded-md bg-muted/20 p-3 text-sm leading-relaxed">
+            {view === "diff" ? (
+              <p className="whitespace-pre-wrap">
+                {diff.map((part, index) =>
+                  part.type === "added" ? (
+                    <ins
+                      key={index}
+                      className="bg-green-500/20 text-foreground no-underline rounded-sm"
+                    >
+                      {part.text}
+                    </ins>
+                  ) : part.type === "removed" ? (
+                    <del
+                      key={index}
+                      className="bg-red-500/20 text-muted-foreground rounded-sm"
+                    >
+                      {part.text}
+                    </del>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            ) : previewLoading || !preview ? (
+              <Loader2 className="w-4 h-4 mx-auto animate-spin text-muted-foreground" />
+            ) : (
+              <MemoryRenderer content={preview.content} />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { motion, AnimatePresence } from "motion/react"
+import { EntryHistoryPanel } from "./EntryHistoryPanel"
+import { useUIStore } from "@/stores/ui-store"
+
+export function EntryHistoryPanelContainer() {
+  const { historyDrawer, closeHistoryDrawer } = useUIStore()
+
+  return (
+    <AnimatePresence>
+      {historyDrawer.open && historyDrawer.entryId !== null && (
+        <motion.div
+          initial={{ x: "100%", opacity: 0, scale: 0.95 }}
+          animate={{ x: 0, opacity: 1, scale: 1 }}
+          exit={{ x: "100%", opacity: 0, scale: 0.95 }}
+          transition={{
+            type: "spring",
+            damping: 25,
+            stiffness: 200,
+            duration: 0.4,
+          }}
+          className="fixed right-0 top-0 h-full w-[420px] max-w-[90vw] bg-background z-50"
+        >
+          <EntryHistoryPanel
+            entryId={historyDrawer.entryId}
+            open={historyDrawer.open}
+            onClose={closeHistoryDrawer}
+          />
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,50 @@
+import { MapPin, Zap } from "lucide-react"
+import type { EntryMetadata } from "@/lib/entries-hooks"
+import { ENERGY_LABELS, MOOD_EMOJI, MOOD_LABELS } from "@/lib/metadata"
+import { WeatherIcon } from "./WeatherIcon"
+
+interface EntryMetadataChipsProps {
+  metadata: EntryMetadata
+}
+
+export function EntryMetadataChips({ metadata }: EntryMetadataChipsProps) {
+  const { mood, energy, location, weather, custom } = metadata
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-muted-foreground">
+      {mood && (
+        <span title={`Mood: ${MOOD_LABELS[mood - 1]}`}>
+          {MOOD_EMOJI[mood - 1]} {MOOD_LABELS[mood - 1]}
+        </span>
+      )}
+      {energy && (
+        <span className="flex items-center gap-0.5" title="Energy">
+          <Zap className="w-3 h-3" />
+          {ENERGY_LABELS[energy - 1]}
+        </span>
+      )}
+      {location && (
+        <span className="flex items-center gap-0.5">
+          <MapPin className="w-3 h-3" />
+          {location}
+        </span>
+      )}
+      {weather && (
+        <span
+          className="flex items-center gap-0.5"
+          title={weather.source === "manual" ? "Weather" : `Weather from ${weather.source}`}
+        >
+          <WeatherIcon condition={weather.condition} className="w-3 h-3" />
+          {weather.condition}
+          {weather.temperature_c !== undefined && ` ${weather.temperature_c}°C`}
+        </span>
+      )}
+      {custom &&
+        Object.entries(custom).map(([key, value]) => (
+          <span key={key}>
+            {key.replace(/_/g, " ")}: <span className="text-foreground/80">{String(value)}</span>
+          </span>
+        ))}
+    </div>
+  )
+}
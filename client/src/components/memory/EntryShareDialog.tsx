@@ -0,0 +1,186 @@
+import { useState } from "react"
+import { motion } from "motion/react"
+import { Copy, Link2, Loader2, Lock, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ApiError } from "@/lib/api"
+import { useEntryShares, useRevokeShare, useShareEntry } from "@/lib/shares-hooks"
+import { useUIStore } from "@/stores/ui-store"
+
+interface EntryShareDialogProps {
+  entryId: number
+  onClose: () => void
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "1 day", days: 1 },
+  { label: "1 week", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "Never", days: null },
+] as const
+
+async function copyLink(url: string) {
+  try {
+    await navigator.clipboard.writeText(url)
+    useUIStore.getState().showToast({ message: "Share link copied" })
+  } catch {
+    useUIStore.getState().showToast({ message: "Couldn't copy the link; copy it from the dialog" })
+  }
+}
+
+// Create a read-only link to one memory, and list or revoke the links already out
+export function EntryShareDialog({ entryId, onClose }: EntryShareDialogProps) {
+  const { data: shares = [], isLoading } = useEntryShares(entryId)
+  const shareEntry = useShareEntry()
+  const revokeShare = useRevokeShare()
+
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7)
+  const [passphrase, setPassphrase] = useState("")
+  // The link can only be shown right after it's created; the server keeps a hash
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+
+  const handleCreate = async () => {
+    try {
+      const created = await shareEntry.mutateAsync({
+        entryId,
+        expiresInDays,
+        passphrase: passphrase || null,
+      })
+      setCreatedUrl(created.url)
+      setPassphrase("")
+      await copyLink(created.url)
+    } catch (error) {
+      console.error("Error sharing memory:", error)
+      const message = error instanceof ApiError ? (error.body as { error?: unknown } | null)?.error : null
+      useUIStore.getState().showToast({
+        message: typeof message === "string" ? message : "Couldn't create a share link",
+      })
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeShare.mutateAsync(id)
+    } catch (error) {
+      console.error("Error revoking share:", error)
+      useUIStore.getState().showToast({ message: "Couldn't revoke the link" })
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-background/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.97, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        transition={{ duration: 0.15, ease: "easeOut" }}
+        className="w-full max-w-md space-y-4 rounded-lg border bg-background p-5 shadow-xl"
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <h2 className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <Link2 className="w-4 h-4" />
+              Share this memory
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              Anyone with the link can read it, but not edit it.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-muted transition-colors" title="Close">
+            <X className="w-3 h-3 text-muted-foreground" />
+          </button>
+        </div>
+
+        <div className="space-y-3 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="w-20 text-muted-foreground">Expires</span>
+            <div className="flex gap-1">
+              {EXPIRY_OPTIONS.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setExpiresInDays(option.days)}
+                  className={`rounded px-2 py-1 transition-colors ${
+                    expiresInDays === option.days ? "bg-muted text-foreground" : "text-muted-foreground hover:bg-muted/50"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-muted-foreground">Passphrase</span>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              maxLength={200}
+              placeholder="Optional, 4+ characters"
+              className="flex-1 h-7 rounded bg-muted/30 px-2 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            />
+          </label>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleCreate} disabled={shareEntry.isPending}>
+              {shareEntry.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+              Create link
+            </Button>
+          </div>
+
+          {createdUrl && (
+            <div className="flex items-center gap-2 rounded-md border border-dashed p-2">
+              <input
+                readOnly
+                value={createdUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 bg-transparent text-foreground focus-visible:outline-none"
+              />
+              <button
+                onClick={() => copyLink(createdUrl)}
+                className="p-1 rounded hover:bg-muted transition-colors"
+                title="Copy link"
+              >
+                <Copy className="w-3 h-3 text-muted-foreground" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1 border-t pt-3 text-xs">
+          <p className="text-muted-foreground">Active links</p>
+          {isLoading ? (
+            <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+          ) : shares.length === 0 ? (
+            <p className="text-muted-foreground/70">None yet</p>
+          ) : (
+            shares.map((share) => (
+              <div key={share.id} className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  {share.has_passphrase && <Lock className="w-3 h-3" />}
+                  Created {new Date(share.created_at).toLocaleDateString()}
+                  {" · "}
+                  {share.expires_at
+                    ? `expires ${new Date(share.expires_at).toLocaleDateString()}`
+                    : "no expiry"}
+                  {" · "}
+                  {share.view_count} {share.view_count === 1 ? "view" : "views"}
+                </span>
+                <button
+                  onClick={() => handleRevoke(share.id)}
+                  disabled={revokeShare.isPending}
+                  className="text-muted-foreground hover:text-red-600 transition-colors"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react"
+import { CalendarDays, ChevronLeft, ChevronRight, X } from "lucide-react"
+import { useEntryCalendar } from "@/lib/entries-hooks"
+import type { CalendarDay } from "@/lib/entries-hooks"
+import { parseDayKey, toDayKey } from "@/lib/dates"
+
+interface MemoryCalendarProps {
+  notebookId?: number | null
+  selectedDay: string | null
+  onSelectDay: (day: string | null) => void
+}
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"]
+const LEVEL_CLASSES = [
+  "bg-muted/50",
+  "bg-primary/25",
+  "bg-primary/50",
+  "bg-primary/75",
+  "bg-primary",
+]
+
+// Bucket a day's count into one of five shades, relative to the busiest day
+function intensity(count: number, max: number): number {
+  if (count === 0 || max === 0) return 0
+  return Math.min(4, Math.ceil((count / max) * 4))
+}
+
+function describeDay(key: string, stats: CalendarDay | undefined): string {
+  const date = parseDayKey(key).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  })
+  if (!stats) return `${date}: no memories`
+  return `${date}: ${stats.count} ${stats.count === 1 ? "memory" : "memories"}, ${stats.words} words`
+}
+
+// Days from the Sunday on or before `start` through `end`, grouped into weeks
+function weeksBetween(start: Date, end: Date): Date[][] {
+  const cursor = new Date(start)
+  cursor.setDate(cursor.getDate() - cursor.getDay())
+
+  const weeks: Date[][] = []
+  while (cursor <= end) {
+    const week: Date[] = []
+    for (let i = 0; i < 7; i++) {
+      week.push(new Date(cursor))
+      cursor.setDate(cursor.getDate() + 1)
+    }
+    weeks.push(week)
+  }
+  return weeks
+}
+
+export function MemoryCalendar({ notebookId = null, selectedDay, onSelectDay }: MemoryCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  })
+  const year = month.getFullYear()
+  const { data } = useEntryCalendar(year, notebookId)
+  const todayKey = toDayKey(new Date())
+
+  const { daysByKey, maxCount, totalCount } = useMemo(() => {
+    const days = data?.days || []
+    return {
+      daysByKey: new Map(days.map((day) => [day.date, day])),
+      maxCount: Math.max(0, ...days.map((day) => day.count)),
+      totalCount: days.reduce((sum, day) => sum + day.count, 0),
+    }
+  }, [data])
+
+  const yearWeeks = useMemo(
+    () => weeksBetween(new Date(year, 0, 1), new Date(year, 11, 31)),
+    [year]
+  )
+  const monthWeeks = useMemo(
+    () =>
+      weeksBetween(
+        month,
+        new Date(month.getFullYear(), month.getMonth() + 1, 0)
+      ),
+    [month]
+  )
+
+  const shiftMonth = (delta: number) => {
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + delta, 1))
+  }
+
+  const selectDay = (date: Date) => {
+    const key = toDayKey(date)
+    if (key === selectedDay) {
+      onSelectDay(null)
+      return
+    }
+    setMonth(new Date(date.getFullYear(), date.getMonth(), 1))
+    onSelectDay(key)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <CalendarDays className="w-3 h-3" />
+          {totalCount} {totalCount === 1 ? "memory" : "memories"} in {year}
+        </span>
+        {selectedDay && (
+          <button
+            onClick={() => onSelectDay(null)}
+            className="flex items-center gap-1 hover:text-foreground transition-colors"
+            title="Clear date filter"
+          >
+            <X className="w-3 h-3" />
+            {parseDayKey(selectedDay).toLocaleDateString(undefined, {
+              month: "short",
+              day: "numeric",
+            })}
+          </button>
+        )}
+      </div>
+
+      {/* Year heatmap, one column per week */}
+      <div className="flex gap-[2px] overflow-x-auto scrollbar-thin pb-1">
+        {yearWeeks.map((week) => (
+          <div key={toDayKey(week[0])} className="flex flex-col gap-[2px]">
+            {week.map((date) => {
+              const key = toDayKey(date)
+              if (date.getFullYear() !== year) {
+                return <div key={key} className="w-[6px] h-[6px]" />
+              }
+              const stats = daysByKey.get(key)
+              return (
+                <button
+                  key={key}
+                  onClick={() => selectDay(date)}
+                  title={describeDay(key, stats)}
+                  className={`w-[6px] h-[6px] rounded-[1px] ${
+                    LEVEL_CLASSES[intensity(stats?.count ?? 0, maxCount)]
+                  } ${key === selectedDay ? "ring-1 ring-foreground" : ""}`}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* Month calendar */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <button
+            onClick={() => shiftMonth(-1)}
+            className="p-0.5 rounded hover:bg-muted transition-colors"
+            title="Previous month"
+          >
+            <ChevronLeft className="w-3 h-3 text-muted-foreground" />
+          </button>
+          <span className="text-foreground/80">
+            {month.toLocaleDateString(undefined, {
+              month: "long",
+              year: "numeric",
+            })}
+          </span>
+          <button
+            onClick={() => shiftMonth(1)}
+            className="p-0.5 rounded hover:bg-muted transition-colors"
+            title="Next month"
+          >
+            <ChevronRight className="w-3 h-3 text-muted-foreground" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 text-center text-[11px]">
+          {WEEKDAYS.map((weekday, index) => (
+            <span key={index} className="text-muted-foreground/70">
+              {weekday}
+            </span>
+          ))}
+          {monthWeeks.flat().map((date) => {
+            const key = toDayKey(date)
+            if (date.getMonth() !== month.getMonth()) {
+              return <span key={key} />
+            }
+            const stats = daysByKey.get(key)
+            const level = intensity(stats?.count ?? 0, maxCount)
+            return (
+              <button
+                key={key}
+                onClick={() => selectDay(date)}
+                title={describeDay(key, stats)}
+                className={`h-6 rounded transition-colors ${
+                  stats ? LEVEL_CLASSES[level] : "hover:bg-muted/50"
+                } ${level >= 3 ? "text-primary-foreground" : "text-foreground/80"} ${
+                  key === selectedDay ? "ring-1 ring-foreground" : ""
+                } ${key === todayKey ? "font-semibold" : ""}`}
+              >
+                {date.getDate()}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
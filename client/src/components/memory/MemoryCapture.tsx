@@ -1,29 +1,161 @@
+import { useEffect, useMemo, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { MessageSquare } from "lucide-react"
 import { MemoryEditor } from "./MemoryEditor"
+import { MemoryMetadataBar } from "./MemoryMetadataBar"
+import { EntryDateControls } from "./EntryDateControls"
+import { DraftRestoreBanner } from "./DraftRestoreBanner"
+import { MemoryTemplatePicker } from "./MemoryTemplatePicker"
 import { useUIStore } from "@/stores/ui-store"
+import type { EntryDates, EntryMetadata } from "@/lib/entries-hooks"
+import { dayAtCurrentTime, parseDayKey } from "@/lib/dates"
+import { getDeviceId, useDraft, useDraftAutosave, type Draft } from "@/lib/drafts-hooks"
+import { compactMetadata, type CustomField } from "@/lib/metadata"
+import type { AppliedTemplate } from "@/lib/templates-hooks"
 
 interface MemoryCaptureProps {
   isSaving: boolean
   lastSaved: Date | null
-  onSaveEntry: (content: any, textContent: string) => Promise<void>
+  onSaveEntry: (
+    content: Record<string, unknown>,
+    textContent: string,
+    metadata: EntryMetadata | null,
+    dates: EntryDates
+  ) => Promise<void>
 }
 
 export function MemoryCapture({
   isSaving,
   lastSaved,
   onSaveEntry,
-}: WritingSectionProps) {
+}: MemoryCaptureProps) {
+  const [metadata, setMetadata] = useState<EntryMetadata>({})
+  const [customFields, setCustomFields] = useState<CustomField[]>([])
+  // Days chosen as "YYYY-MM-DD"; null writes the memory for today, unsealed
+  const [entryDay, setEntryDay] = useState<string | null>(null)
+  const [unlockDay, setUnlockDay] = useState<string | null>(null)
+
+  // Autosaved draft of the memory being written
+  const [draftContent, setDraftContent] = useState<Record<string, unknown> | null>(null)
+  const draftInput = useMemo(
+    () =>
+      draftContent
+        ? { content: draftContent, metadata: compactMetadata(metadata, customFields) }
+        : null,
+    [draftContent, metadata, customFields]
+  )
+
+  // A draft saved earlier (or on another device) is offered back until restored or discarded
+  const { data: savedDraft } = useDraft("new")
+  const [handledDraftAt, setHandledDraftAt] = useState<string | null>(null)
+  const [restoredContent, setRestoredContent] = useState("")
+  const [editorKey, setEditorKey] = useState(0)
+
+  // Autosave waits while a draft is on offer so it isn't overwritten unseen
+  const [isOffering, setIsOffering] = useState(false)
+  const {
+    status: draftStatus,
+    savedDraft: autosavedDraft,
+    discard: discardDraft,
+  } = useDraftAutosave(isOffering ? null : "new", draftInput)
+
+  const offeredDraft =
+    savedDraft &&
+    savedDraft.updated_at !== handledDraftAt &&
+    savedDraft.updated_at !== autosavedDraft?.updated_at
+      ? savedDraft
+      : null
+
+  useEffect(() => {
+    setIsOffering(offeredDraft !== null)
+  }, [offeredDraft])
+
+  const restoreDraft = (draft: Draft) => {
+    const { custom, ...rest } = draft.metadata ?? {}
+    setMetadata(rest)
+    setCustomFields(
+      Object.entries(custom ?? {}).map(([key, value]) => ({ key, value: String(value) }))
+    )
+    setRestoredContent(JSON.stringify(draft.content))
+    setEditorKey((prev) => prev + 1)
+    setDraftContent(draft.content)
+    setHandledDraftAt(draft.updated_at)
+  }
+
+  // Coming back on the same device picks up where it left off without asking
+  useEffect(() => {
+    if (offeredDraft && draftContent === null && offeredDraft.device_id === getDeviceId()) {
+      restoreDraft(offeredDraft)
+    }
+  }, [offeredDraft, draftContent])
+
+  // A template replaces the editor contents, which then autosave like any draft
+  const handleApplyTemplate = ({ content }: AppliedTemplate) => {
+    setRestoredContent(JSON.stringify(content))
+    setEditorKey((prev) => prev + 1)
+    setDraftContent(content)
+  }
+
+  const handleDiscardDraft = () => {
+    if (!offeredDraft) return
+    setHandledDraftAt(offeredDraft.updated_at)
+    discardDraft().catch((error) => console.error("Error discarding draft:", error))
+  }
+
+  const handleSubmit = async (content: Record<string, unknown>, textContent: string) => {
+    const dates: EntryDates = unlockDay
+      ? { unlock_at: parseDayKey(unlockDay).toISOString() }
+      : entryDay
+        ? { entry_date: dayAtCurrentTime(entryDay).toISOString() }
+        : {}
+    await onSaveEntry(content, textContent, compactMetadata(metadata, customFields), dates)
+    // The editor clears itself after a save; start the next memory fresh too
+    setMetadata({})
+    setCustomFields([])
+    setEntryDay(null)
+    setUnlockDay(null)
+    setDraftContent(null)
+    if (savedDraft) setHandledDraftAt(savedDraft.updated_at)
+    discardDraft().catch((error) => console.error("Error clearing draft:", error))
+  }
+
   return (
     <div className="mt-6" data-section="memory-capture">
+      {offeredDraft && offeredDraft.device_id !== getDeviceId() && (
+        <DraftRestoreBanner
+          draft={offeredDraft}
+          onRestore={() => restoreDraft(offeredDraft)}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
+
+      <MemoryTemplatePicker currentContent={draftContent} onApply={handleApplyTemplate} />
+
       <div className="relative">
         <MemoryEditor
-          onSubmit={onSaveEntry}
+          key={editorKey}
+          initialContent={restoredContent}
+          onContentChange={setDraftContent}
+          onSubmit={handleSubmit}
           isLoading={isSaving}
           placeholder="What memory would you like to capture today?"
         />
       </div>
 
+      <MemoryMetadataBar
+        metadata={metadata}
+        onChange={setMetadata}
+        customFields={customFields}
+        onCustomFieldsChange={setCustomFields}
+      />
+
+      <EntryDateControls
+        entryDay={entryDay}
+        onEntryDayChange={setEntryDay}
+        unlockDay={unlockDay}
+        onUnlockDayChange={setUnlockDay}
+      />
+
       {/* Status Bar */}
       <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
         <div className="flex items-center gap-4">
@@ -36,6 +168,15 @@ export function MemoryCapture({
           {lastSaved && !isSaving && (
             <span>Last saved: {lastSaved.toLocaleTimeString()}</span>
           )}
+          {!isSaving && draftStatus !== "idle" && (
+            <span title="Drafts are kept until you save the memory">
+              {draftStatus === "error"
+                ? "Draft not saved"
+                : draftStatus === "saved" && autosavedDraft
+                  ? `Draft saved ${new Date(autosavedDraft.updated_at).toLocaleTimeString()}`
+                  : "Saving draft..."}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -1,15 +1,71 @@
-import { useMemo, useState, useEffect, useCallback } from "react"
+import { useMemo, useRef, useState, useEffect, useCallback } from "react"
 import YooptaEditor, {
   createYooptaEditor,
   YooptaContentValue,
 } from "@yoopta/editor"
 import Paragraph from "@yoopta/paragraph"
 import Blockquote from "@yoopta/blockquote"
+import Image, { ImageCommands } from "@yoopta/image"
+import YooptaFile, { FileCommands } from "@yoopta/file"
 import { plainText } from "@yoopta/exports"
+import { isYooptaEmpty } from "shared"
+import { useDebounce } from "@uidotdev/usehooks"
+import { Loader2, Paperclip } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { useSearchEntries, useUploadAttachment } from "@/lib/entries-hooks"
+import type { Attachment, SearchResult } from "@/lib/entries-hooks"
+import { useUIStore } from "@/stores/ui-store"
+
+const LINK_TRIGGER = /\[\[([^[\]|]{0,50})$/
+
+// Short label for a [[link]]: the first line of the memory, without link syntax
+function linkLabel(text: string | undefined): string {
+  const firstLine = (text || "").split("\n")[0].replace(/[[\]|]/g, "").trim()
+  if (!firstLine) return "Untitled memory"
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40).trim()}…` : firstLine
+}
+
+const INLINE_IMAGE_TYPES = "image/png, image/jpeg, image/gif, image/webp, image/avif"
+
+// Natural size of an image file, so the block reserves the right space
+async function readImageSize(file: File) {
+  try {
+    const bitmap = await createImageBitmap(file)
+    const sizes = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+    return sizes
+  } catch {
+    return undefined
+  }
+}
+
+async function imageBlockProps(attachment: Attachment, file: File) {
+  return {
+    src: attachment.url,
+    alt: attachment.file_name,
+    fit: "contain" as const,
+    sizes: await readImageSize(file),
+  }
+}
+
+function fileBlockProps(attachment: Attachment) {
+  return {
+    src: attachment.url,
+    name: attachment.file_name,
+    size: attachment.size_bytes,
+    format: attachment.file_name.includes(".")
+      ? attachment.file_name.split(".").pop()!
+      : null,
+  }
+}
 
 interface MemoryEditorProps {
   onSubmit: (content: YooptaContentValue, textContent: string) => Promise<void>
+  // Called on every edit, e.g. to autosave a draft
+  onContentChange?: (content: YooptaContentValue) => void
+  // Attachments belong to a saved memory, so images and files can only be
+  // added when editing one
+  entryId?: number
   initialContent?: string
   isEditing?: boolean
   onCancel?: () => void
@@ -19,14 +75,16 @@ interface MemoryEditorProps {
 
 export function MemoryEditor({
   onSubmit,
+  onContentChange,
+  entryId,
   initialContent = "",
   isEditing = false,
   onCancel,
   isLoading = false,
   placeholder = "Write your thoughts...",
-}: YooptaEntryEditorProps) {
+}: MemoryEditorProps) {
   const [editorKey, setEditorKey] = useState(0)
-  const editor = useMemo(() => createYooptaEditor(), [editorKey])
+  const editor = useMemo(() => createYooptaEditor(), [])
   const [value, setValue] = useState<YooptaContentValue>(() => {
     if (initialContent) {
       try {
@@ -87,44 +145,152 @@ export function MemoryEditor({
     }
   })
 
-  const plugins = [Paragraph, Blockquote]
+  const { mutateAsync: uploadAttachment } = useUploadAttachment()
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const plugins = useMemo(() => {
+    if (entryId === undefined) return [Paragraph, Blockquote]
+
+    return [
+      Paragraph,
+      Blockquote,
+      Image.extend({
+        options: {
+          accept: INLINE_IMAGE_TYPES,
+          maxSizes: { maxHeight: 480 },
+          onUpload: async (file: File) =>
+            imageBlockProps(await uploadAttachment({ entryId, file }), file),
+        },
+      }),
+      YooptaFile.extend({
+        options: {
+          onUpload: async (file: File) =>
+            fileBlockProps(await uploadAttachment({ entryId, file })),
+        },
+      }),
+    ]
+  }, [entryId, uploadAttachment])
+
+  // Upload from the attach button and add the block after the focused one
+  const handleAttachFile = async (file: File) => {
+    if (entryId === undefined) return
+
+    setIsUploading(true)
+    try {
+      const attachment = await uploadAttachment({ entryId, file })
+      const at =
+        typeof editor.path.current === "number"
+          ? editor.path.current + 1
+          : Object.keys(editor.children).length
+
+      if (INLINE_IMAGE_TYPES.includes(attachment.content_type)) {
+        ImageCommands.insertImage(editor, {
+          at,
+          props: await imageBlockProps(attachment, file),
+        })
+      } else {
+        FileCommands.insertFile(editor, { at, props: fileBlockProps(attachment) })
+      }
+    } catch (error) {
+      console.error("Error uploading attachment:", error)
+      useUIStore.getState().showToast({ message: `Couldn't attach ${file.name}` })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  // [[ starts a link to another memory; the text typed after it searches entries
+  const [linkQuery, setLinkQuery] = useState<string | null>(null)
+  const [activeLinkIndex, setActiveLinkIndex] = useState(0)
+  const debouncedLinkQuery = useDebounce(linkQuery?.trim() ?? "", 200)
+  const { data: linkSearch, isFetching: isSearchingLinks } = useSearchEntries(
+    debouncedLinkQuery ? `${debouncedLinkQuery}*` : ""
+  )
+  const linkOptions = useMemo(
+    () =>
+      linkQuery !== null && debouncedLinkQuery
+        ? (linkSearch?.results || []).slice(0, 6)
+        : [],
+    [linkQuery, debouncedLinkQuery, linkSearch]
+  )
+
+  // Find an unfinished "[[query" right before the caret in the focused block
+  const findLinkTrigger = useCallback(() => {
+    const blockId = Object.keys(editor.children).find(
+      (id) => editor.children[id].meta.order === editor.path.current
+    )
+    const slate = blockId ? editor.blockEditorsMap[blockId] : undefined
+    const selection = slate?.selection
+    if (!slate || !selection) return null
+
+    const { anchor, focus } = selection
+    if (
+      anchor.offset !== focus.offset ||
+      anchor.path.join() !== focus.path.join()
+    ) {
+      return null
+    }
+
+    let node: unknown = slate
+    for (const index of anchor.path) {
+      node = (node as { children?: unknown[] }).children?.[index]
+    }
+    const text = (node as { text?: unknown })?.text
+    if (typeof text !== "string") return null
+
+    const match = text.slice(0, anchor.offset).match(LINK_TRIGGER)
+    return match ? { slate, typed: match[0], query: match[1] } : null
+  }, [editor])
+
+  const insertLink = useCallback(
+    (entry: SearchResult) => {
+      const trigger = findLinkTrigger()
+      if (!trigger) return
+
+      for (let i = 0; i < trigger.typed.length; i++) {
+        trigger.slate.deleteBackward("character")
+      }
+      trigger.slate.insertText(`[[${entry.id}|${linkLabel(entry.text_content)}]]`)
+      setLinkQuery(null)
+    },
+    [findLinkTrigger]
+  )
 
   const onChange = (newValue: YooptaContentValue) => {
     setValue(newValue)
+    onContentChange?.(newValue)
+
+    const trigger = findLinkTrigger()
+    setLinkQuery(trigger ? trigger.query : null)
+    setActiveLinkIndex(0)
   }
 
-  // Check if content has any actual text
-  const hasContent = (content: unknown): boolean => {
-    if (!content || typeof content !== "object") return false
-
-    // Check all blocks in the content
-    const contentObj = content as Record<string, unknown>
-    for (const blockKey in contentObj) {
-      const block = contentObj[blockKey] as { value?: unknown[] }
-      if (block && block.value && Array.isArray(block.value)) {
-        for (const item of block.value) {
-          const typedItem = item as { children?: unknown[] }
-          if (
-            typedItem &&
-            typedItem.children &&
-            Array.isArray(typedItem.children)
-          ) {
-            for (const child of typedItem.children) {
-              const typedChild = child as { text?: string }
-              if (
-                typedChild &&
-                typedChild.text &&
-                typedChild.text.trim() !== ""
-              ) {
-                return true
-              }
-            }
-          }
-        }
+  // While suggestions are open, arrows/Enter/Tab/Escape drive the list instead of the editor
+  useEffect(() => {
+    if (linkOptions.length === 0) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        const step = e.key === "ArrowDown" ? 1 : -1
+        setActiveLinkIndex(
+          (prev) => (prev + step + linkOptions.length) % linkOptions.length
+        )
+      } else if (e.key === "Enter" || e.key === "Tab") {
+        if (e.metaKey || e.ctrlKey) return
+        insertLink(linkOptions[Math.min(activeLinkIndex, linkOptions.length - 1)])
+      } else if (e.key === "Escape") {
+        setLinkQuery(null)
+      } else {
+        return
       }
+      e.preventDefault()
+      e.stopPropagation()
     }
-    return false
-  }
+
+    window.addEventListener("keydown", handleKeyDown, true)
+    return () => window.removeEventListener("keydown", handleKeyDown, true)
+  }, [linkOptions, activeLinkIndex, insertLink])
 
   const handleSubmit = useCallback(
     async (e: React.FormEvent) => {
@@ -140,7 +306,7 @@ export function MemoryEditor({
       const editorContent = editor.getEditorValue()
 
       // Validate that content is not empty
-      if (!hasContent(editorContent)) {
+      if (isYooptaEmpty(editorContent)) {
         console.log("Cannot save empty entry")
         return
       }
@@ -226,8 +392,73 @@ export function MemoryEditor({
         />
       </div>
 
+      {linkQuery !== null && (
+        <div className="rounded-md border bg-background text-xs shadow-sm">
+          {linkOptions.length > 0 ? (
+            linkOptions.map((entry, index) => (
+              <button
+                key={entry.id}
+                type="button"
+                // Keep focus (and the caret) in the editor
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertLink(entry)}
+                onMouseEnter={() => setActiveLinkIndex(index)}
+                className={`block w-full text-left px-3 py-1.5 ${
+                  index === activeLinkIndex ? "bg-muted" : ""
+                }`}
+              >
+                <span className="text-foreground/90">
+                  {linkLabel(entry.text_content)}
+                </span>
+                <span className="ml-2 text-muted-foreground">
+                  {new Date(entry.entry_date).toLocaleDateString()}
+                </span>
+              </button>
+            ))
+          ) : (
+            <p className="px-3 py-1.5 text-muted-foreground">
+              {!debouncedLinkQuery
+                ? "Type to link a memory"
+                : isSearchingLinks
+                  ? "Searching..."
+                  : "No matching memories"}
+            </p>
+          )}
+        </div>
+      )}
+
       {isEditing && onCancel && (
         <div className="flex gap-2 justify-end">
+          {entryId !== undefined && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ""
+                  if (file) handleAttachFile(file)
+                }}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="mr-auto"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading || isUploading}
+                title="Attach an image or file"
+              >
+                {isUploading ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <Paperclip className="w-3 h-3" />
+                )}
+                Attach
+              </Button>
+            </>
+          )}
           <Button
             type="button"
             variant="outline"
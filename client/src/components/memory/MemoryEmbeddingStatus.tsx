@@ -0,0 +1,67 @@
+import { AlertTriangle, Loader2, RotateCcw } from "lucide-react"
+import { useBulkEntries, useEmbeddingStatus } from "@/lib/entries-hooks"
+import { useUIStore } from "@/stores/ui-store"
+
+interface MemoryEmbeddingStatusProps {
+  onOpenEntry?: (id: number) => void
+}
+
+// Memories the chat and meaning-based search can't find yet; hidden when everything is indexed
+export function MemoryEmbeddingStatus({ onOpenEntry }: MemoryEmbeddingStatusProps) {
+  const { data } = useEmbeddingStatus()
+  const bulkMutation = useBulkEntries()
+
+  if (!data || (data.counts.pending === 0 && data.counts.failed === 0)) {
+    return null
+  }
+
+  const failed = data.entries.filter((entry) => entry.embedding_status === "failed")
+
+  const handleRetry = async () => {
+    try {
+      await bulkMutation.mutateAsync({ action: "re_embed", ids: failed.map((entry) => entry.id) })
+    } catch (error) {
+      console.error("Error retrying embeddings:", error)
+      useUIStore.getState().showToast({ message: "Couldn't retry indexing" })
+    }
+  }
+
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground" data-section="embedding-status">
+      {data.counts.pending > 0 && (
+        <p className="flex items-center gap-1" title="Searchable by meaning once indexed">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Indexing {data.counts.pending} {data.counts.pending === 1 ? "memory" : "memories"}…
+        </p>
+      )}
+      {data.counts.failed > 0 && (
+        <div className="space-y-1">
+          <p className="flex items-center gap-1 text-amber-600">
+            <AlertTriangle className="w-3 h-3" />
+            {data.counts.failed} {data.counts.failed === 1 ? "memory" : "memories"} couldn't be indexed
+            <button
+              onClick={handleRetry}
+              disabled={bulkMutation.isPending || failed.length === 0}
+              className="ml-1 flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+              title="Queue them for indexing again"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Retry
+            </button>
+          </p>
+          {failed.map((entry) => (
+            <button
+              key={entry.id}
+              onClick={() => onOpenEntry?.(entry.id)}
+              className="block pl-4 text-left hover:text-foreground transition-colors"
+              title={entry.last_error ?? undefined}
+            >
+              {new Date(entry.entry_date).toLocaleDateString()} · {entry.attempts}{" "}
+              {entry.attempts === 1 ? "attempt" : "attempts"}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from "react"
+import { Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { apiClient } from "@/lib/api"
+import type { ExportFormat, ExportProgress } from "@/lib/api"
+import { useUIStore } from "@/stores/ui-store"
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "markdown", label: "Markdown" },
+  { value: "json", label: "JSON" },
+  { value: "html", label: "HTML" },
+]
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function MemoryExport() {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>("markdown")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+  const { showToast } = useUIStore()
+  const isExporting = progress !== null
+
+  // Close when clicking outside, unless an export is running
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (!isExporting && !panelRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open, isExporting])
+
+  const handleExport = async () => {
+    setProgress({ receivedBytes: 0, entryCount: null })
+    try {
+      const { blob, fileName } = await apiClient.exportEntries(
+        { format, from: from || undefined, to: to || undefined },
+        setProgress
+      )
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+      setOpen(false)
+    } catch (error) {
+      console.error("Error exporting entries:", error)
+      showToast({ message: "Export failed" })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen((prev) => !prev)}
+        className="h-7 w-7 p-0"
+        title="Export memories"
+      >
+        {isExporting ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <Download className="w-3 h-3" />
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-8 z-40 w-64 space-y-3 rounded-md border bg-background p-3 text-xs shadow-lg">
+          <div className="flex gap-1">
+            {FORMATS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFormat(option.value)}
+                disabled={isExporting}
+                className={`flex-1 rounded px-2 py-1 transition-colors ${
+                  format === option.value
+                    ? "bg-muted text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1 text-muted-foreground">
+              <span>From</span>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                disabled={isExporting}
+                className="w-full rounded bg-muted/30 px-1 py-0.5 text-foreground"
+              />
+            </label>
+            <label className="space-y-1 text-muted-foreground">
+              <span>To</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                disabled={isExporting}
+                className="w-full rounded bg-muted/30 px-1 py-0.5 text-foreground"
+              />
+            </label>
+          </div>
+
+          {progress ? (
+            <p className="text-muted-foreground">
+              Exporting
+              {progress.entryCount !== null && ` ${progress.entryCount} memories`}
+              {" · "}
+              {formatBytes(progress.receivedBytes)}
+            </p>
+          ) : (
+            <Button
+              size="sm"
+              variant="command"
+              className="h-7 w-full text-xs"
+              onClick={handleExport}
+            >
+              Download zip
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { useRef } from "react"
+import { Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useImportEntries } from "@/lib/entries-hooks"
+import { useUIStore } from "@/stores/ui-store"
+
+export function MemoryImport() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const importMutation = useImportEntries()
+  const { showToast } = useUIStore()
+
+  const handleFile = async (file: File) => {
+    try {
+      const { results, summary } = await importMutation.mutateAsync(file)
+
+      const failed = results.filter((result) => result.status === "failed")
+      if (failed.length > 0) {
+        console.warn("Import failures:", failed)
+      }
+
+      const parts = [`Imported ${summary.imported}`]
+      if (summary.duplicate > 0) parts.push(`${summary.duplicate} duplicate`)
+      if (summary.failed > 0) {
+        const first = failed[0]
+        parts.push(`${summary.failed} failed (${first.file}: ${first.reason})`)
+      }
+      showToast({ message: parts.join(" · "), duration: 10000 })
+    } catch (error) {
+      console.error("Error importing entries:", error)
+      showToast({ message: "Import failed" })
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,.json,.md,.markdown,.txt"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ""
+          if (file) handleFile(file)
+        }}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={importMutation.isPending}
+        className="h-7 w-7 p-0"
+        title="Import a zip of Markdown files or a JSON export"
+      >
+        {importMutation.isPending ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <Upload className="w-3 h-3" />
+        )}
+      </Button>
+    </>
+  )
+}
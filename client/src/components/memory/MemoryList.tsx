@@ -1,12 +1,35 @@
-import { useRef, useEffect, useState } from "react"
+import { useRef, useEffect, useMemo, useState } from "react"
 import { motion, AnimatePresence } from "motion/react"
 import { useIntersectionObserver, useDebounce } from "@uidotdev/usehooks"
-import { BookOpen, X, Edit2, Loader2, Sparkles } from "lucide-react"
+import {
+  BookOpen,
+  X,
+  Edit2,
+  Loader2,
+  Sparkles,
+  History,
+  CheckSquare,
+  Mail,
+  Check,
+  Share2,
+} from "lucide-react"
 import { MemoryRenderer } from "./MemoryRenderer"
 import { MemoryEditor } from "./MemoryEditor"
+import { BulkActionBar } from "./BulkActionBar"
+import { EntryBacklinks } from "./EntryBacklinks"
+import { EntryMetadataChips } from "./EntryMetadataChips"
+import { MergeConflictDialog } from "./MergeConflictDialog"
+import { DraftRestoreBanner } from "./DraftRestoreBanner"
+import { EntryShareDialog } from "./EntryShareDialog"
 import { useUIStore } from "@/stores/ui-store"
-import { useUpdateEntry } from "@/lib/entries-hooks"
-import type { Entry } from "@/lib/entries-hooks"
+import {
+  getConflictEntry,
+  useBulkEntries,
+  useEmbeddingStatus,
+  useUpdateEntry,
+} from "@/lib/entries-hooks"
+import type { BulkAction, Entry } from "@/lib/entries-hooks"
+import { useDraft, useDraftAutosave, type Draft } from "@/lib/drafts-hooks"
 import type { YooptaContentValue } from "@yoopta/editor"
 
 interface MemoryListProps {
@@ -14,9 +37,12 @@ interface MemoryListProps {
   isLoading: boolean
   isFetchingNextPage: boolean
   hasNextPage: boolean
+  isFiltered?: boolean
   fetchNextPage: () => void
   onEditEntry: (entry: Entry) => void
   onDeleteEntry: (id: number) => void
+  onTagClick?: (tag: string) => void
+  onOpenEntry?: (id: number) => void
 }
 
 export function MemoryList({
@@ -24,50 +50,222 @@ export function MemoryList({
   isLoading,
   isFetchingNextPage,
   hasNextPage,
+  isFiltered = false,
   fetchNextPage,
   onEditEntry,
   onDeleteEntry,
-}: EntriesListProps) {
+  onTagClick,
+  onOpenEntry,
+}: MemoryListProps) {
   const historyRef = useRef<HTMLDivElement>(null)
 
   // Editing state - moved inside component
   const [editingId, setEditingId] = useState<number | null>(null)
   const [editingContent, setEditingContent] = useState("")
+  // Version the edit started from, sent as If-Match so stale saves are refused
+  const [editingVersion, setEditingVersion] = useState<number | null>(null)
+
+  // A save refused because the memory changed elsewhere, and the copy merged against
+  const [conflict, setConflict] = useState<{
+    mine: { content: YooptaContentValue; textContent: string }
+    theirs: Entry
+  } | null>(null)
+  const [mergeReference, setMergeReference] = useState<Entry | null>(null)
+  const [sharingId, setSharingId] = useState<number | null>(null)
+
+  // Memories not yet found by meaning-based search and chat
+  const { data: embeddingStatus } = useEmbeddingStatus()
+  const unindexed = useMemo(
+    () => new Map(embeddingStatus?.entries.map((entry) => [entry.id, entry.embedding_status])),
+    [embeddingStatus]
+  )
 
   // Update entry mutation
   const updateEntryMutation = useUpdateEntry()
 
+  // Unsaved edits are autosaved as a draft and offered back next time the memory is edited
+  const editDraftContext = editingId !== null ? (`entry:${editingId}` as const) : null
+  const [editDraftContent, setEditDraftContent] = useState<YooptaContentValue | null>(null)
+  const [editDraftHandled, setEditDraftHandled] = useState(false)
+  const [editorKey, setEditorKey] = useState(0)
+  const { data: editDraft } = useDraft(editDraftContext)
+  const offeredEditDraft =
+    editDraft && !editDraftHandled && editDraftContent === null ? editDraft : null
+  const editDraftInput = useMemo(
+    () => (editDraftContent ? { content: editDraftContent, metadata: null } : null),
+    [editDraftContent]
+  )
+  const { discard: discardEditDraft } = useDraftAutosave(
+    offeredEditDraft ? null : editDraftContext,
+    editDraftInput
+  )
+
   // Editing functions
   const handleEditEntry = (entry: Entry) => {
     setEditingId(entry.id)
     setEditingContent(JSON.stringify(entry.content))
+    setEditingVersion(entry.version)
+    setMergeReference(null)
+    setEditDraftContent(null)
+    setEditDraftHandled(false)
     onEditEntry(entry)
   }
 
   const handleCancelEdit = () => {
+    discardEditDraft().catch((error) => console.error("Error clearing draft:", error))
     setEditingId(null)
     setEditingContent("")
+    setEditingVersion(null)
+    setMergeReference(null)
+    setEditDraftContent(null)
   }
 
-  const handleUpdateEntry = async (
+  const handleRestoreEditDraft = (draft: Draft) => {
+    setEditingContent(JSON.stringify(draft.content))
+    setEditorKey((prev) => prev + 1)
+    setEditDraftContent(draft.content)
+    setEditDraftHandled(true)
+  }
+
+  const handleDiscardEditDraft = () => {
+    setEditDraftHandled(true)
+    discardEditDraft().catch((error) => console.error("Error discarding draft:", error))
+  }
+
+  const saveEdit = async (
     content: YooptaContentValue,
-    textContent: string
+    textContent: string,
+    version: number
   ) => {
-    if (!editingId || !textContent.trim()) return
-
     try {
       await updateEntryMutation.mutateAsync({
-        id: editingId,
+        id: editingId!,
         content,
-        textContent,
+        version,
       })
-      setEditingId(null)
-      setEditingContent("")
+      setConflict(null)
+      handleCancelEdit()
+    } catch (error) {
+      const theirs = getConflictEntry(error)
+      if (theirs) {
+        setConflict({ mine: { content, textContent }, theirs })
+      }
+      // Rethrow so the editor keeps the unsaved text
+      throw error
+    }
+  }
+
+  const handleUpdateEntry = async (
+    content: YooptaContentValue,
+    textContent: string
+  ) => {
+    if (!editingId || editingVersion === null) return
+    await saveEdit(content, textContent, editingVersion)
+  }
+
+  const handleKeepMine = async () => {
+    if (!conflict) return
+    try {
+      await saveEdit(
+        conflict.mine.content,
+        conflict.mine.textContent,
+        conflict.theirs.version
+      )
     } catch (error) {
-      console.error("Error updating entry:", error)
+      console.error("Error saving over newer entry:", error)
     }
   }
 
+  const handleKeepTheirs = () => {
+    setConflict(null)
+    handleCancelEdit()
+  }
+
+  // Keep editing my copy, now based on theirs, with their text shown for reference
+  const handleMergeByHand = () => {
+    if (!conflict) return
+    setEditingVersion(conflict.theirs.version)
+    setMergeReference(conflict.theirs)
+    setConflict(null)
+  }
+
+  // Multi-select state for bulk actions
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const selectionAnchorRef = useRef<number | null>(null)
+  const bulkEntriesMutation = useBulkEntries()
+
+  // Click toggles one memory; shift-click selects everything between it and the last click
+  const handleSelectEntry = (index: number, shiftKey: boolean) => {
+    const anchor = selectionAnchorRef.current
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (shiftKey && anchor !== null && entries[anchor]) {
+        const [from, to] = anchor < index ? [anchor, index] : [index, anchor]
+        for (let i = from; i <= to; i++) next.add(entries[i].id)
+      } else if (next.has(entries[index].id)) {
+        next.delete(entries[index].id)
+      } else {
+        next.add(entries[index].id)
+      }
+      return next
+    })
+    selectionAnchorRef.current = index
+  }
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false)
+    setSelectedIds(new Set())
+    selectionAnchorRef.current = null
+  }
+
+  const runBulkAction = async (
+    action: BulkAction,
+    options: { tag?: string; notebookId?: number | null } = {}
+  ) => {
+    const ids = [...selectedIds]
+    if (ids.length === 0) return
+
+    try {
+      const response = await bulkEntriesMutation.mutateAsync({ action, ids, ...options })
+      const { updated = 0, failed = 0 } = response.summary ?? {}
+
+      if (action === "delete") {
+        exitSelectionMode()
+        useUIStore.getState().showToast({
+          message: `${updated} ${updated === 1 ? "memory" : "memories"} moved to trash`,
+          actionLabel: "Undo",
+          onAction: () => bulkEntriesMutation.mutate({ action: "restore", ids }),
+        })
+      } else {
+        useUIStore.getState().showToast({
+          message: failed
+            ? `Updated ${updated}, ${failed} failed`
+            : `Updated ${updated} ${updated === 1 ? "memory" : "memories"}`,
+        })
+      }
+    } catch (error) {
+      console.error(`Error applying bulk ${action}:`, error)
+      useUIStore.getState().showToast({
+        message: "Bulk action failed, nothing was changed",
+      })
+    }
+  }
+
+  // Escape leaves selection mode
+  useEffect(() => {
+    if (!selectionMode) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setSelectionMode(false)
+        setSelectedIds(new Set())
+        selectionAnchorRef.current = null
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [selectionMode])
+
   // Intersection Observer for infinite scroll
   const [loadMoreRef, loadMoreEntry] = useIntersectionObserver({
     threshold: 0, // Trigger as soon as element enters viewport
@@ -188,6 +386,35 @@ export function MemoryList({
 
   return (
     <div ref={historyRef} className="space-y-1">
+      {/* Bulk selection toolbar */}
+      {selectionMode ? (
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          totalCount={entries.length}
+          isPending={bulkEntriesMutation.isPending}
+          onSelectAll={() => setSelectedIds(new Set(entries.map((e) => e.id)))}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onDelete={() => runBulkAction("delete")}
+          onTag={(mode, tag) => runBulkAction(mode, { tag })}
+          onMoveToNotebook={(notebookId) => runBulkAction("move_to_notebook", { notebookId })}
+          onReEmbed={() => runBulkAction("re_embed")}
+          onDone={exitSelectionMode}
+        />
+      ) : (
+        entries.length > 0 && (
+          <div className="flex justify-end">
+            <button
+              onClick={() => setSelectionMode(true)}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              title="Select several memories (shift-click selects a range)"
+            >
+              <CheckSquare className="w-3 h-3" />
+              Select
+            </button>
+          </div>
+        )
+      )}
+
       {/* Intersection Observer Target - Load More Trigger (at the top) */}
       {hasNextPage && (
         <div ref={loadMoreRef} className="h-4 w-full" aria-hidden="true" />
@@ -214,21 +441,50 @@ export function MemoryList({
             className="text-center text-muted-foreground py-8"
           >
             <BookOpen className="w-8 h-8 mx-auto mb-2 opacity-50" />
-            <p className="text-sm">No memories yet</p>
+            {isFiltered ? (
+              <p className="text-sm">No matching memories</p>
+            ) : (
+              <>
+                <p className="text-sm">No memories yet</p>
                           <p className="text-xs">Start writing to see your memory history</p>
+              </>
+            )}
           </motion.div>
         ) : (
                       // Show memories in chronological order (oldest first, from backend)
-          entries.map((entry: Entry) => (
+          entries.map((entry: Entry, index: number) => (
             <motion.div
               key={entry.id}
+              data-entry-id={entry.id}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.3, ease: "easeOut" }}
-              className="group journal-entry relative"
+              className={`group journal-entry relative ${
+                selectionMode ? "cursor-pointer select-none" : ""
+              } ${
+                selectedIds.has(entry.id) ? "bg-primary/5 rounded" : ""
+              }`}
+              onClickCapture={(e) => {
+                if (!selectionMode) return
+                e.preventDefault()
+                e.stopPropagation()
+                handleSelectEntry(index, e.shiftKey)
+              }}
             >
               <div className="text-xs text-muted-foreground flex justify-between items-center">
                 <div className="flex items-center gap-2">
+                  {selectionMode && (
+                    <span
+                      className={`w-3.5 h-3.5 rounded border flex items-center justify-center ${
+                        selectedIds.has(entry.id)
+                          ? "bg-primary border-primary text-primary-foreground"
+                          : "border-muted-foreground/40"
+                      }`}
+                      aria-hidden="true"
+                    >
+                      {selectedIds.has(entry.id) && <Check className="w-2.5 h-2.5" />}
+                    </span>
+                  )}
                   <span
                     className={
                       useUIStore.getState().suggestionPanel.open &&
@@ -246,7 +502,15 @@ export function MemoryList({
                         : "opacity-0 group-hover:opacity-100"
                     }`}
                   >
-                    <span>{formatDate(entry.created_at)}</span>
+                    <span>{formatDate(entry.entry_date)}</span>
+                    {unindexed.has(entry.id) && (
+                      <span
+                        className="ml-1 opacity-60"
+                        title="Chat and meaning-based search can't find this memory yet"
+                      >
+                        · {unindexed.get(entry.id) === "failed" ? "not indexed" : "indexing"}
+                      </span>
+                    )}
                     <span className="text-xs opacity-60">
                       (double-click to edit)
                     </span>
@@ -287,6 +551,26 @@ export function MemoryList({
                   >
                     <Sparkles className="w-3 h-3 text-muted-foreground" />
                   </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      useUIStore.getState().openHistoryDrawer(entry.id)
+                    }}
+                    className="p-1 rounded hover:bg-muted transition-colors"
+                    title="View history"
+                  >
+                    <History className="w-3 h-3 text-muted-foreground" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setSharingId(entry.id)
+                    }}
+                    className="p-1 rounded hover:bg-muted transition-colors"
+                    title="Share a read-only link"
+                  >
+                    <Share2 className="w-3 h-3 text-muted-foreground" />
+                  </button>
                 </div>
               </div>
 
@@ -298,8 +582,28 @@ export function MemoryList({
                       (⌘+Enter to save, Esc to cancel)
                     </span>
                   </div>
+                  {mergeReference && (
+                    <div className="mb-2 rounded-md border border-dashed p-2 text-xs">
+                      <p className="mb-1 text-muted-foreground">
+                        Saved elsewhere — merge what you need, then save
+                      </p>
+                      <p className="whitespace-pre-wrap text-foreground/80">
+                        {mergeReference.text_content}
+                      </p>
+                    </div>
+                  )}
+                  {offeredEditDraft && (
+                    <DraftRestoreBanner
+                      draft={offeredEditDraft}
+                      onRestore={() => handleRestoreEditDraft(offeredEditDraft)}
+                      onDiscard={handleDiscardEditDraft}
+                    />
+                  )}
                   <MemoryEditor
+                    key={editorKey}
+                    entryId={entry.id}
                     initialContent={editingContent}
+                    onContentChange={setEditDraftContent}
                     onSubmit={handleUpdateEntry}
                     isEditing
                     onCancel={handleCancelEdit}
@@ -310,10 +614,53 @@ export function MemoryList({
               ) : (
                 <div
                   className="text-foreground leading-relaxed cursor-text rounded p-2 -m-2 transition-all duration-500 relative group/entry hover:bg-muted/20"
-                  onDoubleClick={() => handleEditEntry(entry)}
+                  onDoubleClick={() => !selectionMode && handleEditEntry(entry)}
                   title="Double-click to edit memory"
                 >
-                                      <MemoryRenderer content={entry.content} />
+                  {entry.unlock_at && (
+                    <div className="mb-1 flex items-center gap-1 text-xs text-primary">
+                      <Mail className="w-3 h-3" />
+                      <span>
+                        Letter from your past self, written{" "}
+                        {new Date(entry.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                  )}
+                                      <MemoryRenderer
+                    content={entry.content}
+                    onTagClick={onTagClick}
+                    onEntryLinkClick={onOpenEntry}
+                  />
+
+                  {/* Manually assigned tags (hashtags already show inline) */}
+                  {entry.manual_tags?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {entry.manual_tags.map((tag) => (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onTagClick?.(tag)
+                          }}
+                          className="tag-chip"
+                          title={`Show memories tagged #${tag}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {entry.metadata && <EntryMetadataChips metadata={entry.metadata} />}
+
+                  {onOpenEntry && (entry.backlink_count ?? 0) > 0 && (
+                    <EntryBacklinks
+                      entryId={entry.id}
+                      count={entry.backlink_count!}
+                      onOpenEntry={onOpenEntry}
+                    />
+                  )}
 
                   {/* Bottom gradient effect on hover */}
                   <span className="absolute inset-x-0 -bottom-px block h-px w-full journal-entry-gradient opacity-0 transition duration-500 group-hover/entry:opacity-100" />
@@ -338,6 +685,21 @@ export function MemoryList({
           </p>
         </motion.div>
       )}
+
+      {conflict && (
+        <MergeConflictDialog
+          mineText={conflict.mine.textContent}
+          theirs={conflict.theirs}
+          isSaving={updateEntryMutation.isPending}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onMergeByHand={handleMergeByHand}
+        />
+      )}
+
+      {sharingId !== null && (
+        <EntryShareDialog entryId={sharingId} onClose={() => setSharingId(null)} />
+      )}
     </div>
   )
 }
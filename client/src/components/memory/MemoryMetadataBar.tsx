@@ -0,0 +1,222 @@
+import { useState } from "react"
+import { Loader2, MapPin, Plus, RefreshCw, X, Zap } from "lucide-react"
+import {
+  WEATHER_CONDITIONS,
+  useLookupWeather,
+  useWeatherProvider,
+  type EntryMetadata,
+  type WeatherCondition,
+} from "@/lib/entries-hooks"
+import { ENERGY_LABELS, MOOD_EMOJI, MOOD_LABELS, type CustomField } from "@/lib/metadata"
+import { useUIStore } from "@/stores/ui-store"
+import { WeatherIcon } from "./WeatherIcon"
+
+interface MemoryMetadataBarProps {
+  metadata: EntryMetadata
+  onChange: (metadata: EntryMetadata) => void
+  customFields: CustomField[]
+  onCustomFieldsChange: (fields: CustomField[]) => void
+}
+
+const SCALE = [1, 2, 3, 4, 5]
+
+// Compact row under the editor for how the moment felt and where it happened
+export function MemoryMetadataBar({
+  metadata,
+  onChange,
+  customFields,
+  onCustomFieldsChange,
+}: MemoryMetadataBarProps) {
+  const [showCustom, setShowCustom] = useState(customFields.length > 0)
+  const { data: weatherProvider } = useWeatherProvider()
+  const lookupWeather = useLookupWeather()
+
+  const weather = metadata.weather
+  const location = metadata.location ?? ""
+
+  // Clicking the selected value again clears it
+  const toggleScale = (field: "mood" | "energy", value: number) => {
+    onChange({ ...metadata, [field]: metadata[field] === value ? undefined : value })
+  }
+
+  const setWeather = (condition: WeatherCondition | undefined, temperature: number | undefined) => {
+    onChange({
+      ...metadata,
+      weather:
+        condition || temperature !== undefined
+          ? { condition, temperature_c: temperature, source: "manual" }
+          : undefined,
+    })
+  }
+
+  const handleFillWeather = async () => {
+    try {
+      const current = await lookupWeather.mutateAsync(location.trim())
+      onChange({ ...metadata, weather: current })
+    } catch (error) {
+      console.error("Weather lookup failed:", error)
+      useUIStore.getState().showToast({ message: "Couldn't look up the weather for that location" })
+    }
+  }
+
+  const updateCustomField = (index: number, field: Partial<CustomField>) => {
+    onCustomFieldsChange(
+      customFields.map((existing, i) => (i === index ? { ...existing, ...field } : existing))
+    )
+  }
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-muted-foreground" data-section="memory-metadata">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        {/* Mood */}
+        <div className="flex items-center gap-0.5" role="group" aria-label="Mood">
+          {SCALE.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => toggleScale("mood", value)}
+              className={`rounded px-1 py-0.5 text-sm transition-opacity ${
+                metadata.mood === value ? "bg-muted opacity-100" : "opacity-40 hover:opacity-80"
+              }`}
+              title={`Mood: ${MOOD_LABELS[value - 1]}`}
+              aria-pressed={metadata.mood === value}
+            >
+              {MOOD_EMOJI[value - 1]}
+            </button>
+          ))}
+        </div>
+
+        {/* Energy */}
+        <div className="flex items-center gap-1" role="group" aria-label="Energy">
+          <Zap className="w-3 h-3" />
+          {SCALE.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => toggleScale("energy", value)}
+              className={`h-3 w-2 rounded-sm transition-colors ${
+                metadata.energy && value <= metadata.energy ? "bg-amber-500" : "bg-muted hover:bg-muted-foreground/30"
+              }`}
+              title={`Energy: ${ENERGY_LABELS[value - 1]}`}
+              aria-pressed={metadata.energy === value}
+            />
+          ))}
+        </div>
+
+        {/* Location */}
+        <label className="flex items-center gap-1">
+          <MapPin className="w-3 h-3" />
+          <input
+            value={location}
+            onChange={(e) => onChange({ ...metadata, location: e.target.value })}
+            maxLength={100}
+            placeholder="Location"
+            className="w-28 bg-transparent border-b border-transparent focus:border-border outline-none placeholder:text-muted-foreground/60"
+          />
+        </label>
+
+        {/* Weather */}
+        <div className="flex items-center gap-1">
+          <WeatherIcon condition={weather?.condition} className="w-3 h-3" />
+          <select
+            value={weather?.condition ?? ""}
+            onChange={(e) =>
+              setWeather((e.target.value || undefined) as WeatherCondition | undefined, weather?.temperature_c)
+            }
+            className="bg-transparent outline-none"
+            aria-label="Weather"
+          >
+            <option value="">Weather</option>
+            {WEATHER_CONDITIONS.map((condition) => (
+              <option key={condition} value={condition}>
+                {condition}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={weather?.temperature_c ?? ""}
+            onChange={(e) =>
+              setWeather(weather?.condition, e.target.value === "" ? undefined : Number(e.target.value))
+            }
+            min={-90}
+            max={60}
+            placeholder="°C"
+            className="w-12 bg-transparent border-b border-transparent focus:border-border outline-none placeholder:text-muted-foreground/60"
+            aria-label="Temperature in °C"
+          />
+          {weatherProvider && (
+            <button
+              type="button"
+              onClick={handleFillWeather}
+              disabled={!location.trim() || lookupWeather.isPending}
+              className="hover:text-foreground disabled:opacity-40 transition-colors"
+              title={location.trim() ? `Fill in current weather (${weatherProvider})` : "Enter a location to look up the weather"}
+            >
+              {lookupWeather.isPending ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <RefreshCw className="w-3 h-3" />
+              )}
+            </button>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => {
+            if (!showCustom && customFields.length === 0) {
+              onCustomFieldsChange([{ key: "", value: "" }])
+            }
+            setShowCustom((prev) => !prev)
+          }}
+          className="flex items-center gap-0.5 hover:text-foreground transition-colors"
+          title="Custom fields"
+        >
+          <Plus className="w-3 h-3" />
+          Field
+        </button>
+      </div>
+
+      {/* Custom key/values */}
+      {showCustom && (
+        <div className="space-y-1">
+          {customFields.map((field, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={field.key}
+                onChange={(e) => updateCustomField(index, { key: e.target.value })}
+                placeholder="Name"
+                className="w-28 bg-transparent border-b border-border/50 focus:border-border outline-none"
+              />
+              <input
+                value={field.value}
+                onChange={(e) => updateCustomField(index, { value: e.target.value })}
+                maxLength={200}
+                placeholder="Value"
+                className="flex-1 bg-transparent border-b border-border/50 focus:border-border outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => onCustomFieldsChange(customFields.filter((_, i) => i !== index))}
+                className="hover:text-foreground transition-colors"
+                title="Remove field"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {customFields.length < 20 && (
+            <button
+              type="button"
+              onClick={() => onCustomFieldsChange([...customFields, { key: "", value: "" }])}
+              className="hover:text-foreground transition-colors"
+            >
+              + Add field
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
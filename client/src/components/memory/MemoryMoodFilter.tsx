@@ -0,0 +1,107 @@
+import { Smile, X } from "lucide-react"
+import { WEATHER_CONDITIONS, type MetadataFilters } from "@/lib/entries-hooks"
+import { ENERGY_LABELS, MOOD_EMOJI, MOOD_LABELS } from "@/lib/metadata"
+import { WeatherIcon } from "./WeatherIcon"
+
+interface MemoryMoodFilterProps {
+  filters: MetadataFilters
+  onChange: (filters: MetadataFilters) => void
+}
+
+const SCALE = [1, 2, 3, 4, 5]
+
+// Slice the journal by how it felt: exact mood, minimum energy, weather
+export function MemoryMoodFilter({ filters, onChange }: MemoryMoodFilterProps) {
+  const isActive = Object.keys(filters).length > 0
+
+  // Only pass on the filters that are set, so "no filters" is always {}
+  const update = (next: MetadataFilters) => {
+    onChange(
+      Object.fromEntries(
+        Object.entries(next).filter(([, value]) => value !== undefined)
+      ) as MetadataFilters
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Smile className="w-3 h-3" />
+          How it felt
+        </span>
+        {isActive && (
+          <button
+            onClick={() => onChange({})}
+            className="flex items-center gap-1 hover:text-foreground transition-colors"
+            title="Clear mood filters"
+          >
+            <X className="w-3 h-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        {SCALE.map((value) => {
+          const selected = filters.mood_min === value && filters.mood_max === value
+          return (
+            <button
+              key={value}
+              onClick={() =>
+                update({
+                  ...filters,
+                  mood_min: selected ? undefined : value,
+                  mood_max: selected ? undefined : value,
+                })
+              }
+              className={`rounded px-1 text-sm transition-opacity ${
+                selected ? "bg-muted opacity-100" : "opacity-50 hover:opacity-90"
+              }`}
+              title={`Show ${MOOD_LABELS[value - 1].toLowerCase()} days`}
+            >
+              {MOOD_EMOJI[value - 1]}
+            </button>
+          )
+        })}
+
+        <select
+          value={filters.energy_min ?? ""}
+          onChange={(e) =>
+            update({ ...filters, energy_min: e.target.value ? Number(e.target.value) : undefined })
+          }
+          className="ml-auto bg-transparent text-xs text-muted-foreground outline-none"
+          aria-label="Minimum energy"
+        >
+          <option value="">Any energy</option>
+          {SCALE.slice(1).map((value) => (
+            <option key={value} value={value}>
+              {ENERGY_LABELS[value - 1]}+
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {WEATHER_CONDITIONS.map((condition) => (
+          <button
+            key={condition}
+            onClick={() =>
+              update({
+                ...filters,
+                weather: filters.weather === condition ? undefined : condition,
+              })
+            }
+            className={`tag-chip flex items-center gap-1 text-xs ${
+              filters.weather === condition ? "ring-1 ring-primary" : ""
+            }`}
+            title={`Show memories on ${condition} days`}
+          >
+            <WeatherIcon condition={condition} className="w-3 h-3" />
+            {condition}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from "react"
+import { Check, NotebookPen, Pencil, Plus, Trash2, X } from "lucide-react"
+import {
+  useCreateNotebook,
+  useDeleteNotebook,
+  useNotebooks,
+  useRenameNotebook,
+  type Notebook,
+} from "@/lib/notebooks-hooks"
+import { ApiError } from "@/lib/api"
+import { useUIStore } from "@/stores/ui-store"
+
+interface MemoryNotebooksProps {
+  activeNotebookId: number | null
+  onSelectNotebook: (notebookId: number | null) => void
+}
+
+// Validation messages from the server (e.g. a duplicate name) are worth showing as is
+function errorMessage(error: unknown, fallback: string): string {
+  const message = error instanceof ApiError ? (error.body as { error?: unknown } | null)?.error : null
+  return typeof message === "string" ? message : fallback
+}
+
+// Switch between notebooks (or all of them), and add, rename or delete one
+export function MemoryNotebooks({ activeNotebookId, onSelectNotebook }: MemoryNotebooksProps) {
+  const { data: notebooks = [] } = useNotebooks()
+  const createNotebook = useCreateNotebook()
+  const renameNotebook = useRenameNotebook()
+  const deleteNotebook = useDeleteNotebook()
+
+  // null: not editing; 0: naming a new notebook; otherwise the notebook being renamed
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [name, setName] = useState("")
+
+  const startEditing = (notebook: Notebook | null) => {
+    setEditingId(notebook?.id ?? 0)
+    setName(notebook?.name ?? "")
+  }
+
+  const stopEditing = () => {
+    setEditingId(null)
+    setName("")
+  }
+
+  const handleSubmit = async () => {
+    const trimmed = name.trim()
+    if (!trimmed || editingId === null) return
+
+    try {
+      if (editingId === 0) {
+        const notebook = await createNotebook.mutateAsync(trimmed)
+        onSelectNotebook(notebook.id)
+      } else {
+        await renameNotebook.mutateAsync({ id: editingId, name: trimmed })
+      }
+      stopEditing()
+    } catch (error) {
+      console.error("Error saving notebook:", error)
+      useUIStore.getState().showToast({ message: errorMessage(error, "Couldn't save the notebook") })
+    }
+  }
+
+  const handleDelete = async (notebook: Notebook) => {
+    if (!window.confirm(`Delete "${notebook.name}"? Its memories are kept outside any notebook.`)) {
+      return
+    }
+
+    try {
+      await deleteNotebook.mutateAsync(notebook.id)
+      if (activeNotebookId === notebook.id) onSelectNotebook(null)
+    } catch (error) {
+      console.error("Error deleting notebook:", error)
+      useUIStore.getState().showToast({ message: "Couldn't delete the notebook" })
+    }
+  }
+
+  const nameInput = (
+    <form
+      className="flex items-center gap-1"
+      onSubmit={(e) => {
+        e.preventDefault()
+        handleSubmit()
+      }}
+    >
+      <input
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && stopEditing()}
+        maxLength={60}
+        placeholder="Notebook name"
+        className="flex-1 min-w-0 h-6 rounded bg-muted/30 px-2 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      />
+      <button type="submit" className="hover:text-foreground transition-colors" title="Save">
+        <Check className="w-3 h-3" />
+      </button>
+      <button type="button" onClick={stopEditing} className="hover:text-foreground transition-colors" title="Cancel">
+        <X className="w-3 h-3" />
+      </button>
+    </form>
+  )
+
+  const itemClass = (active: boolean) =>
+    `flex-1 min-w-0 truncate text-left rounded px-2 py-1 transition-colors ${
+      active ? "bg-muted text-foreground" : "hover:bg-muted/50"
+    }`
+
+  return (
+    <div className="space-y-2 text-xs text-muted-foreground">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1">
+          <NotebookPen className="w-3 h-3" />
+          Notebooks
+        </span>
+        <button
+          onClick={() => startEditing(null)}
+          className="flex items-center gap-1 hover:text-foreground transition-colors"
+          title="New notebook"
+        >
+          <Plus className="w-3 h-3" />
+          New
+        </button>
+      </div>
+
+      <div className="space-y-0.5">
+        <button
+          onClick={() => onSelectNotebook(null)}
+          className={`w-full ${itemClass(activeNotebookId === null)}`}
+        >
+          All memories
+        </button>
+
+        {notebooks.map((notebook) =>
+          editingId === notebook.id ? (
+            <div key={notebook.id}>{nameInput}</div>
+          ) : (
+            <div key={notebook.id} className="group flex items-center gap-1">
+              <button
+                onClick={() => onSelectNotebook(notebook.id)}
+                className={itemClass(activeNotebookId === notebook.id)}
+                title={notebook.name}
+              >
+                {notebook.name}
+                <span className="ml-1 opacity-60">{notebook.entry_count}</span>
+              </button>
+              <button
+                onClick={() => startEditing(notebook)}
+                className="opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+                title="Rename notebook"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => handleDelete(notebook)}
+                className="opacity-0 group-hover:opacity-100 hover:text-red-600 transition-opacity"
+                title="Delete notebook"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          )
+        )}
+
+        {editingId === 0 && nameInput}
+      </div>
+    </div>
+  )
+}
@@ -3,12 +3,16 @@ import { useMemo } from "react"
 interface MemoryRendererProps {
   content: string | object
   className?: string
+  onTagClick?: (tag: string) => void
+  onEntryLinkClick?: (entryId: number) => void
 }
 
 export function MemoryRenderer({
   content,
   className = "",
-}: YooptaContentRendererProps) {
+  onTagClick,
+  onEntryLinkClick,
+}: MemoryRendererProps) {
   const renderedContent = useMemo(() => {
     try {
       // Handle both string and object inputs
@@ -22,10 +26,30 @@ export function MemoryRenderer({
     }
   }, [content])
 
+  // Hashtag chips and entry links are plain HTML, so handle their clicks on the container
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement
+    const chip = target.closest<HTMLElement>("[data-tag]")
+    if (chip && onTagClick) {
+      e.preventDefault()
+      e.stopPropagation()
+      onTagClick(chip.dataset.tag!)
+      return
+    }
+
+    const link = target.closest<HTMLElement>("[data-entry-link]")
+    if (link && onEntryLinkClick) {
+      e.preventDefault()
+      e.stopPropagation()
+      onEntryLinkClick(Number(link.dataset.entryLink))
+    }
+  }
+
   return (
     <div
       className={`journal-content opacity-[0.9] max-w-none text-base leading-relaxed ${className}`}
       // className={`prose prose-sm max-w-none text-base leading-relaxed ${className}`}
+      onClick={handleClick}
       dangerouslySetInnerHTML={{ __html: renderedContent }}
     />
   )
@@ -75,8 +99,13 @@ function renderYooptaBlocks(blocks: unknown[]): string {
         id: string
         type: string
         children: unknown[]
+        props?: Record<string, unknown>
       }
       switch (typedBlock.type) {
+        case "image":
+          return renderImage(typedBlock.props)
+        case "file":
+          return renderFile(typedBlock.props)
         case "paragraph":
           return `<p>${renderText(typedBlock.children)}</p>`
         case "blockquote":
@@ -100,6 +129,41 @@ function renderYooptaBlocks(blocks: unknown[]): string {
     .join("")
 }
 
+// Attachment URLs come from our API; anything that isn't http(s) is dropped
+function attachmentSrc(props?: Record<string, unknown>): string | null {
+  const src = props?.src
+  return typeof src === "string" && /^https?:\/\//.test(src) ? src : null
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+}
+
+function renderImage(props?: Record<string, unknown>): string {
+  const src = attachmentSrc(props)
+  if (!src) return ""
+  const alt = typeof props?.alt === "string" ? props.alt : ""
+  return `<figure class="entry-attachment"><img src="${escapeAttribute(src)}" alt="${escapeAttribute(alt)}" loading="lazy" /></figure>`
+}
+
+function renderFile(props?: Record<string, unknown>): string {
+  const src = attachmentSrc(props)
+  if (!src) return ""
+  const name = typeof props?.name === "string" && props.name ? props.name : "Attachment"
+  const size = typeof props?.size === "number" ? ` <span class="entry-attachment-size">${formatFileSize(props.size)}</span>` : ""
+  return `<p><a class="entry-attachment-file" href="${escapeAttribute(src)}" target="_blank" rel="noopener noreferrer">📎 ${escapeAttribute(name)}</a>${size}</p>`
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
 function renderText(children: unknown[]): string {
   if (!Array.isArray(children)) {
     return ""
@@ -121,9 +185,11 @@ function renderText(children: unknown[]): string {
       if (typedChild.text) {
         let text = typedChild.text
 
-        // Convert URLs and emails to clickable links
+        // Convert [[links]], URLs and emails to clickable links, and hashtags to tag chips
+        text = convertEntryLinks(text)
         text = convertUrlsToLinks(text)
         text = convertEmailsToLinks(text)
+        text = convertHashtagsToChips(text)
 
         if (typedChild.bold) {
           text = `<strong>${text}</strong>`
@@ -146,6 +212,15 @@ function renderText(children: unknown[]): string {
     .join("")
 }
 
+// Function to convert [[id|Label]] references into links to other memories
+function convertEntryLinks(text: string): string {
+  const entryLinkRegex = /\[\[(\d+)(?:\|([^\]]*))?\]\]/g
+
+  return text.replace(entryLinkRegex, (_match, id: string, label?: string) => {
+    return `<button type="button" class="entry-link" data-entry-link="${id}">${label?.trim() || `Memory ${id}`}</button>`
+  })
+}
+
 // Function to convert URLs in text to clickable links
 function convertUrlsToLinks(text: string): string {
   // Enhanced regex to match various URL patterns
@@ -179,6 +254,18 @@ function convertEmailsToLinks(text: string): string {
   })
 }
 
+// Function to convert #hashtags into clickable tag chips
+function convertHashtagsToChips(text: string): string {
+  // Same rules as the server: not inside words or URLs, and not purely numeric
+  const hashtagRegex = /(?<![\p{L}\p{N}_&/#"=])#([\p{L}\p{N}_][\p{L}\p{N}_-]*)/gu
+
+  return text.replace(hashtagRegex, (match, rawTag: string) => {
+    const tag = rawTag.replace(/-+$/, "").toLowerCase()
+    if (/^\d+$/.test(tag)) return match
+    return `<button type="button" class="tag-chip" data-tag="${tag}" title="Show memories tagged #${tag}">${match}</button>`
+  })
+}
+
 function renderListItems(children: unknown[]): string {
   if (!Array.isArray(children)) {
     return ""
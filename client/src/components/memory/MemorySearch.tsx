@@ -0,0 +1,101 @@
+import { Loader2, Search, X } from "lucide-react"
+import type { SearchResult } from "@/lib/entries-hooks"
+
+interface MemorySearchProps {
+  query: string
+  onQueryChange: (query: string) => void
+  results: SearchResult[]
+  isSearching: boolean
+  onSelectResult: (entryId: number) => void
+}
+
+export function MemorySearch({
+  query,
+  onQueryChange,
+  results,
+  isSearching,
+  onSelectResult,
+}: MemorySearchProps) {
+  const hasQuery = query.trim().length > 0
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") onQueryChange("")
+          }}
+          placeholder='Search memories ("phrase", word*, -exclude)'
+          className="w-full h-8 rounded-md bg-muted/30 pl-8 pr-8 text-xs text-foreground placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-[2px] focus-visible:ring-ring"
+        />
+        {hasQuery && (
+          <button
+            onClick={() => onQueryChange("")}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-muted transition-colors"
+            title="Clear search (Esc)"
+          >
+            <X className="w-3 h-3 text-muted-foreground" />
+          </button>
+        )}
+      </div>
+
+      {hasQuery && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {isSearching ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Searching...
+              </>
+            ) : (
+              <span>
+                {results.length} {results.length === 1 ? "match" : "matches"}
+              </span>
+            )}
+          </div>
+
+          {results.map((result) => (
+            <button
+              key={result.id}
+              onClick={() => onSelectResult(result.id)}
+              className="block w-full text-left rounded p-2 hover:bg-muted/30 transition-colors"
+            >
+              <div className="text-[11px] text-muted-foreground mb-0.5">
+                {new Date(result.entry_date).toLocaleDateString()}
+              </div>
+              <p className="text-xs text-foreground/90 leading-relaxed">
+                <SearchSnippet snippet={result.snippet} />
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Render a server snippet, highlighting the <mark> sections as text (never as HTML)
+function SearchSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/(<mark>.*?<\/mark>)/g)
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith("<mark>") && part.endsWith("</mark>") ? (
+          <mark
+            key={index}
+            className="bg-primary/20 text-foreground rounded-sm px-0.5"
+          >
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,52 @@
+import { Hash, X } from "lucide-react"
+import { useTags } from "@/lib/entries-hooks"
+
+interface MemoryTagsProps {
+  activeTag: string | null
+  onSelectTag: (tag: string | null) => void
+}
+
+export function MemoryTags({ activeTag, onSelectTag }: MemoryTagsProps) {
+  const { data: tags = [] } = useTags()
+
+  if (tags.length === 0 && !activeTag) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Hash className="w-3 h-3" />
+          Tags
+        </span>
+        {activeTag && (
+          <button
+            onClick={() => onSelectTag(null)}
+            className="flex items-center gap-1 hover:text-foreground transition-colors"
+            title="Clear tag filter"
+          >
+            <X className="w-3 h-3" />
+            Clear #{activeTag}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {tags.map(({ tag, count }) => (
+          <button
+            key={tag}
+            onClick={() => onSelectTag(tag === activeTag ? null : tag)}
+            className={`tag-chip text-xs ${
+              tag === activeTag ? "ring-1 ring-primary" : ""
+            }`}
+            title={`Show memories tagged #${tag}`}
+          >
+            #{tag}
+            <span className="ml-1 opacity-60">{count}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
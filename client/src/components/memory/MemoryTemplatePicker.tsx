@@ -0,0 +1,173 @@
+import { useState } from "react"
+import { BookmarkPlus, Check, LayoutTemplate, Loader2, X } from "lucide-react"
+import { isYooptaEmpty } from "shared"
+import { Button } from "@/components/ui/button"
+import { ApiError } from "@/lib/api"
+import {
+  useApplyTemplate,
+  useCreateTemplate,
+  useDeleteTemplate,
+  useTemplates,
+  type AppliedTemplate,
+  type Template,
+} from "@/lib/templates-hooks"
+import { useUIStore } from "@/stores/ui-store"
+
+interface MemoryTemplatePickerProps {
+  // What's in the editor now, offered as the content of a new template
+  currentContent: Record<string, unknown> | null
+  onApply: (applied: AppliedTemplate) => void
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  const message = error instanceof ApiError ? (error.body as { error?: unknown } | null)?.error : null
+  return typeof message === "string" ? message : fallback
+}
+
+// Start a memory from a template, or save what's written so far as a new one
+export function MemoryTemplatePicker({ currentContent, onApply }: MemoryTemplatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isNaming, setIsNaming] = useState(false)
+  const [name, setName] = useState("")
+
+  const hasContent = currentContent !== null && !isYooptaEmpty(currentContent)
+
+  const { data: templates = [] } = useTemplates()
+  const applyTemplate = useApplyTemplate()
+  const createTemplate = useCreateTemplate()
+  const deleteTemplate = useDeleteTemplate()
+
+  const handleApply = async (template: Template) => {
+    if (hasContent && !window.confirm(`Replace what you've written with "${template.name}"?`)) {
+      return
+    }
+
+    try {
+      onApply(await applyTemplate.mutateAsync(template.key))
+      setIsOpen(false)
+    } catch (error) {
+      console.error("Error applying template:", error)
+      useUIStore.getState().showToast({ message: "Couldn't load the template" })
+    }
+  }
+
+  const handleSave = async () => {
+    const trimmed = name.trim()
+    if (!trimmed || !currentContent || !hasContent) return
+
+    try {
+      await createTemplate.mutateAsync({ name: trimmed, content: currentContent })
+      useUIStore.getState().showToast({ message: `Saved "${trimmed}" as a template` })
+      setIsNaming(false)
+      setName("")
+    } catch (error) {
+      console.error("Error saving template:", error)
+      useUIStore.getState().showToast({ message: errorMessage(error, "Couldn't save the template") })
+    }
+  }
+
+  const handleDelete = async (template: Template) => {
+    if (template.id === undefined || !window.confirm(`Delete the "${template.name}" template?`)) {
+      return
+    }
+
+    try {
+      await deleteTemplate.mutateAsync(template.id)
+    } catch (error) {
+      console.error("Error deleting template:", error)
+      useUIStore.getState().showToast({ message: "Couldn't delete the template" })
+    }
+  }
+
+  return (
+    <div className="mb-2 text-xs text-muted-foreground" data-section="memory-templates">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex items-center gap-1 hover:text-foreground transition-colors"
+          title="Start from a template"
+        >
+          <LayoutTemplate className="w-3 h-3" />
+          Templates
+        </button>
+        {hasContent && !isNaming && (
+          <button
+            type="button"
+            onClick={() => setIsNaming(true)}
+            className="flex items-center gap-1 hover:text-foreground transition-colors"
+            title="Save what you've written as a template"
+          >
+            <BookmarkPlus className="w-3 h-3" />
+            Save as template
+          </button>
+        )}
+        {isNaming && (
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSave()
+            }}
+          >
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setIsNaming(false)}
+              maxLength={80}
+              placeholder="Template name"
+              className="h-6 w-40 rounded bg-muted/30 px-2 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            />
+            <button type="submit" className="hover:text-foreground transition-colors" title="Save">
+              <Check className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsNaming(false)}
+              className="hover:text-foreground transition-colors"
+              title="Cancel"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </form>
+        )}
+        {applyTemplate.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+      </div>
+
+      {isOpen && (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          {templates.map((template) => (
+            <span key={template.key} className="group flex items-center">
+              <Button
+                size="sm"
+                variant="command"
+                className="h-6 px-2 text-xs"
+                disabled={applyTemplate.isPending}
+                onClick={() => handleApply(template)}
+                title={
+                  template.use_count > 0
+                    ? `Used ${template.use_count} ${template.use_count === 1 ? "time" : "times"}`
+                    : "Not used yet"
+                }
+              >
+                {template.name}
+                {template.use_count > 0 && <span className="ml-1 opacity-60">{template.use_count}</span>}
+              </Button>
+              {!template.builtin && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(template)}
+                  className="opacity-0 group-hover:opacity-100 hover:text-red-600 transition-opacity"
+                  title="Delete template"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from "react"
+import { ChevronDown, ChevronRight, Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { useRestoreEntry, useTrash } from "@/lib/entries-hooks"
+
+export function MemoryTrash() {
+  const [expanded, setExpanded] = useState(false)
+  const { data: trashed = [], isLoading } = useTrash(expanded)
+  const restoreEntryMutation = useRestoreEntry()
+
+  const handleRestore = async (id: number) => {
+    try {
+      await restoreEntryMutation.mutateAsync(id)
+    } catch (error) {
+      console.error("Error restoring entry:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <button
+        onClick={() => setExpanded((prev) => !prev)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {expanded ? (
+          <ChevronDown className="w-3 h-3" />
+        ) : (
+          <ChevronRight className="w-3 h-3" />
+        )}
+        <Trash2 className="w-3 h-3" />
+        Trash
+      </button>
+
+      {expanded &&
+        (isLoading ? (
+          <Loader2 className="w-3 h-3 ml-4 animate-spin text-muted-foreground" />
+        ) : trashed.length === 0 ? (
+          <p className="text-xs text-muted-foreground pl-4">Trash is empty</p>
+        ) : (
+          trashed.map((entry) => (
+            <div
+              key={entry.id}
+              className="group flex items-start justify-between gap-2 rounded p-2 pl-4 hover:bg-muted/30"
+            >
+              <div className="min-w-0">
+                <p className="text-xs text-foreground/80 truncate">
+                  {entry.text_content || "Untitled memory"}
+                </p>
+                <p className="text-[11px] text-muted-foreground">
+                  Deleted {new Date(entry.deleted_at).toLocaleDateString()} ·
+                  purged {new Date(entry.purge_at).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(entry.id)}
+                disabled={restoreEntryMutation.isPending}
+                className="p-1 rounded hover:bg-muted transition-colors opacity-0 group-hover:opacity-100"
+                title="Restore memory"
+              >
+                <RotateCcw className="w-3 h-3 text-muted-foreground" />
+              </button>
+            </div>
+          ))
+        ))}
+    </div>
+  )
+}
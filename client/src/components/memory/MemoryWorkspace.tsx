@@ -1,34 +1,132 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { useDebounce } from "@uidotdev/usehooks"
 import { useUser } from "@/lib/auth-hooks"
-import { useEntries, useCreateEntry, useDeleteEntry } from "@/lib/entries-hooks"
+import {
+  useEntries,
+  useCreateEntry,
+  useDeleteEntry,
+  useRestoreEntry,
+  useSearchEntries,
+  type EntryDates,
+  type EntryMetadata,
+  type MetadataFilters,
+} from "@/lib/entries-hooks"
+import { apiClient } from "@/lib/api"
+import { dayRange, toDayKey } from "@/lib/dates"
+import { useUIStore } from "@/stores/ui-store"
 import { MemoryList } from "./MemoryList"
 import { MemoryCapture } from "./MemoryCapture"
+import { MemorySearch } from "./MemorySearch"
+import { MemoryTrash } from "./MemoryTrash"
+import { MemoryEmbeddingStatus } from "./MemoryEmbeddingStatus"
+import { MemoryTags } from "./MemoryTags"
+import { MemoryCalendar } from "./MemoryCalendar"
+import { MemoryNotebooks } from "./MemoryNotebooks"
+import { MemoryMoodFilter } from "./MemoryMoodFilter"
 import { ExpandSuggestionPanelContainer } from "./ExpandSuggestionPanelContainer"
+import { EntryHistoryPanelContainer } from "./EntryHistoryPanelContainer"
 import { RagChatContainer } from "../ai/RagChatContainer"
 import type { Entry } from "@/lib/entries-hooks"
 
 export function MemoryWorkspace() {
   const { data: user, isLoading: userLoading } = useUser()
+  const [activeTag, setActiveTag] = useState<string | null>(null)
+  const [selectedDay, setSelectedDay] = useState<string | null>(null)
+  const [focusEntryId, setFocusEntryId] = useState<number | null>(null)
+  const [metadataFilters, setMetadataFilters] = useState<MetadataFilters>({})
+  const activeNotebookId = useUIStore((state) => state.activeNotebookId)
   const {
     data: entriesData,
     fetchNextPage,
     hasNextPage,
     isFetchingNextPage,
     isLoading: entriesLoading,
-  } = useEntries()
+  } = useEntries(activeNotebookId, {
+    ...(activeTag ? { tag: activeTag } : {}),
+    ...(selectedDay ? dayRange(selectedDay) : {}),
+    ...metadataFilters,
+  })
   const createEntryMutation = useCreateEntry()
   const deleteEntryMutation = useDeleteEntry()
+  const restoreEntryMutation = useRestoreEntry()
 
   // Flatten all memories from all pages and reverse to show newest at bottom
   const allEntries =
     entriesData?.pages.flatMap((page) => page.entries).reverse() || []
 
+  // Keyword search filters the list down to matching memories
+  const [searchQuery, setSearchQuery] = useState("")
+  const debouncedSearchQuery = useDebounce(searchQuery, 300)
+  const { data: searchData, isFetching: isSearching } =
+    useSearchEntries(debouncedSearchQuery, activeNotebookId)
+  const isSearchActive = debouncedSearchQuery.trim().length > 0
+  const searchResults = searchData?.results || []
+
+  // Matches are ranked in the sidebar but shown chronologically in the list
+  const visibleEntries = isSearchActive
+    ? [...searchResults]
+        .filter((entry) => !activeTag || entry.tags?.includes(activeTag))
+        .filter((entry) => {
+          if (!selectedDay) return true
+          const { from, to } = dayRange(selectedDay)
+          const entryDate = new Date(entry.entry_date)
+          return entryDate >= new Date(from) && entryDate < new Date(to)
+        })
+        .sort(
+        (a, b) =>
+          new Date(a.entry_date).getTime() - new Date(b.entry_date).getTime()
+      )
+    : allEntries
+
+  // Bring the chosen day's memories (or a linked memory) into view once they've loaded
+  const scrollTargetId = focusEntryId ?? visibleEntries[0]?.id
+  useEffect(() => {
+    if (!selectedDay || entriesLoading || scrollTargetId === undefined) return
+    document
+      .querySelector(`[data-entry-id="${scrollTargetId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" })
+  }, [selectedDay, entriesLoading, scrollTargetId])
+
+  // A day or linked memory picked in one notebook may not exist in the next
+  const handleSelectNotebook = (notebookId: number | null) => {
+    setFocusEntryId(null)
+    setSelectedDay(null)
+    useUIStore.getState().setActiveNotebook(notebookId)
+  }
+
+  const handleSelectDay = (day: string | null) => {
+    setFocusEntryId(null)
+    setSelectedDay(day)
+  }
+
+  // Follow a [[link]]: scroll to the memory if it's loaded, otherwise jump to its day
+  const handleOpenEntry = async (entryId: number) => {
+    const element = document.querySelector(`[data-entry-id="${entryId}"]`)
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" })
+      return
+    }
+
+    try {
+      const { entry } = await apiClient.getEntry(entryId)
+      setSearchQuery("")
+      setActiveTag(null)
+      setFocusEntryId(entryId)
+      setSelectedDay(toDayKey(new Date(entry.entry_date)))
+    } catch (error) {
+      console.error("Error opening linked entry:", error)
+      useUIStore.getState().showToast({ message: "That memory is no longer available" })
+    }
+  }
+
   const [isSaving, setIsSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
 
   const handleSaveEntry = async (
     entryContent: Record<string, unknown>,
-    textContent: string
+    textContent: string,
+    metadata: EntryMetadata | null,
+    dates: EntryDates
   ) => {
     if (!textContent.trim()) return
 
@@ -38,12 +136,21 @@ export function MemoryWorkspace() {
       // Save the entry
       await createEntryMutation.mutateAsync({
         content: entryContent,
-        textContent,
+        metadata,
+        dates,
+        notebookId: activeNotebookId,
       })
 
       setLastSaved(new Date())
+      if (dates.unlock_at) {
+        useUIStore.getState().showToast({
+          message: `Sealed until ${new Date(dates.unlock_at).toLocaleDateString()}`,
+        })
+      }
     } catch (error) {
       console.error("Error saving entry:", error)
+      // Rethrow so the editor (and its draft) keep the unsaved text
+      throw error
     } finally {
       setIsSaving(false)
     }
@@ -56,21 +163,26 @@ export function MemoryWorkspace() {
   }
 
   const handleDeleteEntry = async (id: number) => {
-    if (
-      !confirm(
-        "Are you sure you want to delete this memory? This action cannot be undone."
-      )
-    ) {
-      return
-    }
-
     try {
       await deleteEntryMutation.mutateAsync(id)
+
+      // Deleted memories go to the trash, so offer an undo instead of confirming first
+      useUIStore.getState().showToast({
+        message: "Memory moved to trash",
+        actionLabel: "Undo",
+        onAction: () => restoreEntryMutation.mutate(id),
+      })
     } catch (error) {
       console.error("Error deleting entry:", error)
     }
   }
 
+  const handleSelectSearchResult = (entryId: number) => {
+    document
+      .querySelector(`[data-entry-id="${entryId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }
+
   if (userLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-muted flex items-center justify-center">
@@ -88,19 +200,57 @@ export function MemoryWorkspace() {
       {/* Main Content - 3 Column Grid Layout */}
       <main className="flex-1 overflow-hidden">
         <div className="grid grid-cols-3 gap-6 h-full">
-          {/* Left Column - Reserved for future features */}
-          <div className="col-span-1"></div>
+          {/* Left Column - Notebooks, Calendar, Search, Tags & Trash */}
+          <div className="col-span-1 px-6 py-6 overflow-y-auto scrollbar-thin space-y-6">
+            <MemoryNotebooks
+              activeNotebookId={activeNotebookId}
+              onSelectNotebook={handleSelectNotebook}
+            />
+
+            <MemoryCalendar
+              notebookId={activeNotebookId}
+              selectedDay={selectedDay}
+              onSelectDay={handleSelectDay}
+            />
+
+            <MemorySearch
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              results={searchResults}
+              isSearching={isSearching}
+              onSelectResult={handleSelectSearchResult}
+            />
+
+            <MemoryEmbeddingStatus onOpenEntry={handleOpenEntry} />
+
+            <MemoryTags activeTag={activeTag} onSelectTag={setActiveTag} />
+
+            <MemoryMoodFilter
+              filters={metadataFilters}
+              onChange={setMetadataFilters}
+            />
+
+            <MemoryTrash />
+          </div>
 
           {/* Center Column - Memory Center */}
           <div className="col-span-1 px-6 py-6 overflow-y-auto scrollbar-thin">
             <MemoryList
-              entries={allEntries}
+              entries={visibleEntries}
               isLoading={entriesLoading}
               isFetchingNextPage={isFetchingNextPage}
-              hasNextPage={hasNextPage}
+              hasNextPage={!isSearchActive && hasNextPage}
+              isFiltered={
+                isSearchActive ||
+                activeTag !== null ||
+                selectedDay !== null ||
+                Object.keys(metadataFilters).length > 0
+              }
               fetchNextPage={fetchNextPage}
               onEditEntry={handleEditEntry}
               onDeleteEntry={handleDeleteEntry}
+              onTagClick={setActiveTag}
+              onOpenEntry={handleOpenEntry}
             />
 
             <MemoryCapture
@@ -115,6 +265,9 @@ export function MemoryWorkspace() {
 
           {/* Memory Assistant Panel (animated like Chat panel) */}
           <ExpandSuggestionPanelContainer />
+
+          {/* Entry History Drawer */}
+          <EntryHistoryPanelContainer />
         </div>
       </main>
     </div>
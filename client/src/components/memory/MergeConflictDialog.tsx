@@ -0,0 +1,110 @@
+import { useMemo } from "react"
+import { motion } from "motion/react"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { diffWords } from "@/lib/diff"
+import type { Entry } from "@/lib/entries-hooks"
+
+interface MergeConflictDialogProps {
+  mineText: string
+  theirs: Entry
+  isSaving: boolean
+  onKeepMine: () => void
+  onKeepTheirs: () => void
+  onMergeByHand: () => void
+}
+
+// Shown when saving an edit fails because the memory was changed elsewhere
+export function MergeConflictDialog({
+  mineText,
+  theirs,
+  isSaving,
+  onKeepMine,
+  onKeepTheirs,
+  onMergeByHand,
+}: MergeConflictDialogProps) {
+  // Their saved copy compared with my unsaved edit
+  const diff = useMemo(
+    () => diffWords(theirs.text_content ?? "", mineText),
+    [theirs.text_content, mineText]
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/60 backdrop-blur-sm">
+      <motion.div
+        initial={{ scale: 0.97, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        transition={{ duration: 0.15, ease: "easeOut" }}
+        className="w-full max-w-lg space-y-4 rounded-lg border bg-background p-5 shadow-xl"
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="space-y-1">
+          <h2 className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+            This memory changed while you were editing
+          </h2>
+          <p className="text-xs text-muted-foreground">
+            It was saved elsewhere (another tab or device) at{" "}
+            {new Date(theirs.updated_at).toLocaleString()}. Highlighted text
+            is what your edit would add or remove.
+          </p>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto scrollbar-thin rounded-md bg-muted/20 p-3 text-sm leading-relaxed">
+          <p className="whitespace-pre-wrap">
+            {diff.map((part, index) =>
+              part.type === "added" ? (
+                <ins
+                  key={index}
+                  className="bg-green-500/20 text-foreground no-underline rounded-sm"
+                >
+                  {part.text}
+                </ins>
+              ) : part.type === "removed" ? (
+                <del
+                  key={index}
+                  className="bg-red-500/20 text-muted-foreground rounded-sm"
+                >
+                  {part.text}
+                </del>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onKeepTheirs}
+            disabled={isSaving}
+            title="Discard your edit and keep the saved copy"
+          >
+            Keep theirs
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onMergeByHand}
+            disabled={isSaving}
+            title="Keep editing with their copy shown alongside"
+          >
+            Merge by hand
+          </Button>
+          <Button
+            size="sm"
+            onClick={onKeepMine}
+            disabled={isSaving}
+            title="Save your edit over the saved copy"
+          >
+            {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+            Keep mine
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
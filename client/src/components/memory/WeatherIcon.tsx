@@ -0,0 +1,31 @@
+import {
+  Cloud,
+  CloudDrizzle,
+  CloudFog,
+  CloudLightning,
+  CloudRain,
+  CloudSnow,
+  Sun,
+  Thermometer,
+} from "lucide-react"
+import type { WeatherCondition } from "@/lib/entries-hooks"
+
+const ICONS: Record<WeatherCondition, typeof Sun> = {
+  clear: Sun,
+  cloudy: Cloud,
+  fog: CloudFog,
+  drizzle: CloudDrizzle,
+  rain: CloudRain,
+  snow: CloudSnow,
+  storm: CloudLightning,
+}
+
+interface WeatherIconProps {
+  condition?: WeatherCondition
+  className?: string
+}
+
+export function WeatherIcon({ condition, className }: WeatherIconProps) {
+  const Icon = condition ? ICONS[condition] : Thermometer
+  return <Icon className={className} />
+}
@@ -3,5 +3,25 @@ export { MemoryList } from './MemoryList'
 export { MemoryCapture } from './MemoryCapture'
 export { MemoryEditor } from './MemoryEditor'
 export { MemoryRenderer } from './MemoryRenderer'
+export { MemorySearch } from './MemorySearch'
+export { MemoryTrash } from './MemoryTrash'
+export { MemoryTags } from './MemoryTags'
 export { ExpandSuggestionPanel } from './ExpandSuggestionPanel'
 export { ExpandSuggestionPanelContainer } from './ExpandSuggestionPanelContainer'
+export { EntryHistoryPanel } from './EntryHistoryPanel'
+export { EntryHistoryPanelContainer } from './EntryHistoryPanelContainer'
+export { BulkActionBar } from './BulkActionBar'
+export { MemoryImport } from './MemoryImport'
+export { MemoryExport } from './MemoryExport'
+export { MemoryCalendar } from './MemoryCalendar'
+export { EntryBacklinks } from './EntryBacklinks'
+export { MergeConflictDialog } from './MergeConflictDialog'
+export { MemoryMetadataBar } from './MemoryMetadataBar'
+export { MemoryMoodFilter } from './MemoryMoodFilter'
+export { EntryMetadataChips } from './EntryMetadataChips'
+export { DraftRestoreBanner } from './DraftRestoreBanner'
+export { EntryDateControls } from './EntryDateControls'
+export { MemoryNotebooks } from './MemoryNotebooks'
+export { EntryShareDialog } from './EntryShareDialog'
+export { MemoryTemplatePicker } from './MemoryTemplatePicker'
+export { MemoryEmbeddingStatus } from './MemoryEmbeddingStatus'
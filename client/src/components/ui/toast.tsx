@@ -0,0 +1,53 @@
+import { useEffect } from "react"
+import { motion, AnimatePresence } from "motion/react"
+import { X } from "lucide-react"
+import { useUIStore } from "@/stores/ui-store"
+
+const DEFAULT_DURATION = 6000
+
+export function Toaster() {
+  const { toast, dismissToast } = useUIStore()
+
+  // Auto-dismiss after the toast's duration
+  useEffect(() => {
+    if (!toast) return
+    const timeout = setTimeout(dismissToast, toast.duration ?? DEFAULT_DURATION)
+    return () => clearTimeout(timeout)
+  }, [toast, dismissToast])
+
+  return (
+    <AnimatePresence>
+      {toast && (
+        <motion.div
+          key={toast.id}
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 20, opacity: 0 }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-md border bg-background px-4 py-2 text-sm shadow-lg"
+          role="status"
+        >
+          <span className="text-foreground">{toast.message}</span>
+          {toast.actionLabel && toast.onAction && (
+            <button
+              onClick={() => {
+                toast.onAction?.()
+                dismissToast()
+              }}
+              className="text-xs font-medium text-primary hover:underline"
+            >
+              {toast.actionLabel}
+            </button>
+          )}
+          <button
+            onClick={dismissToast}
+            className="p-0.5 rounded hover:bg-muted transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-3 h-3 text-muted-foreground" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
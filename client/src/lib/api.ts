@@ -1,5 +1,50 @@
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
 
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+export type ExportQuery = {
+    format: ExportFormat
+    from?: string
+    to?: string
+}
+
+export type ExportProgress = {
+    receivedBytes: number
+    entryCount: number | null
+}
+
+export type EntriesQuery = {
+    cursor?: string | null
+    direction?: 'next' | 'prev'
+    limit?: number
+    notebook?: number | null
+    tag?: string
+    from?: string
+    to?: string
+    mood_min?: number
+    mood_max?: number
+    energy_min?: number
+    energy_max?: number
+    location?: string
+    weather?: string
+    custom?: string // key:value
+}
+
+const METADATA_FILTER_KEYS = ['mood_min', 'mood_max', 'energy_min', 'energy_max', 'location', 'weather', 'custom'] as const
+
+// Non-2xx response; `body` is the parsed JSON error payload when there is one
+export class ApiError extends Error {
+    status: number
+    body: unknown
+
+    constructor(status: number, body: unknown) {
+        super(`API request failed: ${status}`)
+        this.name = 'ApiError'
+        this.status = status
+        this.body = body
+    }
+}
+
 class ApiClient {
     private token: string | null = null
 
@@ -25,6 +70,11 @@ class ApiClient {
             ...(options.headers as Record<string, string>),
         }
 
+        // Let the browser set the multipart boundary for uploads
+        if (options.body instanceof FormData) {
+            delete headers['Content-Type']
+        }
+
         if (this.token) {
             headers.Authorization = `Bearer ${this.token}`
         }
@@ -35,7 +85,8 @@ class ApiClient {
         })
 
         if (!response.ok) {
-            throw new Error(`API request failed: ${response.status}`)
+            const body = await response.json().catch(() => null)
+            throw new ApiError(response.status, body)
         }
 
         return response.json()
@@ -81,21 +132,82 @@ class ApiClient {
     }
 
     // Entries endpoints
-    async getEntries(page = 1, limit = 10) {
-        return this.request(`/entries?page=${page}&limit=${limit}`)
+    async getEntries(query: EntriesQuery = {}) {
+        const { cursor, direction = 'next', limit = 10, notebook, tag, from, to } = query
+        const params = new URLSearchParams({ limit: String(limit) })
+        if (cursor) {
+            params.set('cursor', cursor)
+            params.set('direction', direction)
+        }
+        if (notebook) params.set('notebook', String(notebook))
+        if (tag) params.set('tag', tag)
+        if (from) params.set('from', from)
+        if (to) params.set('to', to)
+        for (const key of METADATA_FILTER_KEYS) {
+            const value = query[key]
+            if (value !== undefined && value !== '') params.set(key, String(value))
+        }
+        return this.request(`/entries?${params}`)
     }
 
-    async createEntry(content: object, textContent: string) {
+    async getEntry(id: number) {
+        return this.request(`/entries/${id}`)
+    }
+
+    async getEntryBacklinks(id: number) {
+        return this.request(`/entries/${id}/backlinks`)
+    }
+
+    async getEntryCalendar(year: number, timeZone: string, notebook?: number | null) {
+        const params = new URLSearchParams({ year: String(year), tz: timeZone })
+        if (notebook) params.set('notebook', String(notebook))
+        return this.request(`/entries/calendar?${params}`)
+    }
+
+    async searchEntries(query: string, limit = 20, notebook?: number | null) {
+        const params = new URLSearchParams({ q: query, limit: String(limit) })
+        if (notebook) params.set('notebook', String(notebook))
+        return this.request(`/entries/search?${params}`)
+    }
+
+    // The server derives the plain text from `content`
+    // `dates` may backdate the entry (entry_date) or seal it until unlock_at
+    async createEntry(
+        content: object,
+        tags?: string[],
+        metadata?: object | null,
+        dates?: { entry_date?: string; unlock_at?: string },
+        notebookId?: number | null
+    ) {
         return this.request('/entries', {
             method: 'POST',
-            body: JSON.stringify({ content, text_content: textContent }),
+            body: JSON.stringify({ content, tags, metadata, ...dates, notebook_id: notebookId }),
         })
     }
 
-    async updateEntry(id: number, content: object, textContent: string) {
+    // `version` is the version being edited; a newer one on the server fails with 409
+    // Leaving `metadata` undefined keeps what is stored; null clears it
+    async updateEntry(id: number, content: object, version: number, tags?: string[], metadata?: object | null) {
         return this.request(`/entries/${id}`, {
             method: 'PUT',
-            body: JSON.stringify({ content, text_content: textContent }),
+            headers: { 'If-Match': `"${version}"` },
+            body: JSON.stringify({ content, tags, metadata }),
+        })
+    }
+
+    async getEntryVersions(id: number) {
+        return this.request(`/entries/${id}/versions`)
+    }
+
+    async getEntryVersion(id: number, version: number) {
+        return this.request(`/entries/${id}/versions/${version}`)
+    }
+
+    // `currentVersion` is the entry's version now; a newer one on the server fails with 409
+    async restoreEntryVersion(id: number, version: number, currentVersion: number) {
+        return this.request(`/entries/${id}/versions/${version}/restore`, {
+            method: 'POST',
+            headers: { 'If-Match': `"${currentVersion}"` },
         })
     }
 
@@ -105,6 +217,208 @@ class ApiClient {
         })
     }
 
+    // `notebook_id` is the destination for move_to_notebook (null takes entries out of every notebook)
+    async bulkEntries(action: string, ids: number[], options: { tag?: string; notebook_id?: number | null } = {}) {
+        return this.request('/entries/bulk', {
+            method: 'POST',
+            body: JSON.stringify({ action, ids, ...options }),
+        })
+    }
+
+    async getEmbeddingStatus() {
+        return this.request('/entries/embedding-status')
+    }
+
+    async getTrash() {
+        return this.request('/entries/trash')
+    }
+
+    async restoreEntry(id: number) {
+        return this.request(`/entries/${id}/restore`, {
+            method: 'POST',
+        })
+    }
+
+    async importEntries(file: File) {
+        const body = new FormData()
+        body.append('file', file)
+
+        return this.request('/entries/import', {
+            method: 'POST',
+            body,
+        })
+    }
+
+    async uploadAttachment(entryId: number, file: File) {
+        const body = new FormData()
+        body.append('file', file)
+
+        return this.request(`/entries/${entryId}/attachments`, {
+            method: 'POST',
+            body,
+        })
+    }
+
+    async getEntryAttachments(entryId: number) {
+        return this.request(`/entries/${entryId}/attachments`)
+    }
+
+    async deleteAttachment(entryId: number, attachmentId: string) {
+        return this.request(`/entries/${entryId}/attachments/${attachmentId}`, {
+            method: 'DELETE',
+        })
+    }
+
+    // Share links: the token (and so the URL) is only returned on creation
+    async shareEntry(entryId: number, options: { expires_in_days?: number | null; passphrase?: string | null } = {}) {
+        return this.request(`/entries/${entryId}/share`, {
+            method: 'POST',
+            body: JSON.stringify(options),
+        })
+    }
+
+    async getShares(entryId?: number) {
+        return this.request(entryId ? `/shares?entry=${entryId}` : '/shares')
+    }
+
+    async revokeShare(id: string) {
+        return this.request(`/shares/${id}`, {
+            method: 'DELETE',
+        })
+    }
+
+    // Download an export archive, reporting bytes received as the zip streams in
+    async exportEntries(
+        { format, from, to }: ExportQuery,
+        onProgress?: (progress: ExportProgress) => void
+    ): Promise<{ blob: Blob; fileName: string }> {
+        const params = new URLSearchParams({ format })
+        if (from) params.set('from', from)
+        if (to) params.set('to', to)
+
+        const headers: Record<string, string> = {}
+        if (this.token) {
+            headers.Authorization = `Bearer ${this.token}`
+        }
+
+        const response = await fetch(`${API_URL}/entries/export?${params}`, { headers })
+        if (!response.ok || !response.body) {
+            throw new Error(`Export failed: ${response.status}`)
+        }
+
+        const countHeader = response.headers.get('X-Entry-Count')
+        const entryCount = countHeader ? parseInt(countHeader) : null
+        const fileName =
+            response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+            'yournal-export.zip'
+
+        const reader = response.body.getReader()
+        const chunks: Uint8Array[] = []
+        let receivedBytes = 0
+
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            chunks.push(value)
+            receivedBytes += value.length
+            onProgress?.({ receivedBytes, entryCount })
+        }
+
+        return { blob: new Blob(chunks, { type: 'application/zip' }), fileName }
+    }
+
+    // Tags endpoints
+    async getTags() {
+        return this.request('/tags')
+    }
+
+    // Notebooks endpoints
+    async getNotebooks() {
+        return this.request('/notebooks')
+    }
+
+    async createNotebook(name: string) {
+        return this.request('/notebooks', {
+            method: 'POST',
+            body: JSON.stringify({ name }),
+        })
+    }
+
+    async renameNotebook(id: number, name: string) {
+        return this.request(`/notebooks/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ name }),
+        })
+    }
+
+    // The notebook's entries are kept and become unfiled
+    async deleteNotebook(id: number) {
+        return this.request(`/notebooks/${id}`, {
+            method: 'DELETE',
+        })
+    }
+
+    // Templates: built-ins are addressed by key, the user's own by id
+    async getTemplates() {
+        return this.request('/templates')
+    }
+
+    async createTemplate(name: string, content: object) {
+        return this.request('/templates', {
+            method: 'POST',
+            body: JSON.stringify({ name, content }),
+        })
+    }
+
+    async updateTemplate(id: number, updates: { name?: string; content?: object }) {
+        return this.request(`/templates/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify(updates),
+        })
+    }
+
+    async deleteTemplate(id: number) {
+        return this.request(`/templates/${id}`, {
+            method: 'DELETE',
+        })
+    }
+
+    // Fill in {{date}}, {{weekday}} and {{prompt}} in the user's time zone
+    async applyTemplate(key: string, timeZone: string) {
+        return this.request(`/templates/${encodeURIComponent(key)}/apply`, {
+            method: 'POST',
+            body: JSON.stringify({ time_zone: timeZone }),
+        })
+    }
+
+    // Drafts: one autosaved editor state per context ("new" or "entry:<id>")
+    async getDrafts() {
+        return this.request('/drafts')
+    }
+
+    async getDraft(context: string) {
+        return this.request(`/drafts?context=${encodeURIComponent(context)}`)
+    }
+
+    async saveDraft(context: string, content: object, metadata: object | null, deviceId: string) {
+        return this.request(`/drafts?context=${encodeURIComponent(context)}`, {
+            method: 'PUT',
+            body: JSON.stringify({ content, metadata, device_id: deviceId }),
+        })
+    }
+
+    async deleteDraft(context: string) {
+        return this.request(`/drafts?context=${encodeURIComponent(context)}`, {
+            method: 'DELETE',
+        })
+    }
+
+    // Current weather for a location label; without one, reports the configured provider
+    async getWeather(location?: string) {
+        const params = location ? `?location=${encodeURIComponent(location)}` : ''
+        return this.request(`/weather${params}`)
+    }
+
     // AI endpoints
     async chat(message: string) {
         return this.request('/ai/chat', {
@@ -142,7 +456,7 @@ class ApiClient {
     }
 
     // RAG chat method
-    async ragChat(message: string): Promise<ReadableStream<Uint8Array> | null> {
+    async ragChat(message: string, tags?: string[], notebookId?: number | null): Promise<ReadableStream<Uint8Array> | null> {
         const url = `${API_URL}/ai/chat/rag`
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
@@ -155,7 +469,7 @@ class ApiClient {
         const response = await fetch(url, {
             method: 'POST',
             headers,
-            body: JSON.stringify({ message }),
+            body: JSON.stringify({ message, tags, notebook_id: notebookId }),
         })
 
         if (!response.ok) {
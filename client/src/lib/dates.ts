@@ -0,0 +1,28 @@
+// Local calendar-day helpers. Days are keyed as "YYYY-MM-DD" in the browser's time zone.
+
+export function toDayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function parseDayKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number)
+    return new Date(year, month - 1, day)
+}
+
+// Start of the day and start of the next day, as timestamps for ?from=&to=
+export function dayRange(key: string): { from: string; to: string } {
+    const start = parseDayKey(key)
+    const end = new Date(start)
+    end.setDate(end.getDate() + 1)
+    return { from: start.toISOString(), to: end.toISOString() }
+}
+
+// A chosen day at the current time of day, so backdated entries keep a natural order
+export function dayAtCurrentTime(key: string): Date {
+    const date = parseDayKey(key)
+    const now = new Date()
+    date.setHours(now.getHours(), now.getMinutes(), now.getSeconds())
+    return date
+}
@@ -0,0 +1,75 @@
+export type DiffPart = {
+    type: 'equal' | 'added' | 'removed'
+    text: string
+}
+
+// Split text into words, keeping whitespace attached so the diff reads naturally
+function tokenize(text: string): string[] {
+    return text.match(/\S+\s*/g) || []
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+        last.text += text
+    } else {
+        parts.push({ type, text })
+    }
+}
+
+// Word-level diff between two texts, based on the longest common subsequence
+export function diffWords(before: string, after: string): DiffPart[] {
+    const a = tokenize(before)
+    const b = tokenize(after)
+
+    // Common prefix and suffix don't need the full table
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+    let endA = a.length
+    let endB = b.length
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--
+        endB--
+    }
+
+    const midA = a.slice(start, endA)
+    const midB = b.slice(start, endB)
+    const rows = midA.length + 1
+    const cols = midB.length + 1
+
+    // lcs[i * cols + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array(rows * cols)
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i * cols + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * cols + j + 1] + 1
+                : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+        }
+    }
+
+    const parts: DiffPart[] = []
+    if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''))
+
+    let i = 0
+    let j = 0
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) {
+            pushPart(parts, 'equal', midA[i])
+            i++
+            j++
+        } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+            pushPart(parts, 'removed', midA[i])
+            i++
+        } else {
+            pushPart(parts, 'added', midB[j])
+            j++
+        }
+    }
+    while (i < midA.length) pushPart(parts, 'removed', midA[i++])
+    while (j < midB.length) pushPart(parts, 'added', midB[j++])
+
+    if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''))
+
+    return parts
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useDebounce } from '@uidotdev/usehooks'
+import { apiClient } from './api'
+import type { EntryMetadata } from './entries-hooks'
+
+// "new" for the capture editor, "entry:<id>" while editing a saved memory
+export type DraftContext = 'new' | `entry:${number}`
+
+export type Draft = {
+    context: DraftContext
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    content: any // Yoopta content object
+    metadata: EntryMetadata | null
+    device_id: string | null
+    updated_at: string
+}
+
+export type DraftInput = {
+    content: object
+    metadata: EntryMetadata | null
+}
+
+// saving: request in flight; pending: changes waiting for the debounce
+export type DraftStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error'
+
+const DRAFT_SAVE_DELAY = 1000
+const DEVICE_ID_KEY = 'device_id'
+
+export const draftsQueryKey = ['drafts'] as const
+
+// Random id for this browser, so a draft can tell whether it came from another device
+export function getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+        deviceId = crypto.randomUUID()
+        localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+}
+
+// Hook to get the saved draft for a context (null context disables the query)
+export function useDraft(context: DraftContext | null) {
+    return useQuery({
+        queryKey: [...draftsQueryKey, context],
+        queryFn: async () => {
+            const response = await apiClient.getDraft(context!)
+            return response.draft as Draft | null
+        },
+        enabled: context !== null,
+    })
+}
+
+// Hook for removing a draft once it was submitted, restored elsewhere or discarded
+export function useDeleteDraft() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (context: DraftContext) => {
+            await apiClient.deleteDraft(context)
+            return context
+        },
+        onSuccess: (context) => {
+            queryClient.setQueryData([...draftsQueryKey, context], null)
+        },
+    })
+}
+
+// Autosave editor state as a draft shortly after it stops changing. Pass null
+// input while there is nothing to save. `discard` drops the draft, e.g. after
+// the memory was saved.
+export function useDraftAutosave(context: DraftContext | null, input: DraftInput | null) {
+    const queryClient = useQueryClient()
+    const debouncedInput = useDebounce(input, DRAFT_SAVE_DELAY)
+    const lastSavedInput = useRef<DraftInput | null>(null)
+    const { mutateAsync: deleteDraft } = useDeleteDraft()
+
+    const {
+        mutate: saveDraft,
+        reset,
+        data: savedDraft,
+        isPending,
+        isError,
+    } = useMutation({
+        mutationFn: async ({ context, input }: { context: DraftContext; input: DraftInput }) => {
+            const response = await apiClient.saveDraft(context, input.content, input.metadata, getDeviceId())
+            return response.draft as Draft | null
+        },
+        onSuccess: (draft, { context }) => {
+            queryClient.setQueryData([...draftsQueryKey, context], draft)
+        },
+    })
+
+    useEffect(() => {
+        if (!context || !debouncedInput || debouncedInput === lastSavedInput.current) return
+        lastSavedInput.current = debouncedInput
+        saveDraft({ context, input: debouncedInput })
+    }, [context, debouncedInput, saveDraft])
+
+    const discard = useCallback(async () => {
+        reset()
+        if (context) await deleteDraft(context)
+    }, [context, deleteDraft, reset])
+
+    const status: DraftStatus = isPending
+        ? 'saving'
+        : input && input !== debouncedInput
+            ? 'pending'
+            : isError
+                ? 'error'
+                : savedDraft
+                    ? 'saved'
+                    : 'idle'
+
+    return { status, savedDraft: savedDraft ?? null, discard }
+}
@@ -1,6 +1,22 @@
-import { useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query'
-import { apiClient } from './api'
-import { extractTextFromYoopta } from './utils'
+import { useMutation, useQuery, useQueryClient, useInfiniteQuery } from '@tanstack/react-query'
+import { apiClient, ApiError } from './api'
+
+export const WEATHER_CONDITIONS = ['clear', 'cloudy', 'fog', 'drizzle', 'rain', 'snow', 'storm'] as const
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number]
+
+export type EntryWeather = {
+    condition?: WeatherCondition
+    temperature_c?: number
+    source: string // 'manual' or the provider that filled it in
+}
+
+export type EntryMetadata = {
+    mood?: number // 1 (low) to 5 (great)
+    energy?: number // 1 (drained) to 5 (energized)
+    location?: string
+    weather?: EntryWeather
+    custom?: Record<string, string | number | boolean>
+}
 
 export type Entry = {
     id: number
@@ -8,60 +24,288 @@ export type Entry = {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     content: any // Yoopta content object - complex structure
     text_content?: string
+    tags: string[] // manual tags + #hashtags from the text
+    manual_tags: string[]
+    metadata?: EntryMetadata | null
+    notebook_id?: number | null
+    version: number
+    backlink_count?: number // only on list pages
+    entry_date: string // the day the memory happened; lists and the calendar use it
+    unlock_at?: string | null // set on sealed letters; they're only listed once this has passed
+    embedding_status?: EmbeddingStatus // 'ready' once the memory can be found by meaning
     created_at: string
     updated_at: string
 }
 
+export type EmbeddingStatus = 'pending' | 'ready' | 'failed'
+
+export type EmbeddingStatusResponse = {
+    counts: Record<EmbeddingStatus, number>
+    entries: {
+        id: number
+        embedding_status: Exclude<EmbeddingStatus, 'ready'>
+        entry_date: string
+        attempts: number
+        next_attempt_at: string | null
+        last_error: string | null
+    }[]
+}
+
+// Optional dates for a new entry: a backdated entry_date, or unlock_at to seal it
+export type EntryDates = {
+    entry_date?: string
+    unlock_at?: string
+}
+
 export type PaginationInfo = {
-    page: number
     limit: number
-    total: number
-    totalPages: number
     hasMore: boolean
+    nextCursor: string | null // older entries
+    prevCursor: string | null // newer entries
+    page?: number // only present for legacy ?page= requests
 }
 
+export type EntriesPageParam = {
+    cursor: string
+    direction: 'next' | 'prev'
+} | null
+
 export type EntriesResponse = {
     entries: Entry[]
     pagination: PaginationInfo
 }
 
+export type SearchResult = Entry & {
+    rank: number
+    snippet: string // text with matches wrapped in <mark> tags
+}
+
+export type SearchResponse = {
+    query: string
+    results: SearchResult[]
+}
+
+export type EntryVersionSummary = {
+    version: number
+    text_content: string | null
+    saved_at: string
+    replaced_at: string | null
+    current: boolean
+}
+
+export type EntryVersionsResponse = {
+    entryId: number
+    currentVersion: number
+    versions: EntryVersionSummary[]
+}
+
+export type EntryVersion = {
+    version: number
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    content: any
+    text_content: string | null
+    saved_at: string
+    current: boolean
+}
+
+export type TrashedEntry = Entry & {
+    deleted_at: string
+    purge_at: string
+}
+
+export type TagCount = {
+    tag: string
+    count: number
+}
+
+export type MetadataFilters = {
+    mood_min?: number
+    mood_max?: number
+    energy_min?: number
+    energy_max?: number
+    location?: string
+    weather?: WeatherCondition
+    custom?: string // key:value
+}
+
+export type EntryFilters = MetadataFilters & {
+    tag?: string
+    from?: string
+    to?: string
+}
+
+export type WeatherResponse = {
+    provider: string | null
+    weather?: EntryWeather
+}
+
+export type Backlink = {
+    id: number
+    text_content: string | null
+    tags: string[]
+    created_at: string
+}
+
+export type BacklinksResponse = {
+    entryId: number
+    backlinks: Backlink[]
+}
+
+export type CalendarDay = {
+    date: string
+    count: number
+    words: number
+}
+
+export type CalendarResponse = {
+    year: number
+    timeZone: string
+    days: CalendarDay[]
+}
+
+export type BulkAction = 'delete' | 'restore' | 'add_tag' | 'remove_tag' | 'move_to_notebook' | 're_embed'
+
+export type BulkResult = {
+    id: number
+    status: 'updated' | 'skipped' | 'not_found' | 'failed' | 'aborted'
+    reason?: string
+}
+
+export type BulkResponse = {
+    action: BulkAction
+    applied: boolean
+    results: BulkResult[]
+    summary?: {
+        updated: number
+        skipped: number
+        failed: number
+    }
+}
+
+export type ImportResult = {
+    file: string
+    item?: number
+    status: 'imported' | 'duplicate' | 'failed'
+    id?: number
+    created_at?: string
+    reason?: string
+}
+
+export type ImportResponse = {
+    results: ImportResult[]
+    summary: {
+        imported: number
+        duplicate: number
+        failed: number
+    }
+}
+
+export type Attachment = {
+    id: string
+    entry_id: number
+    file_name: string
+    content_type: string
+    size_bytes: number
+    created_at: string
+    url: string // signed; usable directly in <img src>
+}
+
 export type InfiniteEntriesData = {
     pages: EntriesResponse[]
-    pageParams: number[]
+    pageParams: EntriesPageParam[]
 }
 
 // Query key for entries
 export const entriesQueryKey = ['entries'] as const
+export const trashQueryKey = [...entriesQueryKey, 'trash'] as const
+export const embeddingStatusQueryKey = [...entriesQueryKey, 'embedding-status'] as const
+export const tagsQueryKey = ['tags'] as const
+export const notebooksQueryKey = ['notebooks'] as const
 
 // Hook to get user's entries with infinite scroll
-export function useEntries() {
+// Each notebook (null for all of them) keeps its own pages in the cache
+export function useEntries(notebookId: number | null, filters: EntryFilters = {}) {
     return useInfiniteQuery({
-        queryKey: entriesQueryKey,
-        queryFn: async ({ pageParam = 1 }) => {
-            const response = await apiClient.getEntries(pageParam, 20)
+        queryKey: [...entriesQueryKey, 'list', notebookId ?? 'all', filters],
+        queryFn: async ({ pageParam }) => {
+            const response = await apiClient.getEntries({ ...pageParam, ...filters, notebook: notebookId, limit: 20 })
             return response as EntriesResponse
         },
-        getNextPageParam: (lastPage) => {
-            return lastPage.pagination.hasMore ? lastPage.pagination.page + 1 : undefined
+        getNextPageParam: (lastPage): EntriesPageParam | undefined => {
+            const { hasMore, nextCursor } = lastPage.pagination
+            return hasMore && nextCursor ? { cursor: nextCursor, direction: 'next' } : undefined
+        },
+        getPreviousPageParam: (firstPage): EntriesPageParam | undefined => {
+            const { prevCursor } = firstPage.pagination
+            return prevCursor ? { cursor: prevCursor, direction: 'prev' } : undefined
         },
-        initialPageParam: 1,
+        initialPageParam: null as EntriesPageParam,
         staleTime: 1000 * 60 * 2, // 2 minutes
 
     })
 }
 
+// Hook for the memories linking to an entry
+export function useEntryBacklinks(id: number, enabled = true) {
+    return useQuery({
+        queryKey: [...entriesQueryKey, 'backlinks', id],
+        queryFn: async () => {
+            const response = await apiClient.getEntryBacklinks(id)
+            return response as BacklinksResponse
+        },
+        enabled,
+    })
+}
+
+// Hook for per-day entry counts in a year, bucketed in the browser's time zone
+export function useEntryCalendar(year: number, notebookId: number | null = null) {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+    return useQuery({
+        queryKey: [...entriesQueryKey, 'calendar', year, timeZone, notebookId ?? 'all'],
+        queryFn: async () => {
+            const response = await apiClient.getEntryCalendar(year, timeZone, notebookId)
+            return response as CalendarResponse
+        },
+        staleTime: 1000 * 60 * 5, // 5 minutes
+    })
+}
+
+// Hook for keyword search across all entries
+export function useSearchEntries(query: string, notebookId: number | null = null) {
+    const trimmedQuery = query.trim()
+
+    return useQuery({
+        queryKey: [...entriesQueryKey, 'search', trimmedQuery, notebookId ?? 'all'],
+        queryFn: async () => {
+            const response = await apiClient.searchEntries(trimmedQuery, 20, notebookId)
+            return response as SearchResponse
+        },
+        enabled: trimmedQuery.length > 0,
+        staleTime: 1000 * 30, // 30 seconds
+    })
+}
+
 // Hook for creating a new entry
 export function useCreateEntry() {
     const queryClient = useQueryClient()
 
     return useMutation({
-        mutationFn: async ({ content, textContent }: { content: object; textContent: string }) => {
-            const response = await apiClient.createEntry(content, textContent)
-            return response.entry
+        mutationFn: async ({ content, tags, metadata, dates, notebookId }: {
+            content: object
+            tags?: string[]
+            metadata?: EntryMetadata | null
+            dates?: EntryDates
+            notebookId?: number | null
+        }) => {
+            const response = await apiClient.createEntry(content, tags, metadata, dates, notebookId)
+            return response.entry as Entry
         },
         onSuccess: () => {
             // Refresh entries after successful creation
             queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
         },
     })
 }
@@ -71,17 +315,32 @@ export function useUpdateEntry() {
     const queryClient = useQueryClient()
 
     return useMutation({
-        mutationFn: async ({ id, content, textContent }: { id: number; content: object; textContent: string }) => {
-            const response = await apiClient.updateEntry(id, content, textContent)
-            return response.entry
+        mutationFn: async ({ id, content, version, tags }: { id: number; content: object; version: number; tags?: string[] }) => {
+            const response = await apiClient.updateEntry(id, content, version, tags)
+            return response.entry as Entry
         },
         onSuccess: () => {
             // Refresh entries after successful update
             queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+        },
+        onError: (error) => {
+            // Someone else saved first; refresh so the list shows their copy
+            if (getConflictEntry(error)) {
+                queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            }
         },
     })
 }
 
+// The server's current copy when an update failed because the entry changed (409)
+export function getConflictEntry(error: unknown): Entry | null {
+    if (error instanceof ApiError && error.status === 409) {
+        return (error.body as { entry?: Entry } | null)?.entry ?? null
+    }
+    return null
+}
+
 // Hook for deleting an entry
 export function useDeleteEntry() {
     const queryClient = useQueryClient()
@@ -94,6 +353,174 @@ export function useDeleteEntry() {
         onSuccess: () => {
             // Invalidate and refetch entries
             queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
         },
     })
-} 
\ No newline at end of file
+} 
+// Hook to list the version history of an entry
+export function useEntryVersions(entryId: number | null) {
+    return useQuery({
+        queryKey: [...entriesQueryKey, entryId, 'versions'],
+        queryFn: async () => {
+            const response = await apiClient.getEntryVersions(entryId!)
+            return response as EntryVersionsResponse
+        },
+        enabled: entryId !== null,
+    })
+}
+
+// Hook to load the full content of a single entry version
+export function useEntryVersion(entryId: number | null, version: number | null) {
+    return useQuery({
+        queryKey: [...entriesQueryKey, entryId, 'versions', version],
+        queryFn: async () => {
+            const response = await apiClient.getEntryVersion(entryId!, version!)
+            return response.version as EntryVersion
+        },
+        enabled: entryId !== null && version !== null,
+    })
+}
+
+// Hook for restoring an entry to a previous version
+export function useRestoreEntryVersion() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ id, version, currentVersion }: { id: number; version: number; currentVersion: number }) => {
+            const response = await apiClient.restoreEntryVersion(id, version, currentVersion)
+            return response.entry as Entry
+        },
+        onSuccess: () => {
+            // Refresh entries and their histories after restoring
+            queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+        },
+        onError: (error) => {
+            // Edited elsewhere since the history was loaded: show the newer history
+            if (error instanceof ApiError && error.status === 409) {
+                queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            }
+        },
+    })
+}
+
+// Hook to list entries in the trash
+export function useTrash(enabled = true) {
+    return useQuery({
+        queryKey: trashQueryKey,
+        queryFn: async () => {
+            const response = await apiClient.getTrash()
+            return response.entries as TrashedEntry[]
+        },
+        enabled,
+    })
+}
+
+// Hook for which memories aren't searchable yet; polls while the worker has some queued
+export function useEmbeddingStatus() {
+    return useQuery({
+        queryKey: embeddingStatusQueryKey,
+        queryFn: async () => (await apiClient.getEmbeddingStatus()) as EmbeddingStatusResponse,
+        refetchInterval: (query) => ((query.state.data?.counts.pending ?? 0) > 0 ? 5000 : false),
+    })
+}
+
+// Hook for restoring an entry from the trash
+export function useRestoreEntry() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (id: number) => {
+            const response = await apiClient.restoreEntry(id)
+            return response.entry as Entry
+        },
+        onSuccess: () => {
+            // Refresh entries and the trash after restoring
+            queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
+        },
+    })
+}
+
+// Hook to list the user's tags with usage counts
+export function useTags() {
+    return useQuery({
+        queryKey: tagsQueryKey,
+        queryFn: async () => {
+            const response = await apiClient.getTags()
+            return response.tags as TagCount[]
+        },
+    })
+}
+
+// Hook for uploading a file to a saved entry
+export function useUploadAttachment() {
+    return useMutation({
+        mutationFn: async ({ entryId, file }: { entryId: number; file: File }) => {
+            const response = await apiClient.uploadAttachment(entryId, file)
+            return response.attachment as Attachment
+        },
+    })
+}
+
+// Which weather provider the server has configured (null = manual entry only)
+export function useWeatherProvider() {
+    return useQuery({
+        queryKey: ['weather', 'provider'],
+        queryFn: async () => {
+            const response = await apiClient.getWeather() as WeatherResponse
+            return response.provider
+        },
+        staleTime: Infinity,
+    })
+}
+
+// Hook for filling in the weather from a location label
+export function useLookupWeather() {
+    return useMutation({
+        mutationFn: async (location: string) => {
+            const response = await apiClient.getWeather(location) as WeatherResponse
+            return response.weather as EntryWeather
+        },
+    })
+}
+
+// Hook for applying one action to many entries at once
+export function useBulkEntries() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ action, ids, tag, notebookId }: {
+            action: BulkAction
+            ids: number[]
+            tag?: string
+            notebookId?: number | null
+        }) => {
+            const response = await apiClient.bulkEntries(action, ids, { tag, notebook_id: notebookId })
+            return response as BulkResponse
+        },
+        onSuccess: () => {
+            // Refresh entries, trash, tag and notebook counts after a bulk change
+            queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
+        },
+    })
+}
+
+export function useImportEntries() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (file: File) => {
+            const response = await apiClient.importEntries(file)
+            return response as ImportResponse
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+            queryClient.invalidateQueries({ queryKey: tagsQueryKey })
+        },
+    })
+}
@@ -0,0 +1,48 @@
+// Labels and helpers for structured entry metadata (mood, energy, location, weather)
+
+import type { EntryMetadata } from './entries-hooks'
+
+export const MOOD_LABELS = ['Awful', 'Low', 'Okay', 'Good', 'Great'] as const
+export const MOOD_EMOJI = ['😞', '🙁', '😐', '🙂', '😄'] as const
+export const ENERGY_LABELS = ['Drained', 'Tired', 'Steady', 'Lively', 'Energized'] as const
+
+export type CustomField = {
+    key: string
+    value: string
+}
+
+// Custom keys are stored lowercase with underscores, e.g. "Sleep hours" -> "sleep_hours"
+export function toCustomKey(label: string): string {
+    return label
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^[^a-z]+|_+$/g, '')
+        .slice(0, 32)
+}
+
+// Drop empty fields so only what was filled in is sent; null when nothing was
+export function compactMetadata(metadata: EntryMetadata, customFields: CustomField[] = []): EntryMetadata | null {
+    const result: EntryMetadata = {}
+
+    if (metadata.mood) result.mood = metadata.mood
+    if (metadata.energy) result.energy = metadata.energy
+
+    const location = metadata.location?.trim()
+    if (location) result.location = location
+
+    const weather = metadata.weather
+    if (weather && (weather.condition || weather.temperature_c !== undefined)) {
+        result.weather = weather
+    }
+
+    const custom: Record<string, string> = {}
+    for (const field of customFields) {
+        const key = toCustomKey(field.key)
+        const value = field.value.trim()
+        if (key && value) custom[key] = value
+    }
+    if (Object.keys(custom).length > 0) result.custom = custom
+
+    return Object.keys(result).length > 0 ? result : null
+}
@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from './api'
+import { entriesQueryKey, notebooksQueryKey } from './entries-hooks'
+
+export type Notebook = {
+    id: number
+    name: string
+    entry_count: number
+    created_at: string
+    updated_at: string
+}
+
+// Hook to list the user's notebooks with entry counts
+export function useNotebooks() {
+    return useQuery({
+        queryKey: notebooksQueryKey,
+        queryFn: async () => {
+            const response = await apiClient.getNotebooks()
+            return response.notebooks as Notebook[]
+        },
+    })
+}
+
+export function useCreateNotebook() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (name: string) => {
+            const response = await apiClient.createNotebook(name)
+            return response.notebook as Notebook
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
+        },
+    })
+}
+
+export function useRenameNotebook() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ id, name }: { id: number; name: string }) => {
+            const response = await apiClient.renameNotebook(id, name)
+            return response.notebook as Notebook
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
+        },
+    })
+}
+
+// Deleting a notebook unfiles its entries, so cached entry lists are refreshed too
+export function useDeleteNotebook() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (id: number) => {
+            await apiClient.deleteNotebook(id)
+            return id
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: notebooksQueryKey })
+            queryClient.invalidateQueries({ queryKey: entriesQueryKey })
+        },
+    })
+}
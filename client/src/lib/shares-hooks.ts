@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from './api'
+
+export type EntryShare = {
+    id: string
+    entry_id: number
+    expires_at: string | null
+    revoked_at: string | null
+    view_count: number
+    last_viewed_at: string | null
+    created_at: string
+    has_passphrase: boolean
+}
+
+export type CreatedShare = {
+    share: EntryShare
+    token: string
+    url: string
+}
+
+export const sharesQueryKey = ['shares'] as const
+
+// Hook to list the active share links for one entry
+export function useEntryShares(entryId: number | null) {
+    return useQuery({
+        queryKey: [...sharesQueryKey, entryId],
+        queryFn: async () => {
+            const response = await apiClient.getShares(entryId!)
+            return response.shares as EntryShare[]
+        },
+        enabled: entryId !== null,
+    })
+}
+
+export function useShareEntry() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({
+            entryId,
+            expiresInDays,
+            passphrase,
+        }: {
+            entryId: number
+            expiresInDays: number | null
+            passphrase: string | null
+        }) => {
+            return (await apiClient.shareEntry(entryId, {
+                expires_in_days: expiresInDays,
+                passphrase,
+            })) as CreatedShare
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: sharesQueryKey })
+        },
+    })
+}
+
+export function useRevokeShare() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (id: string) => {
+            await apiClient.revokeShare(id)
+            return id
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: sharesQueryKey })
+        },
+    })
+}
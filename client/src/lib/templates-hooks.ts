@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from './api'
+
+export type Template = {
+    key: string
+    id?: number
+    name: string
+    content: Record<string, unknown>
+    builtin: boolean
+    use_count: number
+    last_used_at: string | null
+}
+
+export type AppliedTemplate = {
+    content: Record<string, unknown>
+    text_content: string
+}
+
+export const templatesQueryKey = ['templates'] as const
+
+// Hook to list built-in and user templates with usage counts
+export function useTemplates() {
+    return useQuery({
+        queryKey: templatesQueryKey,
+        queryFn: async () => {
+            const response = await apiClient.getTemplates()
+            return response.templates as Template[]
+        },
+    })
+}
+
+export function useCreateTemplate() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ name, content }: { name: string; content: Record<string, unknown> }) => {
+            const response = await apiClient.createTemplate(name, content)
+            return response.template as Template
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: templatesQueryKey })
+        },
+    })
+}
+
+export function useUpdateTemplate() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ id, ...updates }: { id: number; name?: string; content?: Record<string, unknown> }) => {
+            const response = await apiClient.updateTemplate(id, updates)
+            return response.template as Template
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: templatesQueryKey })
+        },
+    })
+}
+
+export function useDeleteTemplate() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (id: number) => {
+            await apiClient.deleteTemplate(id)
+            return id
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: templatesQueryKey })
+        },
+    })
+}
+
+// Applying counts as a use, so the list is refreshed to show the new count
+export function useApplyTemplate() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (key: string) => {
+            const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+            return (await apiClient.applyTemplate(key, timeZone)) as AppliedTemplate
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: templatesQueryKey })
+        },
+    })
+}
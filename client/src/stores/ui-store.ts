@@ -1,5 +1,13 @@
 import { create } from 'zustand'
 
+export interface Toast {
+    id: number
+    message: string
+    actionLabel?: string
+    onAction?: () => void
+    duration?: number
+}
+
 interface UIState {
     // Writing Assistant Panel
     suggestionPanel: {
@@ -13,6 +21,18 @@ interface UIState {
         open: boolean
     }
 
+    // Entry History Drawer
+    historyDrawer: {
+        open: boolean
+        entryId: number | null
+    }
+
+    // Toast notification
+    toast: Toast | null
+
+    // Notebook the workspace and chat are scoped to (null for all notebooks)
+    activeNotebookId: number | null
+
     // Entry Editor States
     editingEntry: {
         id: number | null
@@ -26,9 +46,17 @@ interface UIState {
     openRagChatPanel: () => void
     closeRagChatPanel: () => void
 
+    openHistoryDrawer: (entryId: number) => void
+    closeHistoryDrawer: () => void
+
+    showToast: (toast: Omit<Toast, 'id'>) => void
+    dismissToast: () => void
+
     setEditingEntry: (id: number | null, content?: string) => void
     clearEditingEntry: () => void
 
+    setActiveNotebook: (notebookId: number | null) => void
+
     // Utility
     closeAllPanels: () => void
 }
@@ -45,6 +73,15 @@ export const useUIStore = create<UIState>((set, get) => ({
         open: false,
     },
 
+    historyDrawer: {
+        open: false,
+        entryId: null,
+    },
+
+    toast: null,
+
+    activeNotebookId: null,
+
     editingEntry: {
         id: null,
         content: '',
@@ -59,6 +96,7 @@ export const useUIStore = create<UIState>((set, get) => ({
         },
         // Close other panels when opening this one
         ragChatPanel: { open: false },
+        historyDrawer: { open: false, entryId: null },
     })),
 
     closeSuggestionPanel: () => set((state) => ({
@@ -74,12 +112,30 @@ export const useUIStore = create<UIState>((set, get) => ({
         ragChatPanel: { open: true },
         // Close other panels when opening this one
         suggestionPanel: { ...state.suggestionPanel, open: false },
+        historyDrawer: { open: false, entryId: null },
     })),
 
     closeRagChatPanel: () => set((state) => ({
         ragChatPanel: { open: false },
     })),
 
+    openHistoryDrawer: (entryId: number) => set((state) => ({
+        historyDrawer: { open: true, entryId },
+        // Close other panels when opening this one
+        suggestionPanel: { ...state.suggestionPanel, open: false },
+        ragChatPanel: { open: false },
+    })),
+
+    closeHistoryDrawer: () => set({
+        historyDrawer: { open: false, entryId: null },
+    }),
+
+    showToast: (toast: Omit<Toast, 'id'>) => set({
+        toast: { ...toast, id: Date.now() },
+    }),
+
+    dismissToast: () => set({ toast: null }),
+
     setEditingEntry: (id: number | null, content: string = '') => set({
         editingEntry: { id, content },
     }),
@@ -88,8 +144,13 @@ export const useUIStore = create<UIState>((set, get) => ({
         editingEntry: { id: null, content: '' },
     }),
 
+    setActiveNotebook: (notebookId: number | null) => set({
+        activeNotebookId: notebookId,
+    }),
+
     closeAllPanels: () => set({
         suggestionPanel: { open: false, entryId: null, entryText: '' },
         ragChatPanel: { open: false },
+        historyDrawer: { open: false, entryId: null },
     }),
 }))
@@ -28,7 +28,7 @@ CREATE TABLE IF NOT EXISTS public.entries (
     user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
     content JSONB NOT NULL, -- Yoopta editor content
     text_content TEXT, -- Plain text for embeddings and search
-    embedding vector(768), -- Vector embeddings for semantic search
+    embedding vector(768), -- Vector embeddings for semantic search; the dimension must match EMBEDDING_DIMENSION
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -36,8 +36,282 @@ CREATE TABLE IF NOT EXISTS public.entries (
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_entries_user_id ON public.entries(user_id);
 CREATE INDEX IF NOT EXISTS idx_entries_created_at ON public.entries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_entries_user_cursor ON public.entries(user_id, created_at DESC, id DESC);
 CREATE INDEX IF NOT EXISTS idx_entries_embedding ON public.entries USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
 
+-- =====================================================
+-- TRASH (SOFT DELETE)
+-- =====================================================
+
+-- Deleted entries are kept in the trash until the purge job removes them
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_entries_deleted_at ON public.entries(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- =====================================================
+-- TAGS
+-- =====================================================
+
+-- manual_tags are assigned by the user; tags is the effective set (manual + #hashtags in the text)
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS manual_tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_entries_tags ON public.entries USING gin (tags);
+
+-- =====================================================
+-- METADATA
+-- =====================================================
+
+-- Optional mood/energy (1-5), location label, weather and custom key/values, validated by the API
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_entries_metadata ON public.entries USING gin (metadata);
+
+-- =====================================================
+-- ENTRY DATES AND SEALED ENTRIES
+-- =====================================================
+
+-- The day a memory happened, separate from when it was written; existing entries keep created_at
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS entry_date TIMESTAMP WITH TIME ZONE;
+UPDATE public.entries SET entry_date = created_at WHERE entry_date IS NULL;
+ALTER TABLE public.entries ALTER COLUMN entry_date SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE public.entries ALTER COLUMN entry_date SET NOT NULL;
+
+-- Sealed entries stay hidden until unlock_at
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS unlock_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_entries_user_entry_date ON public.entries(user_id, entry_date DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_entries_unlock_at ON public.entries(unlock_at) WHERE unlock_at IS NOT NULL;
+
+-- =====================================================
+-- EMBEDDING STATUS AND JOB QUEUE
+-- =====================================================
+
+-- Whether an entry's embedding reflects its current text: 'pending' until the worker
+-- has embedded it, 'failed' once every retry has been used up
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS embedding_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (embedding_status IN ('pending', 'ready', 'failed'));
+
+-- Zero vectors were once stored when embedding failed; they match nothing, so drop them
+UPDATE public.entries SET embedding = NULL WHERE embedding IS NOT NULL AND vector_norm(embedding) = 0;
+UPDATE public.entries SET embedding_status = 'ready' WHERE embedding IS NOT NULL AND embedding_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_entries_embedding_status ON public.entries(user_id, embedding_status) WHERE embedding_status <> 'ready';
+
+-- One job per entry waiting to be embedded. requested_at moves whenever the text changes
+-- again, so a worker finishing with older text leaves the job for another run.
+CREATE TABLE IF NOT EXISTS public.embedding_jobs (
+    entry_id BIGINT PRIMARY KEY REFERENCES public.entries(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_due ON public.embedding_jobs(run_after) WHERE failed_at IS NULL;
+
+-- Queue everything that still needs an embedding
+INSERT INTO public.embedding_jobs (entry_id, user_id)
+SELECT id, user_id FROM public.entries WHERE embedding_status <> 'ready'
+ON CONFLICT (entry_id) DO NOTHING;
+
+-- =====================================================
+-- EMBEDDING VERSIONS
+-- =====================================================
+
+-- Which provider, model and dimension produced an entry's embedding (and its passages).
+-- Vectors from different models can't be compared, so search only matches entries
+-- embedded by the model in use, and /admin/reindex re-embeds the rest.
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS embedding_provider TEXT;
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Embeddings stored before versions were tracked all came from the original Ollama setup
+UPDATE public.entries
+SET embedding_provider = 'ollama', embedding_model = 'nomic-embed-text', embedding_dimension = vector_dims(embedding)
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- SHA-256 of the normalized text the embedding was made from; a save whose text hashes
+-- the same keeps the embedding instead of queueing the entry again
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS embedding_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_entries_embedding_version ON public.entries(embedding_provider, embedding_model, embedding_dimension);
+
+-- =====================================================
+-- ENTRY PASSAGES
+-- =====================================================
+
+-- Overlapping passages of an entry, split along Yoopta block boundaries, each with its own
+-- embedding so vector search can find one paragraph of a long entry. Offsets are character
+-- positions in text_content (end exclusive). Rewritten whenever the entry is re-embedded.
+CREATE TABLE IF NOT EXISTS public.entry_chunks (
+    entry_id BIGINT NOT NULL REFERENCES public.entries(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    start_offset INTEGER NOT NULL,
+    end_offset INTEGER NOT NULL,
+    embedding vector(768) NOT NULL, -- same dimension as entries.embedding
+    PRIMARY KEY (entry_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_chunks_user_id ON public.entry_chunks(user_id);
+CREATE INDEX IF NOT EXISTS idx_entry_chunks_embedding ON public.entry_chunks USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+
+-- =====================================================
+-- FULL-TEXT SEARCH
+-- =====================================================
+
+-- Search vector kept in sync with text_content by Postgres
+ALTER TABLE public.entries
+    ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(text_content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_entries_search_vector ON public.entries USING gin (search_vector);
+
+-- =====================================================
+-- NOTEBOOKS TABLE
+-- =====================================================
+
+-- Named notebooks (Personal, Work, Dreams, ...) that entries are filed into
+CREATE TABLE IF NOT EXISTS public.notebooks (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notebooks_user_name ON public.notebooks(user_id, lower(name));
+
+-- Entries outside any notebook keep notebook_id NULL; deleting a notebook unfiles its entries
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS notebook_id BIGINT REFERENCES public.notebooks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_entries_notebook ON public.entries(notebook_id, entry_date DESC, id DESC) WHERE notebook_id IS NOT NULL;
+
+-- =====================================================
+-- TEMPLATES TABLES
+-- =====================================================
+
+-- User-defined entry templates: Yoopta documents with {{placeholders}} filled in when applied
+CREATE TABLE IF NOT EXISTS public.templates (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+    content JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_templates_user_name ON public.templates(user_id, lower(name));
+
+-- How often each user applied each template; template_key is a built-in's key
+-- (e.g. 'daily-review') or a user template's id
+CREATE TABLE IF NOT EXISTS public.template_usage (
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    template_key TEXT NOT NULL,
+    use_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (user_id, template_key)
+);
+
+-- =====================================================
+-- ENTRY VERSIONS TABLE
+-- =====================================================
+
+-- Current version number of each entry, bumped whenever its content changes
+ALTER TABLE public.entries ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Previous versions of entries, written by a trigger on every content update
+CREATE TABLE IF NOT EXISTS public.entry_versions (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    entry_id BIGINT NOT NULL REFERENCES public.entries(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content JSONB NOT NULL,
+    text_content TEXT,
+    saved_at TIMESTAMP WITH TIME ZONE, -- When this version was originally saved
+    replaced_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (entry_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_versions_entry_id ON public.entry_versions(entry_id, version DESC);
+
+-- =====================================================
+-- ENTRY LINKS TABLE
+-- =====================================================
+
+-- [[id|label]] references between entries, rebuilt from the text on every save
+CREATE TABLE IF NOT EXISTS public.entry_links (
+    source_id BIGINT NOT NULL REFERENCES public.entries(id) ON DELETE CASCADE,
+    target_id BIGINT NOT NULL REFERENCES public.entries(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (source_id, target_id),
+    CHECK (source_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_links_target_id ON public.entry_links(target_id);
+
+-- =====================================================
+-- ATTACHMENTS TABLE
+-- =====================================================
+
+-- Files uploaded to entries. The bytes live in the storage backend under storage_key;
+-- the purge job deletes them before the entry row goes.
+CREATE TABLE IF NOT EXISTS public.attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id BIGINT NOT NULL REFERENCES public.entries(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    storage_key TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_entry_id ON public.attachments(entry_id);
+
+-- =====================================================
+-- ENTRY SHARES TABLE
+-- =====================================================
+
+-- Read-only links to single entries, served at /shared/<token>. Only a SHA-256
+-- hash of the token is kept; the passphrase, when set, as a salted scrypt hash.
+CREATE TABLE IF NOT EXISTS public.entry_shares (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id BIGINT NOT NULL REFERENCES public.entries(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    passphrase_hash TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    last_viewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_shares_user_id ON public.entry_shares(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_entry_shares_entry_id ON public.entry_shares(entry_id);
+
+-- =====================================================
+-- DRAFTS TABLE
+-- =====================================================
+
+-- Autosaved editor contents, one per user per context ('new' or 'entry:<id>')
+CREATE TABLE IF NOT EXISTS public.drafts (
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    context TEXT NOT NULL CHECK (context = 'new' OR context ~ '^entry:[1-9][0-9]*$'),
+    content JSONB NOT NULL,
+    metadata JSONB,
+    device_id TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, context)
+);
+
 -- =====================================================
 -- TRIGGERS
 -- =====================================================
@@ -77,6 +351,48 @@ CREATE TRIGGER on_entries_updated
     BEFORE UPDATE ON public.entries
     FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
 
+-- Trigger function to keep the previous version when entry content changes. Any other
+-- user-editable change bumps the version too, without a snapshot, since the version is
+-- the ETag that PUT's If-Match is checked against.
+CREATE OR REPLACE FUNCTION public.handle_entry_versioning()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.text_content IS DISTINCT FROM OLD.text_content THEN
+        INSERT INTO public.entry_versions (entry_id, user_id, version, content, text_content, saved_at)
+        VALUES (OLD.id, OLD.user_id, OLD.version, OLD.content, OLD.text_content, OLD.updated_at);
+
+        NEW.version = OLD.version + 1;
+    ELSIF NEW.manual_tags IS DISTINCT FROM OLD.manual_tags
+        OR NEW.tags IS DISTINCT FROM OLD.tags
+        OR NEW.metadata IS DISTINCT FROM OLD.metadata
+        OR NEW.entry_date IS DISTINCT FROM OLD.entry_date
+        OR NEW.unlock_at IS DISTINCT FROM OLD.unlock_at
+        OR NEW.notebook_id IS DISTINCT FROM OLD.notebook_id THEN
+        NEW.version = OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for notebooks table
+DROP TRIGGER IF EXISTS on_notebooks_updated ON public.notebooks;
+CREATE TRIGGER on_notebooks_updated
+    BEFORE UPDATE ON public.notebooks
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create trigger for templates table
+DROP TRIGGER IF EXISTS on_templates_updated ON public.templates;
+CREATE TRIGGER on_templates_updated
+    BEFORE UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create versioning trigger for entries table
+DROP TRIGGER IF EXISTS on_entries_versioned ON public.entries;
+CREATE TRIGGER on_entries_versioned
+    BEFORE UPDATE ON public.entries
+    FOR EACH ROW EXECUTE FUNCTION public.handle_entry_versioning();
+
 -- =====================================================
 -- ROW LEVEL SECURITY (RLS)
 -- =====================================================
@@ -84,6 +400,16 @@ CREATE TRIGGER on_entries_updated
 -- Enable Row Level Security
 ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.entry_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.entry_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.entry_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.embedding_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.entry_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notebooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.template_usage ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policy for profiles
 DROP POLICY IF EXISTS "Users can manage their own profile" ON public.profiles;
@@ -109,41 +435,149 @@ DROP POLICY IF EXISTS "Users can delete their own entries" ON public.entries;
 CREATE POLICY "Users can delete their own entries" ON public.entries
     FOR DELETE USING ((auth.uid()) = user_id);
 
+-- RLS Policy for entry versions (written by trigger, read-only for users)
+DROP POLICY IF EXISTS "Users can view their own entry versions" ON public.entry_versions;
+CREATE POLICY "Users can view their own entry versions" ON public.entry_versions
+    FOR SELECT USING ((auth.uid()) = user_id);
+
+-- RLS Policy for entry links (maintained by the API on save)
+DROP POLICY IF EXISTS "Users can view their own entry links" ON public.entry_links;
+CREATE POLICY "Users can view their own entry links" ON public.entry_links
+    FOR SELECT USING ((auth.uid()) = user_id);
+
+-- RLS Policy for attachments (uploaded and served through the API)
+DROP POLICY IF EXISTS "Users can view their own attachments" ON public.attachments;
+CREATE POLICY "Users can view their own attachments" ON public.attachments
+    FOR SELECT USING ((auth.uid()) = user_id);
+
+-- RLS Policy for embedding jobs (queued by the API, processed by its worker)
+DROP POLICY IF EXISTS "Users can view their own embedding jobs" ON public.embedding_jobs;
+CREATE POLICY "Users can view their own embedding jobs" ON public.embedding_jobs
+    FOR SELECT USING ((auth.uid()) = user_id);
+
+-- RLS Policy for entry passages (written by the embedding worker)
+DROP POLICY IF EXISTS "Users can view their own entry chunks" ON public.entry_chunks;
+CREATE POLICY "Users can view their own entry chunks" ON public.entry_chunks
+    FOR SELECT USING ((auth.uid()) = user_id);
+
+-- RLS Policy for entry shares (created, served and revoked through the API)
+DROP POLICY IF EXISTS "Users can view their own entry shares" ON public.entry_shares;
+CREATE POLICY "Users can view their own entry shares" ON public.entry_shares
+    FOR SELECT USING ((auth.uid()) = user_id);
+
+-- RLS Policy for drafts
+DROP POLICY IF EXISTS "Users can manage their own drafts" ON public.drafts;
+CREATE POLICY "Users can manage their own drafts" ON public.drafts
+    FOR ALL USING ((auth.uid()) = user_id)
+    WITH CHECK ((auth.uid()) = user_id);
+
+-- RLS Policy for notebooks
+DROP POLICY IF EXISTS "Users can manage their own notebooks" ON public.notebooks;
+CREATE POLICY "Users can manage their own notebooks" ON public.notebooks
+    FOR ALL USING ((auth.uid()) = user_id)
+    WITH CHECK ((auth.uid()) = user_id);
+
+-- RLS Policy for templates
+DROP POLICY IF EXISTS "Users can manage their own templates" ON public.templates;
+CREATE POLICY "Users can manage their own templates" ON public.templates
+    FOR ALL USING ((auth.uid()) = user_id)
+    WITH CHECK ((auth.uid()) = user_id);
+
+-- RLS Policy for template usage (counted by the API when a template is applied)
+DROP POLICY IF EXISTS "Users can view their own template usage" ON public.template_usage;
+CREATE POLICY "Users can view their own template usage" ON public.template_usage
+    FOR SELECT USING ((auth.uid()) = user_id);
+
 -- =====================================================
 -- VECTOR SEARCH FUNCTIONS (Optional - for future use)
 -- =====================================================
 
--- Function for vector similarity search
+-- Function for vector similarity search over entry passages, optionally scoped to entries
+-- carrying all of p_tags and to one notebook. Returns one row per matching passage, best
+-- first, with its offsets in text_content; an entry embedded before passages existed
+-- counts as a single passage covering all of its text. When p_embedding_model is given,
+-- only entries embedded by that provider and model are compared with the query.
+DROP FUNCTION IF EXISTS public.match_entries(vector, float, int, UUID);
+DROP FUNCTION IF EXISTS public.match_entries(vector, float, int, UUID, text[]);
+DROP FUNCTION IF EXISTS public.match_entries(vector, float, int, UUID, text[], bigint);
+DROP FUNCTION IF EXISTS public.match_entries(vector, float, int, UUID, text[], bigint, text, text);
 CREATE OR REPLACE FUNCTION public.match_entries(
-    query_embedding vector(768),
+    query_embedding vector,
     match_threshold float DEFAULT 0.7,
     match_count int DEFAULT 5,
-    p_user_id UUID DEFAULT auth.uid()
+    p_user_id UUID DEFAULT auth.uid(),
+    p_tags text[] DEFAULT NULL,
+    p_notebook_id bigint DEFAULT NULL,
+    p_embedding_provider text DEFAULT NULL,
+    p_embedding_model text DEFAULT NULL
 )
 RETURNS TABLE (
     id bigint,
     content jsonb,
     text_content text,
+    tags text[],
+    entry_date timestamp with time zone,
     created_at timestamp with time zone,
-    similarity float
+    similarity float,
+    chunk_index integer,
+    passage text,
+    start_offset integer,
+    end_offset integer
 )
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 BEGIN
     RETURN QUERY
+    WITH passages AS (
+        SELECT
+            c.entry_id,
+            c.chunk_index,
+            c.content AS passage,
+            c.start_offset,
+            c.end_offset,
+            1 - (c.embedding <=> query_embedding) AS similarity
+        FROM public.entry_chunks c
+        WHERE c.user_id = p_user_id
+        UNION ALL
+        SELECT
+            e.id,
+            0,
+            e.text_content,
+            0,
+            char_length(e.text_content),
+            1 - (e.embedding <=> query_embedding)
+        FROM public.entries e
+        WHERE e.user_id = p_user_id
+          AND e.embedding IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM public.entry_chunks c WHERE c.entry_id = e.id)
+    )
     SELECT
         entries.id,
         entries.content,
         entries.text_content,
+        entries.tags,
+        entries.entry_date,
         entries.created_at,
-        1 - (entries.embedding <=> query_embedding) AS similarity
-    FROM public.entries
-    WHERE 
-        entries.user_id = p_user_id
-        AND entries.embedding IS NOT NULL
-        AND 1 - (entries.embedding <=> query_embedding) > match_threshold
-    ORDER BY entries.embedding <=> query_embedding
+        p.similarity,
+        p.chunk_index,
+        p.passage,
+        p.start_offset,
+        p.end_offset
+    FROM passages p
+    JOIN public.entries ON entries.id = p.entry_id
+    WHERE
+        entries.deleted_at IS NULL
+        AND (entries.unlock_at IS NULL OR entries.unlock_at <= now())
+        AND (p_tags IS NULL OR entries.tags @> p_tags)
+        AND (p_notebook_id IS NULL OR entries.notebook_id = p_notebook_id)
+        AND (p_embedding_model IS NULL OR (
+            entries.embedding_provider = p_embedding_provider
+            AND entries.embedding_model = p_embedding_model
+            AND entries.embedding_dimension = vector_dims(query_embedding)
+        ))
+        AND p.similarity > match_threshold
+    ORDER BY p.similarity DESC
     LIMIT match_count;
 END;
 $$;
@@ -151,22 +585,343 @@ $$;
 -- Function to update embeddings
 CREATE OR REPLACE FUNCTION public.update_entry_embedding(
     entry_id bigint,
-    embedding_vector vector(768)
+    embedding_vector vector
 )
 RETURNS void
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 BEGIN
+    -- The model is unknown, so the vector counts as stale until the entry is reindexed
     UPDATE public.entries 
-    SET embedding = embedding_vector
+    SET embedding = embedding_vector,
+        embedding_provider = NULL,
+        embedding_model = NULL,
+        embedding_dimension = vector_dims(embedding_vector),
+        embedding_hash = NULL
     WHERE id = entry_id AND user_id = auth.uid();
 END;
 $$;
 
+-- Function to (re)queue entries for embedding, marking them pending
+CREATE OR REPLACE FUNCTION public.enqueue_entry_embeddings(
+    p_entry_ids bigint[],
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    UPDATE public.entries
+    SET embedding_status = 'pending'
+    WHERE id = ANY(p_entry_ids) AND user_id = p_user_id;
+
+    INSERT INTO public.embedding_jobs (entry_id, user_id)
+    SELECT id, user_id FROM public.entries
+    WHERE id = ANY(p_entry_ids) AND user_id = p_user_id
+    ON CONFLICT (entry_id) DO UPDATE
+    SET requested_at = CURRENT_TIMESTAMP,
+        attempts = 0,
+        run_after = CURRENT_TIMESTAMP,
+        last_error = NULL,
+        failed_at = NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Function for the worker to take due jobs. Each claim counts as an attempt and holds
+-- the job for p_lock_seconds, after which a crashed worker's job becomes due again.
+DROP FUNCTION IF EXISTS public.claim_embedding_jobs(int, int);
+CREATE OR REPLACE FUNCTION public.claim_embedding_jobs(
+    p_limit int DEFAULT 10,
+    p_lock_seconds int DEFAULT 300
+)
+RETURNS TABLE (
+    entry_id bigint,
+    user_id uuid,
+    requested_at timestamptz,
+    attempts integer,
+    content jsonb,
+    text_content text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT j.entry_id
+        FROM public.embedding_jobs j
+        WHERE j.failed_at IS NULL
+          AND j.run_after <= CURRENT_TIMESTAMP
+          AND (j.locked_until IS NULL OR j.locked_until < CURRENT_TIMESTAMP)
+        ORDER BY j.run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    ),
+    claimed AS (
+        UPDATE public.embedding_jobs j
+        SET attempts = j.attempts + 1,
+            locked_until = CURRENT_TIMESTAMP + make_interval(secs => p_lock_seconds)
+        FROM due
+        WHERE j.entry_id = due.entry_id
+        RETURNING j.entry_id, j.user_id, j.requested_at, j.attempts
+    )
+    SELECT c.entry_id, c.user_id, c.requested_at, c.attempts, e.content, e.text_content
+    FROM claimed c
+    JOIN public.entries e ON e.id = c.entry_id;
+END;
+$$;
+
+-- Function to store a finished embedding, the model that produced it, the hash of the
+-- text it was made from and the entry's passages, given as
+-- [{ chunk_index, content, start_offset, end_offset, embedding }]. Returns false (and
+-- stores nothing) when the entry was requeued with newer text while the job ran.
+DROP FUNCTION IF EXISTS public.complete_embedding_job(bigint, timestamptz, vector);
+DROP FUNCTION IF EXISTS public.complete_embedding_job(bigint, timestamptz, vector, jsonb);
+DROP FUNCTION IF EXISTS public.complete_embedding_job(bigint, timestamptz, vector, jsonb, text, text);
+CREATE OR REPLACE FUNCTION public.complete_embedding_job(
+    p_entry_id bigint,
+    p_requested_at timestamptz,
+    p_embedding vector,
+    p_chunks jsonb DEFAULT '[]'::jsonb,
+    p_provider text DEFAULT NULL,
+    p_model text DEFAULT NULL,
+    p_content_hash text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    DELETE FROM public.embedding_jobs
+    WHERE entry_id = p_entry_id AND requested_at = p_requested_at;
+
+    IF NOT FOUND THEN
+        UPDATE public.embedding_jobs SET locked_until = NULL WHERE entry_id = p_entry_id;
+        RETURN false;
+    END IF;
+
+    UPDATE public.entries
+    SET embedding = p_embedding,
+        embedding_status = 'ready',
+        embedding_provider = p_provider,
+        embedding_model = p_model,
+        embedding_dimension = vector_dims(p_embedding),
+        embedding_hash = p_content_hash
+    WHERE id = p_entry_id;
+
+    DELETE FROM public.entry_chunks WHERE entry_id = p_entry_id;
+    INSERT INTO public.entry_chunks (entry_id, chunk_index, user_id, content, start_offset, end_offset, embedding)
+    SELECT p_entry_id, (chunk->>'chunk_index')::int, e.user_id, chunk->>'content',
+           (chunk->>'start_offset')::int, (chunk->>'end_offset')::int, (chunk->>'embedding')::vector
+    FROM jsonb_array_elements(p_chunks) AS chunk
+    CROSS JOIN public.entries e
+    WHERE e.id = p_entry_id;
+
+    RETURN true;
+END;
+$$;
+
+-- Function to record a failed attempt: retry at p_retry_at, or give up when it is NULL
+CREATE OR REPLACE FUNCTION public.fail_embedding_job(
+    p_entry_id bigint,
+    p_requested_at timestamptz,
+    p_error text,
+    p_retry_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE public.embedding_jobs
+    SET last_error = p_error,
+        locked_until = NULL,
+        run_after = COALESCE(p_retry_at, run_after),
+        failed_at = CASE WHEN p_retry_at IS NULL THEN CURRENT_TIMESTAMP END
+    WHERE entry_id = p_entry_id AND requested_at = p_requested_at;
+
+    IF FOUND AND p_retry_at IS NULL THEN
+        UPDATE public.entries SET embedding_status = 'failed' WHERE id = p_entry_id;
+    END IF;
+END;
+$$;
+
+-- Function for /admin/reindex to queue the next p_limit live entries (by id, after p_after_id)
+-- whose embedding wasn't produced by the given model. Entries already in the queue, including
+-- ones that ran out of retries, are left alone. Returns the ids queued.
+CREATE OR REPLACE FUNCTION public.queue_stale_embeddings(
+    p_provider text,
+    p_model text,
+    p_dimension int,
+    p_after_id bigint DEFAULT 0,
+    p_limit int DEFAULT 50
+)
+RETURNS TABLE (entry_id bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH stale AS (
+        SELECT e.id, e.user_id
+        FROM public.entries e
+        WHERE e.id > p_after_id
+          AND e.deleted_at IS NULL
+          AND (e.embedding_provider IS DISTINCT FROM p_provider
+               OR e.embedding_model IS DISTINCT FROM p_model
+               OR e.embedding_dimension IS DISTINCT FROM p_dimension)
+          AND NOT EXISTS (SELECT 1 FROM public.embedding_jobs j WHERE j.entry_id = e.id)
+        ORDER BY e.id
+        LIMIT p_limit
+    ),
+    marked AS (
+        UPDATE public.entries e
+        SET embedding_status = 'pending'
+        FROM stale
+        WHERE e.id = stale.id
+    )
+    INSERT INTO public.embedding_jobs (entry_id, user_id)
+    SELECT stale.id, stale.user_id FROM stale
+    ON CONFLICT ON CONSTRAINT embedding_jobs_pkey DO NOTHING
+    RETURNING embedding_jobs.entry_id;
+END;
+$$;
+
+-- Function to report how far live entries are from being embedded by the given model
+CREATE OR REPLACE FUNCTION public.get_embedding_index_status(
+    p_provider text,
+    p_model text,
+    p_dimension int
+)
+RETURNS TABLE (
+    total bigint,
+    up_to_date bigint,
+    stale bigint,
+    queued bigint,
+    failed bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT
+        COUNT(*),
+        COUNT(*) FILTER (WHERE e.embedding_provider = p_provider
+                           AND e.embedding_model = p_model
+                           AND e.embedding_dimension = p_dimension
+                           AND e.embedding_status = 'ready'),
+        COUNT(*) FILTER (WHERE e.embedding_provider IS DISTINCT FROM p_provider
+                            OR e.embedding_model IS DISTINCT FROM p_model
+                            OR e.embedding_dimension IS DISTINCT FROM p_dimension),
+        COUNT(j.entry_id) FILTER (WHERE j.failed_at IS NULL),
+        COUNT(j.entry_id) FILTER (WHERE j.failed_at IS NOT NULL)
+    FROM public.entries e
+    LEFT JOIN public.embedding_jobs j ON j.entry_id = e.id
+    WHERE e.deleted_at IS NULL;
+$$;
+
+-- Function to read the dimension of the embedding index, which the API checks its provider against.
+-- To switch to a model of another dimension, clear the embeddings and change the column type:
+--   UPDATE public.entries SET embedding = NULL;
+--   ALTER TABLE public.entries ALTER COLUMN embedding TYPE vector(<dimension>);
+--   TRUNCATE public.entry_chunks;
+--   ALTER TABLE public.entry_chunks ALTER COLUMN embedding TYPE vector(<dimension>);
+CREATE OR REPLACE FUNCTION public.get_embedding_dimension()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT atttypmod
+    FROM pg_attribute
+    WHERE attrelid = 'public.entries'::regclass
+      AND attname = 'embedding';
+$$;
+
+-- Function for ranked keyword search with highlighted snippets, optionally scoped to entries
+-- carrying all of p_tags. p_query must be a to_tsquery expression (built by the server from user input)
+DROP FUNCTION IF EXISTS public.search_entries(text, UUID, int, int);
+DROP FUNCTION IF EXISTS public.search_entries(text, UUID, int, int, bigint);
+DROP FUNCTION IF EXISTS public.search_entries(text, UUID, int, int, bigint, text[]);
+CREATE OR REPLACE FUNCTION public.search_entries(
+    p_query text,
+    p_user_id UUID DEFAULT auth.uid(),
+    p_limit int DEFAULT 20,
+    p_offset int DEFAULT 0,
+    p_notebook_id bigint DEFAULT NULL,
+    p_tags text[] DEFAULT NULL
+)
+RETURNS TABLE (
+    id bigint,
+    content jsonb,
+    text_content text,
+    tags text[],
+    notebook_id bigint,
+    entry_date timestamp with time zone,
+    created_at timestamp with time zone,
+    updated_at timestamp with time zone,
+    rank real,
+    snippet text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    ts_query tsquery := to_tsquery('english', p_query);
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.content,
+        e.text_content,
+        e.tags,
+        e.notebook_id,
+        e.entry_date,
+        e.created_at,
+        e.updated_at,
+        ts_rank_cd(e.search_vector, ts_query) AS rank,
+        ts_headline(
+            'english',
+            COALESCE(e.text_content, ''),
+            ts_query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS snippet
+    FROM public.entries e
+    WHERE
+        e.user_id = p_user_id
+        AND e.deleted_at IS NULL
+        AND (e.unlock_at IS NULL OR e.unlock_at <= now())
+        AND (p_notebook_id IS NULL OR e.notebook_id = p_notebook_id)
+        AND (p_tags IS NULL OR e.tags @> p_tags)
+        AND e.search_vector @@ ts_query
+    ORDER BY ts_rank_cd(e.search_vector, ts_query) DESC, e.entry_date DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$;
+
 -- Grant necessary permissions
-GRANT EXECUTE ON FUNCTION public.match_entries TO authenticated;
 GRANT EXECUTE ON FUNCTION public.update_entry_embedding TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_embedding_dimension TO authenticated;
+
+-- The queue is worked by the API with the service role only
+REVOKE EXECUTE ON FUNCTION public.claim_embedding_jobs FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_embedding_job FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_embedding_job FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_stale_embeddings FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_embedding_index_status FROM PUBLIC, anon, authenticated;
+
+-- These take the user id as a parameter, so only the API (service role) may call them
+REVOKE EXECUTE ON FUNCTION public.search_entries FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_entry_embeddings FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_entries FROM PUBLIC, anon, authenticated;
 
 -- =====================================================
 -- HELPER FUNCTIONS
@@ -183,6 +938,7 @@ BEGIN
         SELECT COUNT(*) 
         FROM public.entries 
         WHERE user_id = p_user_id
+        AND deleted_at IS NULL
     );
 END;
 $$;
@@ -207,15 +963,221 @@ BEGIN
         entries.created_at
     FROM public.entries
     WHERE user_id = p_user_id
-    ORDER BY created_at DESC
+    AND deleted_at IS NULL
+    AND (unlock_at IS NULL OR unlock_at <= now())
+    ORDER BY entry_date DESC
     LIMIT 1;
 END;
 $$;
 
+-- Function to get user's tags with usage counts
+CREATE OR REPLACE FUNCTION public.get_user_tags(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (
+    tag text,
+    count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT t.tag, COUNT(*) AS count
+    FROM public.entries e
+    CROSS JOIN LATERAL unnest(e.tags) AS t(tag)
+    WHERE e.user_id = p_user_id
+    AND e.deleted_at IS NULL
+    AND (e.unlock_at IS NULL OR e.unlock_at <= now())
+    GROUP BY t.tag
+    ORDER BY COUNT(*) DESC, t.tag ASC;
+END;
+$$;
+
+-- Function to add or remove a manual tag on many entries in one statement (all-or-nothing)
+-- Removing also drops the tag from the effective set; a #hashtag still in the text returns on next save
+CREATE OR REPLACE FUNCTION public.bulk_update_entry_tag(
+    p_ids bigint[],
+    p_tag text,
+    p_remove boolean DEFAULT false,
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS SETOF bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF p_remove THEN
+        RETURN QUERY
+        UPDATE public.entries
+        SET manual_tags = array_remove(manual_tags, p_tag),
+            tags = array_remove(tags, p_tag)
+        WHERE user_id = p_user_id
+        AND id = ANY(p_ids)
+        AND deleted_at IS NULL
+        RETURNING id;
+    ELSE
+        RETURN QUERY
+        UPDATE public.entries
+        SET manual_tags = CASE WHEN p_tag = ANY(manual_tags) THEN manual_tags ELSE array_append(manual_tags, p_tag) END,
+            tags = CASE WHEN p_tag = ANY(tags) THEN tags ELSE array_append(tags, p_tag) END
+        WHERE user_id = p_user_id
+        AND id = ANY(p_ids)
+        AND deleted_at IS NULL
+        RETURNING id;
+    END IF;
+END;
+$$;
+
+-- Function to get per-day entry and word counts for a calendar year
+-- Entries count on their entry_date, bucketed in the caller's time zone so late-night
+-- entries land on the right date; sealed entries are not counted until they open
+DROP FUNCTION IF EXISTS public.get_entry_calendar(integer, text, UUID);
+CREATE OR REPLACE FUNCTION public.get_entry_calendar(
+    p_year integer,
+    p_time_zone text DEFAULT 'UTC',
+    p_user_id UUID DEFAULT auth.uid(),
+    p_notebook_id bigint DEFAULT NULL
+)
+RETURNS TABLE (
+    day date,
+    entry_count bigint,
+    word_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        (e.entry_date AT TIME ZONE p_time_zone)::date AS day,
+        COUNT(*) AS entry_count,
+        COALESCE(SUM(
+            CASE WHEN btrim(COALESCE(e.text_content, ''), E' \t\r\n') = '' THEN 0
+            ELSE array_length(regexp_split_to_array(btrim(e.text_content, E' \t\r\n'), '\s+'), 1)
+            END
+        ), 0)::bigint AS word_count
+    FROM public.entries e
+    WHERE e.user_id = p_user_id
+    AND e.deleted_at IS NULL
+    AND (e.unlock_at IS NULL OR e.unlock_at <= now())
+    AND (p_notebook_id IS NULL OR e.notebook_id = p_notebook_id)
+    AND e.entry_date >= make_timestamptz(p_year, 1, 1, 0, 0, 0, p_time_zone)
+    AND e.entry_date < make_timestamptz(p_year + 1, 1, 1, 0, 0, 0, p_time_zone)
+    GROUP BY 1
+    ORDER BY 1;
+END;
+$$;
+
+-- Function to list a user's notebooks with how many live entries each holds
+CREATE OR REPLACE FUNCTION public.get_user_notebooks(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (
+    id bigint,
+    name text,
+    created_at timestamptz,
+    updated_at timestamptz,
+    entry_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT n.id, n.name, n.created_at, n.updated_at, COUNT(e.id) AS entry_count
+    FROM public.notebooks n
+    LEFT JOIN public.entries e ON e.notebook_id = n.id AND e.deleted_at IS NULL
+    WHERE n.user_id = p_user_id
+    GROUP BY n.id
+    ORDER BY lower(n.name);
+END;
+$$;
+
+-- Function to count one use of a template, in one statement so concurrent uses all count
+CREATE OR REPLACE FUNCTION public.record_template_use(
+    p_template_key text,
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    INSERT INTO public.template_usage (user_id, template_key, use_count, last_used_at)
+    VALUES (p_user_id, p_template_key, 1, CURRENT_TIMESTAMP)
+    ON CONFLICT (user_id, template_key) DO UPDATE
+    SET use_count = public.template_usage.use_count + 1,
+        last_used_at = EXCLUDED.last_used_at
+    RETURNING use_count INTO v_count;
+
+    RETURN v_count;
+END;
+$$;
+
+-- Function to list live, unsealed entries linking to an entry, newest first
+CREATE OR REPLACE FUNCTION public.get_entry_backlinks(
+    p_entry_id bigint,
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS TABLE (
+    id bigint,
+    text_content text,
+    tags text[],
+    created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT e.id, e.text_content, e.tags, e.created_at
+    FROM public.entry_links l
+    JOIN public.entries e ON e.id = l.source_id
+    WHERE l.target_id = p_entry_id
+    AND l.user_id = p_user_id
+    AND e.deleted_at IS NULL
+    AND (e.unlock_at IS NULL OR e.unlock_at <= now())
+    ORDER BY e.entry_date DESC;
+END;
+$$;
+
+-- Function to count live backlinks for a page of entries
+CREATE OR REPLACE FUNCTION public.get_backlink_counts(
+    p_ids bigint[],
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS TABLE (
+    target_id bigint,
+    count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT l.target_id, COUNT(*) AS count
+    FROM public.entry_links l
+    JOIN public.entries e ON e.id = l.source_id
+    WHERE l.target_id = ANY(p_ids)
+    AND l.user_id = p_user_id
+    AND e.deleted_at IS NULL
+    AND (e.unlock_at IS NULL OR e.unlock_at <= now())
+    GROUP BY l.target_id;
+END;
+$$;
+
 -- Grant permissions for helper functions
 GRANT EXECUTE ON FUNCTION public.get_user_entry_count TO authenticated;
 GRANT EXECUTE ON FUNCTION public.get_user_latest_entry TO authenticated;
 
+-- Helpers that take the user id as a parameter are for the API (service role) only
+REVOKE EXECUTE ON FUNCTION public.get_user_tags FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.bulk_update_entry_tag FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_entry_calendar FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_entry_backlinks FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_backlink_counts FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_user_notebooks FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_template_use FROM PUBLIC, anon, authenticated;
+
 -- =====================================================
 -- COMMENTS
 -- =====================================================
@@ -224,7 +1186,30 @@ COMMENT ON TABLE public.profiles IS 'User profiles linked to auth.users';
 COMMENT ON TABLE public.entries IS 'Journal entries with Yoopta content and embeddings';
 COMMENT ON COLUMN public.entries.content IS 'Yoopta editor content as JSONB';
 COMMENT ON COLUMN public.entries.text_content IS 'Plain text extracted from Yoopta content for embeddings';
-COMMENT ON COLUMN public.entries.embedding IS '768-dimensional vector embedding for semantic search';
+COMMENT ON COLUMN public.entries.embedding IS 'Vector embedding for semantic search (768 dimensions by default, one dimension per index)';
+COMMENT ON COLUMN public.entries.version IS 'Current version (the ETag), incremented on every change of content, tags, metadata, dates or notebook';
+COMMENT ON TABLE public.entry_versions IS 'Previous versions of entry content for history, diff and restore';
+COMMENT ON COLUMN public.entries.deleted_at IS 'When the entry was moved to the trash (NULL for live entries)';
+COMMENT ON COLUMN public.entries.tags IS 'Effective tags: manual tags plus #hashtags extracted from text_content';
+COMMENT ON COLUMN public.entries.manual_tags IS 'Tags assigned explicitly by the user';
+COMMENT ON TABLE public.entry_links IS 'Wiki-style [[id|label]] references from one entry to another';
+COMMENT ON TABLE public.notebooks IS 'Named notebooks that group a user''s entries';
+COMMENT ON TABLE public.templates IS 'User-defined entry templates with {{date}}, {{weekday}} and {{prompt}} placeholders';
+COMMENT ON TABLE public.template_usage IS 'Per-user use counts for built-in and user templates';
+COMMENT ON COLUMN public.entries.notebook_id IS 'Notebook the entry is filed in (NULL when unfiled)';
+COMMENT ON TABLE public.drafts IS 'Autosaved, unsubmitted editor contents per user and context';
+COMMENT ON TABLE public.attachments IS 'Files uploaded to entries; bytes are kept in the configured storage backend';
+COMMENT ON TABLE public.entry_shares IS 'Expiring, revocable read-only links to single entries';
+COMMENT ON COLUMN public.entry_shares.token_hash IS 'SHA-256 of the share token; the token itself is never stored';
+COMMENT ON COLUMN public.entries.metadata IS 'Structured metadata: mood, energy, location, weather and custom fields';
+COMMENT ON COLUMN public.entries.entry_date IS 'When the memory happened; used for ordering, the calendar and date queries';
+COMMENT ON COLUMN public.entries.unlock_at IS 'Sealed entries stay hidden from lists, search and chat until this time';
+COMMENT ON COLUMN public.entries.embedding_status IS 'pending until the embedding matches the text, ready once searchable, failed after the last retry';
+COMMENT ON COLUMN public.entries.embedding_model IS 'Model that produced the embedding, with embedding_provider and embedding_dimension; NULL when unknown';
+COMMENT ON COLUMN public.entries.embedding_hash IS 'SHA-256 of the normalized text_content the embedding was made from';
+COMMENT ON TABLE public.entry_chunks IS 'Overlapping passages of entries along block boundaries, each with its own embedding';
+COMMENT ON TABLE public.embedding_jobs IS 'Durable queue of entries waiting to be embedded, with retry state';
+COMMENT ON COLUMN public.entries.search_vector IS 'Full-text search vector generated from text_content';
 
 -- =====================================================
 -- VERIFICATION QUERIES (Optional - for testing)
@@ -234,7 +1219,7 @@ COMMENT ON COLUMN public.entries.embedding IS '768-dimensional vector embedding
 /*
 -- Check if tables exist
 SELECT table_name FROM information_schema.tables 
-WHERE table_schema = 'public' AND table_name IN ('profiles', 'entries');
+WHERE table_schema = 'public' AND table_name IN ('profiles', 'entries', 'entry_versions');
 
 -- Check if RLS is enabled
 SELECT schemaname, tablename, rowsecurity 
@@ -249,5 +1234,5 @@ WHERE tablename IN ('profiles', 'entries');
 -- Check if functions exist
 SELECT routine_name FROM information_schema.routines 
 WHERE routine_schema = 'public' 
-AND routine_name IN ('handle_new_user', 'handle_updated_at', 'match_entries', 'update_entry_embedding');
+AND routine_name IN ('handle_new_user', 'handle_updated_at', 'handle_entry_versioning', 'match_entries', 'search_entries', 'update_entry_embedding');
 */ 
\ No newline at end of file
@@ -3,10 +3,25 @@ import { cors } from 'hono/cors'
 import auth from './routes/auth'
 import entries from './routes/entries'
 import ai from './routes/ai'
+import tags from './routes/tags'
+import weather from './routes/weather'
+import attachments from './routes/attachments'
+import drafts from './routes/drafts'
+import notebooks from './routes/notebooks'
+import shares from './routes/shares'
+import shared from './routes/shared'
+import templates from './routes/templates'
+import admin from './routes/admin'
+import { startTrashPurgeJob } from './lib/trash'
+import { checkEmbeddingProvider } from './lib/embeddings'
+import { startEmbeddingWorker } from './lib/embedding-queue'
 
 const app = new Hono()
 
-app.use(cors())
+app.use(cors({
+  origin: '*',
+  exposeHeaders: ['Content-Disposition', 'ETag', 'X-Entry-Count'],
+}))
 
 // Health check
 app.get('/', (c) => {
@@ -17,5 +32,19 @@ app.get('/', (c) => {
 app.route('/auth', auth)
 app.route('/entries', entries)
 app.route('/ai', ai)
+app.route('/tags', tags)
+app.route('/weather', weather)
+app.route('/attachments', attachments)
+app.route('/drafts', drafts)
+app.route('/notebooks', notebooks)
+app.route('/shares', shares)
+app.route('/shared', shared)
+app.route('/templates', templates)
+app.route('/admin', admin)
+
+// Background jobs
+startTrashPurgeJob()
+void checkEmbeddingProvider()
+startEmbeddingWorker()
 
 export default app
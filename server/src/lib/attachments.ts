@@ -0,0 +1,178 @@
+// Attachments: files uploaded to an entry and embedded in its content
+//
+// Files are served from GET /attachments/:id?exp=...&sig=..., where the
+// signature is an HMAC of the attachment id and the expiry time. The URL can
+// sit in an <img> tag (no auth header needed) while staying unguessable, and
+// stops working after ATTACHMENT_URL_TTL_HOURS, or earlier when the
+// attachment is deleted or its entry trashed. Entry content keeps the URL an
+// attachment got when it was inserted, so URLs are re-signed on the way out.
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { YOOPTA_MEDIA_BLOCK_TYPES } from 'shared'
+import type { YooptaContent } from 'shared'
+import { supabase } from './supabase'
+import { getStorage } from './storage'
+
+export const MAX_ATTACHMENT_BYTES = parseInt(process.env.ATTACHMENT_MAX_MB || '10') * 1024 * 1024
+export const ATTACHMENT_URL_TTL_SECONDS = parseInt(process.env.ATTACHMENT_URL_TTL_HOURS || '24') * 60 * 60
+
+// Matches our attachment URLs in stored content, whichever host or expiry they carry
+const ATTACHMENT_URL_PATTERN = /\/attachments\/([0-9a-f-]{36})\?(?:.*&)?sig=/i
+
+// Raster images are shown inline; everything else (including SVG) downloads
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif']
+
+export interface Attachment {
+    id: string
+    entry_id: number
+    file_name: string
+    content_type: string
+    size_bytes: number
+    storage_key: string
+    created_at: string
+}
+
+function signingSecret(): string {
+    const secret = process.env.ATTACHMENT_SIGNING_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!secret) {
+        throw new Error('Set ATTACHMENT_SIGNING_SECRET to serve attachments')
+    }
+    return secret
+}
+
+function sign(attachmentId: string, expiresAt: number): string {
+    return createHmac('sha256', signingSecret()).update(`attachment:${attachmentId}:${expiresAt}`).digest('base64url')
+}
+
+// Seconds the signed URL has left, or null when it is forged or expired
+export function verifyAttachmentSignature(attachmentId: string, expires: string, signature: string): number | null {
+    const expiresAt = /^\d{1,12}$/.test(expires) ? parseInt(expires) : NaN
+    const remaining = expiresAt - Math.floor(Date.now() / 1000)
+    if (!(remaining > 0)) return null
+
+    const expected = Buffer.from(sign(attachmentId, expiresAt))
+    const given = Buffer.from(signature)
+    return expected.length === given.length && timingSafeEqual(expected, given) ? remaining : null
+}
+
+// Public URL for an attachment, valid for ttlSeconds. PUBLIC_API_URL wins over
+// the request origin so links stay valid behind proxies.
+export function attachmentUrl(origin: string, attachmentId: string, ttlSeconds = ATTACHMENT_URL_TTL_SECONDS): string {
+    const base = (process.env.PUBLIC_API_URL || origin).replace(/\/$/, '')
+    const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds
+    return `${base}/attachments/${attachmentId}?exp=${expiresAt}&sig=${sign(attachmentId, expiresAt)}`
+}
+
+// API shape: the row without its storage key, plus the signed URL
+export function presentAttachment(origin: string, attachment: Attachment) {
+    const { storage_key: _storageKey, ...rest } = attachment
+    return { ...rest, url: attachmentUrl(origin, attachment.id) }
+}
+
+function mediaBlocks(content: unknown) {
+    if (!content || typeof content !== 'object') return []
+    return Object.values(content as YooptaContent).filter((block) => YOOPTA_MEDIA_BLOCK_TYPES.includes(block?.type))
+}
+
+function attachmentIdOf(src: unknown): string | null {
+    return typeof src === 'string' ? src.match(ATTACHMENT_URL_PATTERN)?.[1]?.toLowerCase() ?? null : null
+}
+
+// Replace the attachment URLs in each item's content with freshly signed ones.
+// Only attachments the user owns, on the item's own entry, are signed, so pasting
+// someone else's URL into content can't mint access to it; other URLs are left as written.
+export async function signContentAttachments<T extends { content?: unknown }>(
+    items: T[],
+    entryIdOf: (item: T) => number | null,
+    userId: string,
+    origin: string,
+    ttlSeconds = ATTACHMENT_URL_TTL_SECONDS
+): Promise<T[]> {
+    const ids = new Set<string>()
+    for (const item of items) {
+        for (const block of mediaBlocks(item.content)) {
+            const id = attachmentIdOf(block.value?.[0]?.props?.src)
+            if (id) ids.add(id)
+        }
+    }
+    if (ids.size === 0) return items
+
+    const { data, error } = await supabase
+        .from('attachments')
+        .select('id, entry_id')
+        .eq('user_id', userId)
+        .in('id', [...ids])
+
+    if (error) {
+        throw new Error(`Failed to look up attachments: ${error.message}`)
+    }
+    const entryOfAttachment = new Map((data || []).map((row) => [row.id as string, row.entry_id as number]))
+
+    return items.map((item) => {
+        const entryId = entryIdOf(item)
+        if (entryId === null || mediaBlocks(item.content).length === 0) return item
+
+        const content = Object.fromEntries(
+            Object.entries(item.content as YooptaContent).map(([key, block]) => {
+                const element = block?.value?.[0]
+                const id = YOOPTA_MEDIA_BLOCK_TYPES.includes(block?.type) ? attachmentIdOf(element?.props?.src) : null
+                if (!element || !id || entryOfAttachment.get(id) !== entryId) return [key, block]
+
+                const src = attachmentUrl(origin, id, ttlSeconds)
+                return [key, { ...block, value: [{ ...element, props: { ...element.props, src } }, ...block.value.slice(1)] }]
+            })
+        )
+        return { ...item, content }
+    })
+}
+
+// signContentAttachments for entry rows
+export function signEntryAttachments<T extends { id: number; content?: unknown }>(
+    entries: T[],
+    userId: string,
+    origin: string,
+    ttlSeconds = ATTACHMENT_URL_TTL_SECONDS
+): Promise<T[]> {
+    return signContentAttachments(entries, (entry) => entry.id, userId, origin, ttlSeconds)
+}
+
+export function isInlineType(contentType: string): boolean {
+    return INLINE_TYPES.includes(contentType)
+}
+
+// Keep names readable in Content-Disposition without path or header tricks
+export function sanitizeFileName(name: string): string {
+    const base = name.split(/[\\/]/).pop() || ''
+    const cleaned = base.replace(/[\u0000-\u001f"<>|:*?]/g, '').trim().slice(0, 200)
+    return cleaned || 'file'
+}
+
+// Delete the stored blobs of these entries' attachments. Throws when the
+// storage backend fails, so callers can keep the rows (and retry) instead of
+// orphaning files.
+export async function removeEntryAttachments(entryIds: number[]): Promise<number> {
+    if (entryIds.length === 0) return 0
+
+    const { data, error } = await supabase
+        .from('attachments')
+        .select('id, storage_key')
+        .in('entry_id', entryIds)
+
+    if (error) {
+        throw new Error(`Failed to list attachments: ${error.message}`)
+    }
+    if (!data || data.length === 0) return 0
+
+    await getStorage().remove(data.map((attachment) => attachment.storage_key))
+
+    const { error: deleteError } = await supabase
+        .from('attachments')
+        .delete()
+        .in('id', data.map((attachment) => attachment.id))
+
+    if (deleteError) {
+        throw new Error(`Failed to delete attachments: ${deleteError.message}`)
+    }
+
+    return data.length
+}
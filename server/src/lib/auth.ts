@@ -0,0 +1,49 @@
+import type { Context, Next } from 'hono'
+import type { User } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+export interface ContextWithUser {
+    user: User
+}
+
+// Middleware to verify authentication
+export async function authMiddleware(c: Context<{ Variables: ContextWithUser }>, next: Next) {
+    const authHeader = c.req.header('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const token = authHeader.split(' ')[1]
+
+    try {
+        const { data: { user }, error } = await supabase.auth.getUser(token)
+        if (error || !user) {
+            return c.json({ error: 'Invalid token' }, 401)
+        }
+
+        c.set('user', user)
+        await next()
+    } catch (error) {
+        return c.json({ error: 'Authentication failed' }, 401)
+    }
+}
+
+// Comma-separated emails of users allowed to run maintenance endpoints
+const ADMIN_EMAILS = new Set(
+    (process.env.ADMIN_EMAILS || '')
+        .split(',')
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean)
+)
+
+// Middleware to restrict a route to admins; use after authMiddleware.
+// The email must be confirmed, or anyone could sign up with an admin's address.
+export async function adminMiddleware(c: Context<{ Variables: ContextWithUser }>, next: Next) {
+    const user = c.get('user')
+    const email = user.email?.toLowerCase()
+    if (!email || !user.email_confirmed_at || !ADMIN_EMAILS.has(email)) {
+        return c.json({ error: 'Forbidden' }, 403)
+    }
+
+    await next()
+}
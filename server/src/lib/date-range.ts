@@ -0,0 +1,44 @@
+// Date range and time zone query parameters
+//
+// Both bounds accept a full timestamp or a plain YYYY-MM-DD date. A plain `to`
+// date covers that whole day, so the returned `end` is exclusive.
+
+export interface DateRange {
+    start: string | null
+    end: string | null
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseBound(value: string | undefined, isEnd: boolean): string | null | undefined {
+    if (!value) return null
+
+    const date = new Date(value)
+    if (isNaN(date.getTime())) return undefined
+
+    if (isEnd && DAY_PATTERN.test(value)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+    }
+    return date.toISOString()
+}
+
+// Returns null when either bound is invalid or the range is reversed
+export function parseDateRange(from: string | undefined, to: string | undefined): DateRange | null {
+    const start = parseBound(from, false)
+    const end = parseBound(to, true)
+
+    if (start === undefined || end === undefined) return null
+    if (start && end && start >= end) return null
+
+    return { start, end }
+}
+
+// IANA zone names such as "Europe/Berlin", as accepted by Postgres AT TIME ZONE
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone })
+        return true
+    } catch {
+        return false
+    }
+}
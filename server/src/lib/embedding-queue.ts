@@ -0,0 +1,258 @@
+// Durable queue of entries waiting to be embedded
+//
+// Saving an entry only queues it (embedding_status 'pending'); the worker
+// below embeds queued entries in the background. A failed attempt is retried
+// with exponential backoff, and after EMBEDDING_MAX_ATTEMPTS the entry is
+// marked 'failed' until it is queued again. Jobs live in the database, so
+// nothing is lost when the server restarts or the embedding service is down.
+//
+// Besides the whole entry, each of its passages (overlapping stretches along
+// block boundaries) gets its own embedding, so search can land on the part of
+// a long entry that matches.
+
+import { supabase } from './supabase'
+import { yooptaToPassages } from 'shared'
+import type { YooptaContent } from 'shared'
+import { embeddingContentHash, generateEmbeddings, getEmbeddingProvider, normalizeEmbeddingText } from './embeddings'
+
+const WORKER_INTERVAL_SECONDS = parseInt(process.env.EMBEDDING_WORKER_INTERVAL_SECONDS || '10')
+const MAX_ATTEMPTS = parseInt(process.env.EMBEDDING_MAX_ATTEMPTS || '8')
+const BATCH_SIZE = 10
+const BASE_RETRY_SECONDS = 30
+const MAX_RETRY_SECONDS = 6 * 60 * 60
+// How long a claimed job is held before another worker may take it over
+const LOCK_SECONDS = 300
+
+interface EmbeddingJob {
+    entry_id: number
+    user_id: string
+    requested_at: string
+    attempts: number
+    content: YooptaContent | null
+    text_content: string | null
+}
+
+// 30s, 1m, 2m, 4m, ... capped at 6h, with jitter so retries don't arrive together
+export function retryDelaySeconds(attempts: number): number {
+    const delay = Math.min(BASE_RETRY_SECONDS * 2 ** (attempts - 1), MAX_RETRY_SECONDS)
+    return Math.round(delay * (0.75 + Math.random() * 0.5))
+}
+
+let wake: (() => void) | null = null
+
+// The stored embedding of an entry, as far as deciding whether to redo it goes
+export interface StoredEmbedding {
+    embedding_status?: string | null
+    embedding_hash?: string | null
+    embedding_provider?: string | null
+    embedding_model?: string | null
+}
+
+const contentHashStats = { hits: 0, misses: 0 }
+
+export function getContentHashStats(): { hits: number; misses: number } {
+    return { ...contentHashStats }
+}
+
+// Whether saving `text` needs a new embedding. An entry whose ready embedding was
+// made by the current model from text that normalizes the same (a change of
+// whitespace, say) keeps it. Counted, to show how much embedding this saves.
+export function needsEmbedding(entry: StoredEmbedding, text: string): boolean {
+    const current = getEmbeddingProvider()
+    const reusable = entry.embedding_status === 'ready' &&
+        entry.embedding_provider === current.name &&
+        entry.embedding_model === current.model &&
+        entry.embedding_hash === embeddingContentHash(text)
+
+    if (reusable) {
+        contentHashStats.hits += 1
+    } else {
+        contentHashStats.misses += 1
+    }
+    return !reusable
+}
+
+// Move the stored passages of an entry that kept its embedding onto its new text.
+// Their offsets and text describe text_content exactly, so any edit leaves them
+// stale even when the embeddings still fit. Returns false when the passages
+// themselves changed (a block split in two, say); then the entry needs re-embedding.
+export async function refreshPassages(entryId: number, content: unknown): Promise<boolean> {
+    const passages = content ? yooptaToPassages(content as YooptaContent) : []
+    const { data: chunks, error } = await supabase
+        .from('entry_chunks')
+        .select('chunk_index, content')
+        .eq('entry_id', entryId)
+        .order('chunk_index')
+
+    if (error) {
+        throw new Error(`Failed to read passages: ${error.message}`)
+    }
+
+    const unchanged = chunks.length === passages.length && passages.every((passage, i) =>
+        chunks[i]!.chunk_index === passage.index &&
+        normalizeEmbeddingText(chunks[i]!.content) === normalizeEmbeddingText(passage.text)
+    )
+    if (!unchanged) return false
+
+    const results = await Promise.all(passages.map((passage) => supabase
+        .from('entry_chunks')
+        .update({ content: passage.text, start_offset: passage.start, end_offset: passage.end })
+        .eq('entry_id', entryId)
+        .eq('chunk_index', passage.index)
+    ))
+    const failed = results.find((result) => result.error)
+    if (failed?.error) {
+        throw new Error(`Failed to update passages: ${failed.error.message}`)
+    }
+    return true
+}
+
+// Queue entries for (re)embedding and nudge the worker. Throws when the queue
+// can't be written, since the entries would otherwise never become searchable.
+export async function enqueueEmbeddings(userId: string, entryIds: number[]): Promise<number> {
+    if (entryIds.length === 0) return 0
+
+    const { data, error } = await supabase.rpc('enqueue_entry_embeddings', {
+        p_entry_ids: entryIds,
+        p_user_id: userId
+    })
+
+    if (error) {
+        throw new Error(`Failed to queue embeddings: ${error.message}`)
+    }
+
+    wake?.()
+    return data ?? 0
+}
+
+// Queue the next `limit` entries after `afterId` whose embedding came from another
+// model than the configured one. Returns the ids queued, in order.
+export async function enqueueStaleEmbeddings(afterId: number, limit: number): Promise<number[]> {
+    const current = getEmbeddingProvider()
+    const { data, error } = await supabase.rpc('queue_stale_embeddings', {
+        p_provider: current.name,
+        p_model: current.model,
+        p_dimension: current.dimension,
+        p_after_id: afterId,
+        p_limit: limit
+    })
+
+    if (error) {
+        throw new Error(`Failed to queue stale embeddings: ${error.message}`)
+    }
+
+    const ids = ((data || []) as { entry_id: number }[]).map((row) => row.entry_id).sort((a, b) => a - b)
+    if (ids.length > 0) wake?.()
+    return ids
+}
+
+async function processJob(job: EmbeddingJob): Promise<void> {
+    try {
+        const text = job.text_content || ''
+        const passages = job.content ? yooptaToPassages(job.content) : []
+        // A short entry is its own single passage; don't embed the same text twice
+        const wholeIsPassage = passages.length === 1 && passages[0]!.text === text
+        const current = getEmbeddingProvider()
+        const [embedding, ...passageEmbeddings] = await generateEmbeddings(
+            wholeIsPassage ? [text] : [text, ...passages.map((passage) => passage.text)]
+        )
+
+        const { data: stored, error } = await supabase.rpc('complete_embedding_job', {
+            p_entry_id: job.entry_id,
+            p_requested_at: job.requested_at,
+            p_embedding: embedding,
+            p_chunks: passages.map((passage, i) => ({
+                chunk_index: passage.index,
+                content: passage.text,
+                start_offset: passage.start,
+                end_offset: passage.end,
+                embedding: wholeIsPassage ? embedding : passageEmbeddings[i]
+            })),
+            p_provider: current.name,
+            p_model: current.model,
+            p_content_hash: embeddingContentHash(text)
+        })
+
+        if (error) throw error
+        if (!stored) {
+            console.log(`🔁 Entry ${job.entry_id} changed while embedding, left for the next run`)
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        const giveUp = job.attempts >= MAX_ATTEMPTS
+        const retryAt = giveUp ? null : new Date(Date.now() + retryDelaySeconds(job.attempts) * 1000).toISOString()
+
+        console.error(
+            `❌ Embedding entry ${job.entry_id} failed (attempt ${job.attempts}/${MAX_ATTEMPTS})` +
+            `${retryAt ? `, retrying at ${retryAt}` : ', giving up'}:`,
+            message
+        )
+
+        const { error: failError } = await supabase.rpc('fail_embedding_job', {
+            p_entry_id: job.entry_id,
+            p_requested_at: job.requested_at,
+            p_error: message.slice(0, 1000),
+            p_retry_at: retryAt
+        })
+
+        if (failError) {
+            console.error('❌ Error recording embedding failure:', failError)
+        }
+    }
+}
+
+// Work through due jobs until none are left. Returns how many were processed.
+export async function processEmbeddingQueue(): Promise<number> {
+    let processed = 0
+
+    while (true) {
+        const { data: jobs, error } = await supabase.rpc('claim_embedding_jobs', {
+            p_limit: BATCH_SIZE,
+            p_lock_seconds: LOCK_SECONDS
+        })
+
+        if (error) {
+            throw new Error(`Failed to claim embedding jobs: ${error.message}`)
+        }
+        if (!jobs || jobs.length === 0) return processed
+
+        for (const job of jobs as EmbeddingJob[]) {
+            await processJob(job)
+        }
+        processed += jobs.length
+    }
+}
+
+// Poll the queue on startup and then periodically; enqueueEmbeddings wakes it
+// early so new entries don't wait for the next tick.
+export function startEmbeddingWorker() {
+    let running = false
+    let rerun = false
+
+    const run = async () => {
+        if (running) {
+            rerun = true
+            return
+        }
+        running = true
+        try {
+            do {
+                rerun = false
+                const processed = await processEmbeddingQueue()
+                if (processed > 0) {
+                    console.log(`🧠 Embedding worker processed ${processed} jobs`)
+                }
+            } while (rerun)
+        } catch (error) {
+            console.error('❌ Embedding worker error:', error)
+        } finally {
+            running = false
+        }
+    }
+
+    wake = () => void run()
+
+    console.log(`🧠 Embedding worker polling every ${WORKER_INTERVAL_SECONDS} seconds (max ${MAX_ATTEMPTS} attempts per entry)`)
+    run()
+    return setInterval(run, WORKER_INTERVAL_SECONDS * 1000)
+}
@@ -1,125 +1,304 @@
-// Embedding generation utility for vector search
-export async function generateEmbedding(text: string): Promise<number[]> {
-    try {
-        console.log('🔍 Generating embedding for text:', text.substring(0, 100) + '...')
-
-        // Use Ollama's embedding model
-        const response = await fetch('http://localhost:11434/api/embeddings', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                model: 'nomic-embed-text', // 768-dimensional model
-                prompt: text
-            })
-        })
-
-        if (!response.ok) {
-            const errorText = await response.text()
-            console.error('❌ Embedding API error:', response.status, errorText)
-            throw new Error(`Embedding generation failed: ${response.status} - ${errorText}`)
-        }
+// Embedding generation for vector search
+//
+// EMBEDDING_PROVIDER picks where embeddings come from: "ollama" (default), any
+// OpenAI-compatible /embeddings endpoint ("openai"), or "hashing", a
+// deterministic local embedder for tests and offline development. Every
+// provider declares its dimension; vectors of any other length are rejected,
+// and so is a provider whose dimension differs from the one the index in the
+// database was created with, so one index never mixes dimensions.
 
-        const data = await response.json() as { embedding?: number[] }
+import { createHash } from 'node:crypto'
+import { supabase } from './supabase'
 
-        if (!data.embedding || !Array.isArray(data.embedding)) {
-            console.error('❌ Invalid embedding response:', data)
-            throw new Error('Invalid embedding response format')
-        }
+export interface EmbeddingProvider {
+    name: string
+    model: string
+    dimension: number
+    embed(texts: string[]): Promise<number[][]>
+}
 
-        console.log('✅ Generated embedding with', data.embedding.length, 'dimensions')
-        return data.embedding
-    } catch (error) {
-        console.error('❌ Error generating embedding:', error)
-        // Fallback: return a zero vector if embedding fails
-        console.log('⚠️ Using fallback zero vector')
-        return new Array(768).fill(0)
+export class EmbeddingDimensionError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'EmbeddingDimensionError'
     }
 }
 
-// Extract text content from JSONB entry content
-export function extractTextFromContent(content: any): string {
-    if (typeof content === 'string') {
-        return content
+// Check what a provider returned before anything is stored or searched with it
+function checkVectors(provider: Pick<EmbeddingProvider, 'name' | 'dimension'>, vectors: unknown, count: number): number[][] {
+    if (!Array.isArray(vectors) || vectors.length !== count) {
+        throw new Error(`${provider.name} returned ${Array.isArray(vectors) ? vectors.length : 'no'} embeddings for ${count} texts`)
     }
+    for (const vector of vectors) {
+        if (!Array.isArray(vector) || vector.some((value) => typeof value !== 'number')) {
+            throw new Error(`${provider.name} returned an invalid embedding`)
+        }
+        if (vector.length !== provider.dimension) {
+            throw new EmbeddingDimensionError(
+                `${provider.name} returned ${vector.length} dimensions, expected ${provider.dimension}`
+            )
+        }
+    }
+    return vectors as number[][]
+}
+
+function createOllamaProvider(host: string, model: string, dimension: number): EmbeddingProvider {
+    const base = host.replace(/\/$/, '')
 
-    if (typeof content === 'object' && content !== null) {
-        // Handle Yoopta editor content structure
-        if (content.type === 'doc') {
-            return extractTextFromBlocks(content.content || [])
+    const provider: EmbeddingProvider = {
+        name: 'ollama',
+        model,
+        dimension,
+        // One request per text: /api/embeddings works with every Ollama version
+        async embed(texts) {
+            const embeddings: unknown[] = []
+            for (const text of texts) {
+                const response = await fetch(`${base}/api/embeddings`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ model, prompt: text })
+                })
+
+                if (!response.ok) {
+                    throw new Error(`Ollama embedding failed: ${response.status} - ${await response.text()}`)
+                }
+
+                const data = await response.json() as { embedding?: unknown }
+                embeddings.push(data.embedding)
+            }
+            return checkVectors(provider, embeddings, texts.length)
         }
+    }
+    return provider
+}
 
-        // Handle array of blocks
-        if (Array.isArray(content)) {
-            return extractTextFromBlocks(content)
+// OpenAI's API and the many services that mirror it. `dimensions` is only sent
+// when configured, since not every model can shorten its vectors.
+function createOpenAICompatibleProvider(
+    baseUrl: string,
+    apiKey: string | undefined,
+    model: string,
+    dimension: number,
+    requestDimension: boolean
+): EmbeddingProvider {
+    const base = baseUrl.replace(/\/$/, '')
+
+    const provider: EmbeddingProvider = {
+        name: 'openai',
+        model,
+        dimension,
+        async embed(texts) {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+            if (apiKey) headers.Authorization = `Bearer ${apiKey}`
+
+            const response = await fetch(`${base}/embeddings`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model,
+                    input: texts,
+                    ...(requestDimension ? { dimensions: dimension } : {})
+                })
+            })
+
+            if (!response.ok) {
+                throw new Error(`Embedding API failed: ${response.status} - ${await response.text()}`)
+            }
+
+            const data = await response.json() as { data?: { index: number; embedding: unknown }[] }
+            const ordered = data.data ? [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding) : null
+            return checkVectors(provider, ordered, texts.length)
         }
+    }
+    return provider
+}
 
-        // Handle Yoopta editor value structure
-        if (content.type === 'Paragraph' && content.value) {
-            return extractTextFromValue(content.value)
+// Feature hashing of lowercased words into a unit vector: texts sharing words
+// land close together. No model and no network, and the same text always
+// gets the same vector.
+function createHashingProvider(dimension: number): EmbeddingProvider {
+    const embedOne = (text: string) => {
+        const vector = new Array<number>(dimension).fill(0)
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+            const digest = createHash('sha256').update(word).digest()
+            const bucket = digest.readUInt32BE(0) % dimension
+            vector[bucket]! += digest[4]! & 1 ? 1 : -1
         }
 
-        // Handle empty-block structure (Yoopta editor format)
-        if (content['empty-block'] && content['empty-block'].value) {
-            return extractTextFromValue(content['empty-block'].value)
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+        return norm === 0 ? vector : vector.map((value) => value / norm)
+    }
+
+    return {
+        name: 'hashing',
+        model: `hashing-${dimension}`,
+        dimension,
+        async embed(texts) {
+            return texts.map(embedOne)
         }
+    }
+}
+
+function parseDimension(value: string | undefined): number | null {
+    if (!value) return null
+    const dimension = parseInt(value)
+    if (!Number.isInteger(dimension) || dimension <= 0 || dimension > 16000) {
+        throw new Error(`EMBEDDING_DIMENSION must be a positive whole number, got "${value}"`)
+    }
+    return dimension
+}
 
-        // Handle other Yoopta block types
-        if (content.type && content.value) {
-            return extractTextFromValue(content.value)
+let provider: EmbeddingProvider | null = null
+
+// The configured provider, created on first use
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (provider) return provider
+
+    const name = process.env.EMBEDDING_PROVIDER || 'ollama'
+    const model = process.env.EMBEDDING_MODEL
+    const dimension = parseDimension(process.env.EMBEDDING_DIMENSION)
+
+    if (name === 'openai') {
+        provider = createOpenAICompatibleProvider(
+            process.env.EMBEDDING_API_URL || 'https://api.openai.com/v1',
+            process.env.EMBEDDING_API_KEY,
+            model || 'text-embedding-3-small',
+            dimension ?? 1536,
+            dimension !== null
+        )
+    } else if (name === 'hashing') {
+        provider = createHashingProvider(dimension ?? 768)
+    } else {
+        if (name !== 'ollama') {
+            console.warn(`⚠️ Unknown EMBEDDING_PROVIDER "${name}", using Ollama`)
         }
+        // nomic-embed-text produces 768 dimensions
+        provider = createOllamaProvider(
+            process.env.OLLAMA_HOST || 'http://localhost:11434',
+            model || 'nomic-embed-text',
+            dimension ?? 768
+        )
     }
+    return provider
+}
 
-    return JSON.stringify(content)
+let indexDimension: Promise<number> | null = null
+
+// The dimension of the entries.embedding column, read once from the database
+async function getIndexDimension(): Promise<number> {
+    indexDimension ??= (async () => {
+        const { data, error } = await supabase.rpc('get_embedding_dimension')
+        if (error) throw error
+        return Number(data)
+    })()
+
+    try {
+        return await indexDimension
+    } catch (error) {
+        indexDimension = null
+        throw error
+    }
 }
 
-function extractTextFromValue(value: any): string {
-    if (Array.isArray(value)) {
-        return value
-            .map(item => {
-                // Handle paragraph nodes
-                if (item.type === 'paragraph' && item.props) {
-                    return item.props.children || ''
-                }
-                // Handle text nodes
-                if (item.type === 'text') {
-                    return item.props?.text || ''
-                }
-                // Handle other node types
-                if (item.props && item.props.children) {
-                    return item.props.children
-                }
-                return ''
-            })
-            .join(' ')
-            .trim()
+// Throws EmbeddingDimensionError when the provider can't write to this index
+export async function assertIndexDimension(): Promise<EmbeddingProvider> {
+    const current = getEmbeddingProvider()
+    const dimension = await getIndexDimension()
+
+    if (dimension !== current.dimension) {
+        throw new EmbeddingDimensionError(
+            `The ${current.name} provider (${current.model}) produces ${current.dimension} dimensions, ` +
+            `but the embedding index holds ${dimension}. Configure a matching model or rebuild the index.`
+        )
     }
+    return current
+}
 
-    // Handle single value
-    if (value && typeof value === 'object') {
-        if (value.type === 'paragraph' && value.props) {
-            return value.props.children || ''
-        }
-        if (value.type === 'text') {
-            return value.props?.text || ''
-        }
+// Log the provider in use at startup, and shout when it doesn't fit the index
+export async function checkEmbeddingProvider(): Promise<void> {
+    try {
+        const current = await assertIndexDimension()
+        console.log(`🧠 Embeddings: ${current.name} (${current.model}, ${current.dimension} dimensions)`)
+    } catch (error) {
+        console.error('❌ Embedding provider check failed:', error instanceof Error ? error.message : error)
     }
+}
 
-    return ''
+// Embed one text with the configured provider. Failures are thrown, never
+// papered over: a made-up vector would be stored as if it were real.
+export async function generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await generateEmbeddings([text])
+    return embedding!
 }
 
-function extractTextFromBlocks(blocks: any[]): string {
-    if (!Array.isArray(blocks)) return ''
+// Embed several texts in one go, in order
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+    console.log(`🔍 Generating ${texts.length} embeddings for text:`, (texts[0] ?? '').substring(0, 100) + '...')
 
-    return blocks
-        .map(block => {
-            if (block.type === 'paragraph') {
-                return extractTextFromContent(block.content || [])
-            }
-            if (block.type === 'heading') {
-                return extractTextFromContent(block.content || [])
-            }
-            return ''
-        })
-        .join(' ')
-        .trim()
-} 
\ No newline at end of file
+    const current = await assertIndexDimension()
+    const embeddings = await current.embed(texts)
+    console.log('✅ Generated', embeddings.length, 'embeddings with', current.dimension, 'dimensions')
+    return embeddings
+}
+
+// Text as far as embedding is concerned: Unicode-normalized, whitespace collapsed
+export function normalizeEmbeddingText(text: string): string {
+    return text.normalize('NFC').replace(/\s+/g, ' ').trim()
+}
+
+// Hash stored with an embedding; equal hashes mean re-embedding would be wasted work
+export function embeddingContentHash(text: string): string {
+    return createHash('sha256').update(normalizeEmbeddingText(text)).digest('hex')
+}
+
+// Query embeddings are kept in a small LRU (a Map iterates in insertion order,
+// so the first key is the least recently used), since people ask the same
+// questions again. EMBEDDING_QUERY_CACHE_SIZE=0 turns it off.
+const QUERY_CACHE_SIZE = parseInt(process.env.EMBEDDING_QUERY_CACHE_SIZE || '500')
+const queryCache = new Map<string, number[]>()
+const queryCacheStats = { hits: 0, misses: 0 }
+
+export interface QueryCacheStats {
+    size: number
+    max_size: number
+    hits: number
+    misses: number
+    hit_rate: number
+}
+
+export function getQueryCacheStats(): QueryCacheStats {
+    const lookups = queryCacheStats.hits + queryCacheStats.misses
+    return {
+        size: queryCache.size,
+        max_size: QUERY_CACHE_SIZE,
+        ...queryCacheStats,
+        hit_rate: lookups === 0 ? 0 : queryCacheStats.hits / lookups
+    }
+}
+
+// Embed a search query, reusing the vector when the same query was embedded recently
+export async function embedQuery(text: string): Promise<number[]> {
+    const current = getEmbeddingProvider()
+    // Keyed by model too, so switching providers never serves a foreign vector
+    const key = `${current.name}/${current.model}/${current.dimension}:${normalizeEmbeddingText(text)}`
+
+    const cached = queryCache.get(key)
+    if (cached) {
+        queryCacheStats.hits += 1
+        queryCache.delete(key)
+        queryCache.set(key, cached)
+        return cached
+    }
+
+    queryCacheStats.misses += 1
+    const embedding = await generateEmbedding(text)
+
+    if (QUERY_CACHE_SIZE > 0) {
+        queryCache.set(key, embedding)
+        if (queryCache.size > QUERY_CACHE_SIZE) {
+            queryCache.delete(queryCache.keys().next().value!)
+        }
+    }
+    return embedding
+}
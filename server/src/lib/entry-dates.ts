@@ -0,0 +1,61 @@
+// When an entry happened, and when a sealed entry opens
+//
+// entry_date is the day the user logged the memory for; it defaults to the time
+// of writing but may be backdated, and every list, calendar and date query uses
+// it. A sealed entry carries an unlock_at in the future and stays out of lists,
+// search and chat until then; once open it is shown as a letter from the past.
+
+type ParseResult<T> = { value: T } | { error: string }
+
+// Clock skew allowed between the client and the server for "now"
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000
+const MAX_SEAL_YEARS = 50
+
+function parseTimestamp(value: unknown): Date | null {
+    if (typeof value !== 'string' || !value.trim()) return null
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+}
+
+// An entry date may be backdated freely but not set in the future
+export function parseEntryDate(value: unknown): ParseResult<string | undefined> {
+    if (value === undefined || value === null) return { value: undefined }
+
+    const date = parseTimestamp(value)
+    if (!date || date.getFullYear() < 1900) {
+        return { error: 'entry_date must be a valid date' }
+    }
+    if (date.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+        return { error: 'entry_date cannot be in the future' }
+    }
+    return { value: date.toISOString() }
+}
+
+// A seal has to open in the future, and within a lifetime
+export function parseUnlockAt(value: unknown): ParseResult<string | null> {
+    if (value === undefined || value === null) return { value: null }
+
+    const date = parseTimestamp(value)
+    if (!date) {
+        return { error: 'unlock_at must be a valid date' }
+    }
+    if (date.getTime() <= Date.now()) {
+        return { error: 'unlock_at must be in the future' }
+    }
+
+    const latest = new Date()
+    latest.setFullYear(latest.getFullYear() + MAX_SEAL_YEARS)
+    if (date > latest) {
+        return { error: `unlock_at can be at most ${MAX_SEAL_YEARS} years away` }
+    }
+    return { value: date.toISOString() }
+}
+
+export function isSealed(entry: { unlock_at?: string | null }): boolean {
+    return !!entry.unlock_at && new Date(entry.unlock_at).getTime() > Date.now()
+}
+
+// PostgREST `or` filter keeping only entries that are not (or no longer) sealed
+export function unsealedFilter(): string {
+    return `unlock_at.is.null,unlock_at.lte."${new Date().toISOString()}"`
+}
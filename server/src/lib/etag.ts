@@ -0,0 +1,17 @@
+// Entity tags for optimistic concurrency
+//
+// An entry's ETag is its content version number, e.g. "7". Clients send it back
+// in If-Match when saving so a stale copy can't overwrite a newer one.
+
+export function entryETag(version: number): string {
+    return `"${version}"`
+}
+
+// Read the version from an If-Match header; accepts "7", W/"7" or a bare 7
+export function parseIfMatch(header: string | undefined): number | null {
+    const match = header?.trim().match(/^(?:W\/)?"?(\d+)"?$/)
+    if (!match) return null
+
+    const version = parseInt(match[1]!)
+    return Number.isSafeInteger(version) ? version : null
+}
@@ -0,0 +1,112 @@
+// Render entries as files for export archives
+//
+// Every entry becomes one file rendered from its Yoopta content, with the
+// date and tags up front; an index file lists them all. JSON files keep the
+// original content so an export can be imported again unchanged.
+
+import { escapeHtml, yooptaToHtml, yooptaToMarkdown } from 'shared'
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'html'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export interface ExportEntry {
+    id: number
+    content: unknown
+    text_content: string | null
+    tags: string[] | null
+    manual_tags: string[] | null
+    metadata: unknown
+    entry_date: string
+    unlock_at: string | null
+    created_at: string
+    updated_at: string
+}
+
+export interface ExportIndexItem {
+    id: number
+    file: string
+    title: string
+    entry_date: string
+    tags: string[]
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', json: 'json', html: 'html' }
+
+export function isExportFormat(value: string): value is ExportFormat {
+    return (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+export function entryTitle(entry: ExportEntry): string {
+    const firstLine = (entry.text_content || '').trim().split('\n')[0] || 'Untitled memory'
+    return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine
+}
+
+export function entryFileName(entry: ExportEntry, format: ExportFormat): string {
+    return `entries/${entry.entry_date.slice(0, 10)}-${entry.id}.${EXTENSIONS[format]}`
+}
+
+function htmlPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:42rem;margin:2rem auto;padding:0 1rem;line-height:1.6}blockquote{border-left:3px solid #ccc;margin-left:0;padding-left:1rem;color:#555}.meta{color:#777;font-size:.875rem}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+export function renderEntry(entry: ExportEntry, format: ExportFormat): string {
+    const tags = entry.tags || []
+
+    if (format === 'json') {
+        return JSON.stringify({
+            id: entry.id,
+            entry_date: entry.entry_date,
+            unlock_at: entry.unlock_at,
+            created_at: entry.created_at,
+            updated_at: entry.updated_at,
+            tags,
+            manual_tags: entry.manual_tags || [],
+            metadata: entry.metadata ?? null,
+            content: entry.content,
+            text_content: entry.text_content
+        }, null, 2)
+    }
+
+    if (format === 'html') {
+        const meta = [new Date(entry.entry_date).toLocaleString('en-US', { timeZone: 'UTC' }) + ' UTC']
+        if (tags.length > 0) meta.push(tags.map((tag) => `#${escapeHtml(tag)}`).join(' '))
+        return htmlPage(entryTitle(entry), `<p class="meta">${meta.join(' · ')}</p>\n${yooptaToHtml(entry.content)}`)
+    }
+
+    const frontMatter = [
+        '---',
+        `id: ${entry.id}`,
+        `date: ${entry.entry_date}`,
+        `updated: ${entry.updated_at}`,
+        ...(tags.length > 0 ? ['tags:', ...tags.map((tag) => `  - ${tag}`)] : []),
+        '---'
+    ]
+    return `${frontMatter.join('\n')}\n\n${yooptaToMarkdown(entry.content)}\n`
+}
+
+export function renderIndex(items: ExportIndexItem[], format: ExportFormat): string {
+    if (format === 'json') {
+        return JSON.stringify({ exported_at: new Date().toISOString(), count: items.length, entries: items }, null, 2)
+    }
+
+    if (format === 'html') {
+        const rows = items.map((item) =>
+            `<li><a href="${escapeHtml(item.file)}">${escapeHtml(item.title)}</a> <span class="meta">${item.entry_date.slice(0, 10)}</span></li>`
+        )
+        return htmlPage('Journal export', `<h1>Journal export</h1>\n<p class="meta">${items.length} entries</p>\n<ul>\n${rows.join('\n')}\n</ul>`)
+    }
+
+    const rows = items.map((item) => `- ${item.entry_date.slice(0, 10)} [${item.title.replace(/[[\]]/g, '')}](${item.file})`)
+    return `# Journal export\n\n${items.length} entries\n\n${rows.join('\n')}\n`
+}
@@ -0,0 +1,224 @@
+// Parse journal archives for import
+//
+// Accepts a zip of Markdown/text files (with optional YAML-style front matter)
+// and JSON exports, or a single such file. Every journal entry found becomes an
+// ImportItem; files that can't be read are reported as failed items.
+
+import { unzipSync, strFromU8 } from 'fflate'
+import { markdownToYoopta, validateYooptaContent, yooptaToText } from 'shared'
+import { normalizeTag } from './tags'
+import { parseMetadata } from './metadata'
+import type { EntryMetadata } from './metadata'
+
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024
+export const MAX_IMPORT_ITEMS = 2000
+const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.txt']
+const DATE_KEYS = ['created_at', 'createdAt', 'creationDate', 'date', 'created', 'timestamp']
+const TEXT_KEYS = ['text_content', 'text', 'markdown', 'body', 'content']
+
+export interface ImportItem {
+    file: string
+    item?: number
+    content?: object
+    text_content?: string
+    created_at?: string
+    entry_date?: string
+    unlock_at?: string
+    tags?: string[]
+    metadata?: EntryMetadata | null
+    error?: string
+}
+
+export class ImportError extends Error {}
+
+// Accept ISO strings, "YYYY-MM-DD" dates and unix timestamps (seconds or ms)
+function parseDate(value: unknown): string | null {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        const date = new Date(value < 1e12 ? value * 1000 : value)
+        return isNaN(date.getTime()) ? null : date.toISOString()
+    }
+    if (typeof value !== 'string' || !value.trim()) return null
+
+    const date = new Date(value.trim())
+    return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function parseTags(value: unknown): string[] {
+    const list = Array.isArray(value)
+        ? value
+        : typeof value === 'string' ? value.replace(/^\[|\]$/g, '').split(',') : []
+
+    return list
+        .map((tag) => typeof tag === 'string' ? normalizeTag(tag.replace(/^["']|["']$/g, '')) : null)
+        .filter((tag): tag is string => tag !== null)
+}
+
+// Minimal front matter reader: `key: value` pairs plus `- item` lists
+function parseFrontMatter(source: string): { fields: Record<string, unknown>; body: string } {
+    const match = source.match(/^﻿?---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+    if (!match) return { fields: {}, body: source }
+
+    const fields: Record<string, unknown> = {}
+    let listKey: string | null = null
+
+    for (const line of match[1]!.split(/\r?\n/)) {
+        const listItem = line.match(/^\s+-\s+(.*)$/)
+        if (listItem && listKey) {
+            (fields[listKey] as string[]).push(listItem[1]!.trim())
+            continue
+        }
+
+        const pair = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/)
+        if (!pair) continue
+
+        const [, key, value] = pair
+        if (value!.trim()) {
+            fields[key!] = value!.trim().replace(/^["']|["']$/g, '')
+            listKey = null
+        } else {
+            fields[key!] = []
+            listKey = key!
+        }
+    }
+
+    return { fields, body: source.slice(match[0].length) }
+}
+
+function parseMarkdownFile(file: string, source: string): ImportItem {
+    const { fields, body } = parseFrontMatter(source)
+    const title = typeof fields.title === 'string' ? fields.title : null
+    const { content, text_content } = markdownToYoopta(title ? `# ${title}\n\n${body}` : body)
+
+    if (!text_content) {
+        return { file, error: 'File is empty' }
+    }
+
+    // Fall back to a date in the file name, as in "2024-03-01 Morning pages.md"
+    const dateField = DATE_KEYS.map((key) => fields[key]).find((value) => value !== undefined)
+    const fileDate = file.match(/(\d{4}-\d{2}-\d{2})/)?.[1]
+    const created_at = parseDate(dateField) ?? parseDate(fileDate) ?? undefined
+
+    return { file, content, text_content, created_at, tags: parseTags(fields.tags) }
+}
+
+// A single entry from a JSON export: either our own Yoopta content or plain/Markdown text
+function parseJsonEntry(file: string, item: number, raw: unknown): ImportItem {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { file, item, error: 'Entry is not an object' }
+    }
+
+    const record = raw as Record<string, unknown>
+    const created_at = parseDate(DATE_KEYS.map((key) => record[key]).find((value) => value !== undefined)) ?? undefined
+    const entry_date = parseDate(record.entry_date) ?? undefined
+    const unlock_at = parseDate(record.unlock_at) ?? undefined
+    const dates = { created_at, entry_date, unlock_at }
+    const tags = parseTags(record.tags)
+
+    const parsedMetadata = parseMetadata(record.metadata)
+    if ('error' in parsedMetadata) {
+        return { file, item, error: `Invalid metadata: ${parsedMetadata.error}` }
+    }
+    const metadata = parsedMetadata.value
+
+    if (record.content && typeof record.content === 'object' && !Array.isArray(record.content)) {
+        const validated = validateYooptaContent(record.content)
+        if ('error' in validated) {
+            return { file, item, error: `Invalid content: ${validated.error}` }
+        }
+
+        // text_content in the file is ignored; it is always derived from the content
+        const text_content = yooptaToText(validated.value)
+        if (!text_content) {
+            return { file, item, error: 'Entry has no text' }
+        }
+        return { file, item, content: validated.value, text_content, ...dates, tags, metadata }
+    }
+
+    const text = TEXT_KEYS.map((key) => record[key]).find((value) => typeof value === 'string' && value.trim())
+    if (typeof text !== 'string') {
+        return { file, item, error: 'Entry has no text' }
+    }
+
+    const { content, text_content } = markdownToYoopta(text)
+    return { file, item, content, text_content, ...dates, tags, metadata }
+}
+
+function parseJsonFile(file: string, source: string): ImportItem[] {
+    let data: unknown
+    try {
+        data = JSON.parse(source)
+    } catch {
+        return [{ file, error: 'Invalid JSON' }]
+    }
+
+    // Exports are either a bare list or wrap it, e.g. Day One's { entries: [...] }
+    const list = Array.isArray(data)
+        ? data
+        : Array.isArray((data as Record<string, unknown>)?.entries)
+            ? (data as { entries: unknown[] }).entries
+            : [data]
+
+    return list.map((raw, index) => parseJsonEntry(file, index, raw))
+}
+
+function parseFile(file: string, bytes: Uint8Array): ImportItem[] {
+    const name = file.toLowerCase()
+    const source = strFromU8(bytes)
+
+    if (name.endsWith('.json')) {
+        return parseJsonFile(file, source)
+    }
+    if (MARKDOWN_EXTENSIONS.some((extension) => name.endsWith(extension))) {
+        return [parseMarkdownFile(file, source)]
+    }
+
+    return [{ file, error: 'Unsupported file type' }]
+}
+
+function isZip(bytes: Uint8Array): boolean {
+    return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+}
+
+// Skip folders and OS metadata such as __MACOSX/ and .DS_Store
+function isIgnoredPath(path: string): boolean {
+    return path.endsWith('/') || path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX')
+}
+
+export function parseImportFile(fileName: string, bytes: Uint8Array): ImportItem[] {
+    if (!isZip(bytes)) {
+        return parseFile(fileName, bytes)
+    }
+
+    let unzippedBytes = 0
+    let files: Record<string, Uint8Array>
+    try {
+        files = unzipSync(bytes, {
+            filter: (file) => {
+                if (isIgnoredPath(file.name)) return false
+                unzippedBytes += file.originalSize
+                if (unzippedBytes > MAX_UNZIPPED_BYTES) {
+                    throw new ImportError('Archive is too large once unpacked')
+                }
+                return true
+            }
+        })
+    } catch (error) {
+        if (error instanceof ImportError) throw error
+        throw new ImportError('Could not read zip archive')
+    }
+
+    // Archives from our own export carry an index file next to entries/
+    const paths = Object.keys(files).sort()
+    const isOwnExport = paths.some((path) => path.startsWith('entries/'))
+    const items = paths
+        .filter((path) => !(isOwnExport && /^index\.(md|json|html)$/.test(path)))
+        .flatMap((path) => parseFile(path, files[path]!))
+
+    if (items.length > MAX_IMPORT_ITEMS) {
+        throw new ImportError(`Archive contains more than ${MAX_IMPORT_ITEMS} entries`)
+    }
+
+    return items
+}
@@ -0,0 +1,53 @@
+// Wiki-style links between entries
+//
+// The editor writes a reference as [[42|Label]]: the target entry id, then the
+// text shown for it. entry_links mirrors the references in each entry's text so
+// backlinks can be looked up by target.
+
+import { supabase } from './supabase'
+
+const LINK_PATTERN = /\[\[(\d+)(?:\|[^\]]*)?\]\]/g
+
+export function extractLinkedIds(text: string): number[] {
+    const ids = [...text.matchAll(LINK_PATTERN)].map((match) => parseInt(match[1]!))
+    return [...new Set(ids)].filter((id) => Number.isSafeInteger(id) && id > 0)
+}
+
+// Replace an entry's outgoing links with those in its current text.
+// Only the user's own entries are linked; unknown ids are ignored.
+// Failures are logged, never thrown, so a save never fails because of links.
+export async function syncEntryLinks(entryId: number, userId: string, text: string | null): Promise<void> {
+    try {
+        const linkedIds = extractLinkedIds(text || '').filter((id) => id !== entryId)
+
+        let targetIds: number[] = []
+        if (linkedIds.length > 0) {
+            const { data: targets, error: lookupError } = await supabase
+                .from('entries')
+                .select('id')
+                .eq('user_id', userId)
+                .in('id', linkedIds)
+
+            if (lookupError) throw lookupError
+            targetIds = (targets || []).map((target) => target.id as number)
+        }
+
+        const { error: deleteError } = await supabase
+            .from('entry_links')
+            .delete()
+            .eq('source_id', entryId)
+            .eq('user_id', userId)
+
+        if (deleteError) throw deleteError
+
+        if (targetIds.length > 0) {
+            const { error: insertError } = await supabase
+                .from('entry_links')
+                .insert(targetIds.map((targetId) => ({ source_id: entryId, target_id: targetId, user_id: userId })))
+
+            if (insertError) throw insertError
+        }
+    } catch (error) {
+        console.error('❌ Error syncing entry links:', error)
+    }
+}
@@ -0,0 +1,200 @@
+// Structured entry metadata: how the day felt and where it happened
+//
+// Stored as JSONB on entries.metadata. Everything is optional, but whatever is
+// present must match the shape below; unknown fields are rejected.
+
+export const WEATHER_CONDITIONS = ['clear', 'cloudy', 'fog', 'drizzle', 'rain', 'snow', 'storm'] as const
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number]
+
+export interface EntryWeather {
+    condition?: WeatherCondition
+    temperature_c?: number
+    source: string // 'manual' or the name of the provider that filled it in
+}
+
+export interface EntryMetadata {
+    mood?: number // 1 (low) to 5 (great)
+    energy?: number // 1 (drained) to 5 (energized)
+    location?: string
+    weather?: EntryWeather
+    custom?: Record<string, string | number | boolean>
+}
+
+const SCALE_MIN = 1
+const SCALE_MAX = 5
+const MAX_LOCATION_LENGTH = 100
+const MAX_CUSTOM_FIELDS = 20
+const MAX_CUSTOM_VALUE_LENGTH = 200
+const CUSTOM_KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/
+const METADATA_KEYS = ['mood', 'energy', 'location', 'weather', 'custom']
+const WEATHER_KEYS = ['condition', 'temperature_c', 'source']
+
+type ParseResult<T> = { value: T } | { error: string }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isScale(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= SCALE_MIN && (value as number) <= SCALE_MAX
+}
+
+function parseWeather(value: unknown): ParseResult<EntryWeather> {
+    if (!isPlainObject(value)) return { error: 'weather must be an object' }
+
+    const unknownKey = Object.keys(value).find((key) => !WEATHER_KEYS.includes(key))
+    if (unknownKey) return { error: `Unknown weather field: ${unknownKey}` }
+
+    const weather: EntryWeather = { source: 'manual' }
+
+    if (value.condition !== undefined) {
+        if (!WEATHER_CONDITIONS.includes(value.condition as WeatherCondition)) {
+            return { error: `weather.condition must be one of: ${WEATHER_CONDITIONS.join(', ')}` }
+        }
+        weather.condition = value.condition as WeatherCondition
+    }
+
+    if (value.temperature_c !== undefined) {
+        const temperature = value.temperature_c
+        if (typeof temperature !== 'number' || !Number.isFinite(temperature) || temperature < -90 || temperature > 60) {
+            return { error: 'weather.temperature_c must be a number between -90 and 60' }
+        }
+        weather.temperature_c = Math.round(temperature * 10) / 10
+    }
+
+    if (value.source !== undefined) {
+        if (typeof value.source !== 'string' || !/^[a-z][a-z0-9-]{0,31}$/.test(value.source)) {
+            return { error: 'weather.source must be "manual" or a provider name' }
+        }
+        weather.source = value.source
+    }
+
+    if (weather.condition === undefined && weather.temperature_c === undefined) {
+        return { error: 'weather needs a condition or a temperature' }
+    }
+
+    return { value: weather }
+}
+
+function parseCustom(value: unknown): ParseResult<Record<string, string | number | boolean>> {
+    if (!isPlainObject(value)) return { error: 'custom must be an object of key/value pairs' }
+
+    const entries = Object.entries(value)
+    if (entries.length > MAX_CUSTOM_FIELDS) {
+        return { error: `custom can hold at most ${MAX_CUSTOM_FIELDS} fields` }
+    }
+
+    const custom: Record<string, string | number | boolean> = {}
+    for (const [key, fieldValue] of entries) {
+        if (!CUSTOM_KEY_PATTERN.test(key)) {
+            return { error: `Invalid custom key "${key}" (lowercase letters, numbers and _; up to 32 characters)` }
+        }
+
+        if (typeof fieldValue === 'string') {
+            const trimmed = fieldValue.trim()
+            if (!trimmed) continue
+            if (trimmed.length > MAX_CUSTOM_VALUE_LENGTH) {
+                return { error: `custom.${key} is longer than ${MAX_CUSTOM_VALUE_LENGTH} characters` }
+            }
+            custom[key] = trimmed
+        } else if (typeof fieldValue === 'boolean' || (typeof fieldValue === 'number' && Number.isFinite(fieldValue))) {
+            custom[key] = fieldValue
+        } else {
+            return { error: `custom.${key} must be a string, number or boolean` }
+        }
+    }
+
+    return { value: custom }
+}
+
+// Validate metadata from a request body. null/undefined means "no metadata";
+// empty fields are dropped so stored metadata only holds what was filled in.
+export function parseMetadata(value: unknown): ParseResult<EntryMetadata | null> {
+    if (value === undefined || value === null) return { value: null }
+    if (!isPlainObject(value)) return { error: 'metadata must be an object' }
+
+    const unknownKey = Object.keys(value).find((key) => !METADATA_KEYS.includes(key))
+    if (unknownKey) return { error: `Unknown metadata field: ${unknownKey}` }
+
+    const metadata: EntryMetadata = {}
+
+    for (const key of ['mood', 'energy'] as const) {
+        if (value[key] === undefined || value[key] === null) continue
+        if (!isScale(value[key])) {
+            return { error: `${key} must be a whole number from ${SCALE_MIN} to ${SCALE_MAX}` }
+        }
+        metadata[key] = value[key] as number
+    }
+
+    if (value.location !== undefined && value.location !== null) {
+        if (typeof value.location !== 'string') return { error: 'location must be text' }
+        const location = value.location.trim()
+        if (location.length > MAX_LOCATION_LENGTH) {
+            return { error: `location is longer than ${MAX_LOCATION_LENGTH} characters` }
+        }
+        if (location) metadata.location = location
+    }
+
+    if (value.weather !== undefined && value.weather !== null) {
+        const weather = parseWeather(value.weather)
+        if ('error' in weather) return weather
+        metadata.weather = weather.value
+    }
+
+    if (value.custom !== undefined && value.custom !== null) {
+        const custom = parseCustom(value.custom)
+        if ('error' in custom) return custom
+        if (Object.keys(custom.value).length > 0) metadata.custom = custom.value
+    }
+
+    return { value: Object.keys(metadata).length > 0 ? metadata : null }
+}
+
+export interface MetadataFilter {
+    column: string
+    operator: 'eq' | 'gte' | 'lte' | 'ilike'
+    value: string | number
+}
+
+// Turn ?mood_min=&mood_max=&energy_min=&energy_max=&location=&weather=&custom=key:value
+// into PostgREST filters on the metadata column
+export function parseMetadataFilters(query: Record<string, string | undefined>): ParseResult<MetadataFilter[]> {
+    const filters: MetadataFilter[] = []
+
+    for (const field of ['mood', 'energy'] as const) {
+        for (const bound of ['min', 'max'] as const) {
+            const raw = query[`${field}_${bound}`]
+            if (raw === undefined || raw === '') continue
+
+            const value = Number(raw)
+            if (!isScale(value)) {
+                return { error: `${field}_${bound} must be a whole number from ${SCALE_MIN} to ${SCALE_MAX}` }
+            }
+            filters.push({ column: `metadata->${field}`, operator: bound === 'min' ? 'gte' : 'lte', value })
+        }
+    }
+
+    if (query.location) {
+        // Escape LIKE wildcards so the label is matched literally
+        const pattern = query.location.trim().replace(/[\\%_]/g, (char) => `\\${char}`)
+        filters.push({ column: 'metadata->>location', operator: 'ilike', value: `%${pattern}%` })
+    }
+
+    if (query.weather) {
+        if (!WEATHER_CONDITIONS.includes(query.weather as WeatherCondition)) {
+            return { error: `weather must be one of: ${WEATHER_CONDITIONS.join(', ')}` }
+        }
+        filters.push({ column: 'metadata->weather->>condition', operator: 'eq', value: query.weather })
+    }
+
+    if (query.custom) {
+        const separator = query.custom.indexOf(':')
+        const key = separator > 0 ? query.custom.slice(0, separator) : ''
+        if (!CUSTOM_KEY_PATTERN.test(key)) {
+            return { error: 'custom must look like key:value' }
+        }
+        filters.push({ column: `metadata->custom->>${key}`, operator: 'eq', value: query.custom.slice(separator + 1) })
+    }
+
+    return { value: filters }
+}
@@ -0,0 +1,44 @@
+// Notebooks group a user's entries (Personal, Work, Dreams, ...)
+//
+// An entry belongs to at most one notebook; entries with no notebook_id are
+// unfiled and only show up when no notebook is selected.
+
+import { supabase } from './supabase'
+
+type ParseResult<T> = { value: T } | { error: string }
+
+export const MAX_NOTEBOOK_NAME_LENGTH = 60
+
+export function parseNotebookName(value: unknown): ParseResult<string> {
+    const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : ''
+    if (!name) return { error: 'Notebook name is required' }
+    if (name.length > MAX_NOTEBOOK_NAME_LENGTH) {
+        return { error: `Notebook names are limited to ${MAX_NOTEBOOK_NAME_LENGTH} characters` }
+    }
+    return { value: name }
+}
+
+// A notebook id from a query string or JSON body; undefined when not given, null to unfile
+export function parseNotebookId(value: unknown): ParseResult<number | null | undefined> {
+    if (value === undefined || value === '') return { value: undefined }
+    if (value === null) return { value: null }
+
+    const id = typeof value === 'string' ? Number(value) : value
+    if (typeof id !== 'number' || !Number.isSafeInteger(id) || id <= 0) {
+        return { error: 'notebook must be a notebook id' }
+    }
+    return { value: id }
+}
+
+// Whether the notebook exists and belongs to the user
+export async function ownsNotebook(userId: string, notebookId: number): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('notebooks')
+        .select('id')
+        .eq('id', notebookId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+    if (error) throw error
+    return !!data
+}
@@ -0,0 +1,45 @@
+// Keyset pagination cursors for entry lists
+//
+// A cursor points at a single entry by (entry_date, id), so pages stay stable
+// while new entries are written in between requests.
+
+export type CursorDirection = 'next' | 'prev'
+
+export interface EntryCursor {
+    entryDate: string
+    id: number
+}
+
+export function encodeCursor(entry: { entry_date: string; id: number }): string {
+    return Buffer.from(JSON.stringify([entry.entry_date, entry.id])).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): EntryCursor | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+        if (!Array.isArray(decoded) || decoded.length !== 2) return null
+
+        const [entryDate, id] = decoded
+        if (typeof entryDate !== 'string' || isNaN(Date.parse(entryDate)) || !Number.isInteger(id)) {
+            return null
+        }
+
+        return { entryDate, id }
+    } catch {
+        return null
+    }
+}
+
+// PostgREST filter selecting entries after the cursor in the given direction.
+// 'next' walks towards older entries, 'prev' towards newer ones.
+export function cursorFilter(cursor: EntryCursor, direction: CursorDirection): string {
+    const op = direction === 'next' ? 'lt' : 'gt'
+    return `entry_date.${op}."${cursor.entryDate}",and(entry_date.eq."${cursor.entryDate}",id.${op}.${cursor.id})`
+}
+
+// Page size from a ?limit= value: the default when missing or not a number, clamped to 1..max
+export function parseLimit(value: string | undefined, fallback: number, max: number): number {
+    const limit = parseInt(value || '')
+    if (!Number.isFinite(limit)) return fallback
+    return Math.min(Math.max(limit, 1), max)
+}
@@ -0,0 +1,182 @@
+// Re-embedding entries after the embedding model changes
+//
+// Every stored embedding records the provider, model and dimension that made
+// it, and search only compares vectors from the model in use. A reindex walks
+// the entries embedded by anything else in id order, queueing one batch at a
+// time for the embedding worker and waiting for the batch to finish (plus a
+// pause) before queueing the next, so the embedding service isn't flooded.
+// What is stale is read from the database, so starting a reindex again after
+// it stopped or the server restarted carries on where it left off.
+
+import { supabase } from './supabase'
+import { assertIndexDimension, getEmbeddingProvider } from './embeddings'
+import { enqueueStaleEmbeddings } from './embedding-queue'
+
+type ParseResult<T> = { value: T } | { error: string }
+
+const DEFAULT_BATCH_SIZE = 50
+const MAX_BATCH_SIZE = 500
+const DEFAULT_DELAY_SECONDS = 5
+const MAX_DELAY_SECONDS = 600
+// How often a running batch is checked for completion
+const POLL_SECONDS = 2
+
+export interface ReindexOptions {
+    batchSize: number
+    delaySeconds: number
+}
+
+export interface EmbeddingVersion {
+    provider: string
+    model: string
+    dimension: number
+}
+
+export interface ReindexRun {
+    status: 'running' | 'finished' | 'failed'
+    target: EmbeddingVersion
+    batch_size: number
+    delay_seconds: number
+    started_at: string
+    finished_at: string | null
+    batches: number
+    queued: number
+    last_entry_id: number
+    error: string | null
+}
+
+export interface ReindexProgress {
+    target: EmbeddingVersion
+    total: number
+    up_to_date: number
+    stale: number
+    queued: number
+    failed: number
+    percent: number
+    run: ReindexRun | null
+}
+
+let currentRun: ReindexRun | null = null
+
+function parseWholeNumber(value: unknown, name: string, fallback: number, min: number, max: number): ParseResult<number> {
+    if (value === undefined || value === null) return { value: fallback }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        return { error: `${name} must be a whole number from ${min} to ${max}` }
+    }
+    return { value }
+}
+
+export function parseReindexOptions(body: Record<string, unknown>): ParseResult<ReindexOptions> {
+    const batchSize = parseWholeNumber(body.batch_size, 'batch_size', DEFAULT_BATCH_SIZE, 1, MAX_BATCH_SIZE)
+    if ('error' in batchSize) return batchSize
+    const delaySeconds = parseWholeNumber(body.delay_seconds, 'delay_seconds', DEFAULT_DELAY_SECONDS, 0, MAX_DELAY_SECONDS)
+    if ('error' in delaySeconds) return delaySeconds
+
+    return { value: { batchSize: batchSize.value, delaySeconds: delaySeconds.value } }
+}
+
+function currentVersion(): EmbeddingVersion {
+    const { name, model, dimension } = getEmbeddingProvider()
+    return { provider: name, model, dimension }
+}
+
+// How many live entries are embedded by the configured model, and the current run if any
+export async function getReindexProgress(): Promise<ReindexProgress> {
+    const target = currentVersion()
+    const { data, error } = await supabase.rpc('get_embedding_index_status', {
+        p_provider: target.provider,
+        p_model: target.model,
+        p_dimension: target.dimension
+    })
+
+    if (error) {
+        throw new Error(`Failed to read embedding index status: ${error.message}`)
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) || {}
+    const total = Number(row.total ?? 0)
+    const upToDate = Number(row.up_to_date ?? 0)
+
+    return {
+        target,
+        total,
+        up_to_date: upToDate,
+        stale: Number(row.stale ?? 0),
+        queued: Number(row.queued ?? 0),
+        failed: Number(row.failed ?? 0),
+        percent: total === 0 ? 100 : Math.floor((upToDate / total) * 100),
+        run: currentRun
+    }
+}
+
+const sleep = (seconds: number) => new Promise((resolve) => setTimeout(resolve, seconds * 1000))
+
+// Wait until the worker has embedded (or given up on) every entry of a batch
+async function waitForBatch(ids: number[]): Promise<void> {
+    while (true) {
+        const { count, error } = await supabase
+            .from('embedding_jobs')
+            .select('entry_id', { count: 'exact', head: true })
+            .in('entry_id', ids)
+            .is('failed_at', null)
+
+        if (error) {
+            throw new Error(`Failed to check reindex batch: ${error.message}`)
+        }
+        if (!count) return
+        await sleep(POLL_SECONDS)
+    }
+}
+
+async function runReindex(run: ReindexRun): Promise<void> {
+    try {
+        while (true) {
+            const ids = await enqueueStaleEmbeddings(run.last_entry_id, run.batch_size)
+            if (ids.length === 0) break
+
+            run.batches += 1
+            run.queued += ids.length
+            run.last_entry_id = ids[ids.length - 1]!
+            console.log(`🔁 Reindex batch ${run.batches}: queued ${ids.length} entries (up to id ${run.last_entry_id})`)
+
+            await waitForBatch(ids)
+            await sleep(run.delay_seconds)
+        }
+
+        run.status = 'finished'
+        console.log(`✅ Reindex for ${run.target.provider}/${run.target.model} finished after queueing ${run.queued} entries`)
+    } catch (error) {
+        run.status = 'failed'
+        run.error = error instanceof Error ? error.message : String(error)
+        console.error('❌ Reindex failed:', run.error)
+    } finally {
+        run.finished_at = new Date().toISOString()
+    }
+}
+
+// Start re-embedding stale entries in the background. Returns the running run
+// instead of starting another one when a reindex is already in progress.
+// Throws EmbeddingDimensionError when the provider doesn't fit the index.
+export async function startReindex(options: ReindexOptions): Promise<{ run: ReindexRun; started: boolean }> {
+    await assertIndexDimension()
+    if (currentRun?.status === 'running') {
+        return { run: currentRun, started: false }
+    }
+
+    const run: ReindexRun = {
+        status: 'running',
+        target: currentVersion(),
+        batch_size: options.batchSize,
+        delay_seconds: options.delaySeconds,
+        started_at: new Date().toISOString(),
+        finished_at: null,
+        batches: 0,
+        queued: 0,
+        last_entry_id: 0,
+        error: null
+    }
+    currentRun = run
+    void runReindex(run)
+
+    return { run, started: true }
+}
@@ -0,0 +1,190 @@
+// Hybrid retrieval: keyword and vector search fused with reciprocal rank fusion
+//
+// Full-text search finds exact names and rare words that embeddings blur;
+// vector search finds entries that mean the same thing in other words. Both run
+// in parallel and each entry scores sum(weight / (k + rank)) over the rankings
+// it appears in, so scores on different scales never have to be compared.
+// When one side fails (the embedding service is down, say) the other's ranking
+// is used alone.
+
+import { supabase } from './supabase'
+import { embedQuery, getEmbeddingProvider } from './embeddings'
+
+type ParseResult<T> = { value: T } | { error: string }
+
+const DEFAULT_RRF_K = parseFloat(process.env.RETRIEVAL_RRF_K || '60')
+const DEFAULT_KEYWORD_WEIGHT = parseFloat(process.env.RETRIEVAL_KEYWORD_WEIGHT || '1')
+const DEFAULT_VECTOR_WEIGHT = parseFloat(process.env.RETRIEVAL_VECTOR_WEIGHT || '1')
+const DEFAULT_MATCH_THRESHOLD = parseFloat(process.env.RETRIEVAL_MATCH_THRESHOLD || '0.3')
+// Each ranking contributes this many times the requested results as candidates
+const CANDIDATE_FACTOR = 3
+const MAX_CANDIDATES = 100
+
+export interface FusionOptions {
+    k: number
+    keywordWeight: number
+    vectorWeight: number
+}
+
+export interface HybridSearchOptions extends Partial<FusionOptions> {
+    limit: number
+    tags?: string[] | null
+    notebookId?: number | null
+    matchThreshold?: number
+}
+
+export interface HybridQuery {
+    // What the user asked, embedded for the vector ranking
+    text: string
+    // to_tsquery expression for the keyword ranking; null skips it
+    tsQuery: string | null
+}
+
+export interface HybridResult {
+    id: number
+    content: unknown
+    text_content: string | null
+    tags: string[]
+    entry_date: string
+    created_at: string
+    score: number
+    keyword_rank: number | null
+    vector_rank: number | null
+    // From the keyword ranking: ts_rank_cd and a highlighted snippet
+    rank: number | null
+    snippet: string | null
+    // From the vector ranking: the best matching passage and its offsets in text_content
+    similarity: number | null
+    passage: string | null
+    start_offset: number | null
+    end_offset: number | null
+}
+
+function parseNumber(value: string | undefined, name: string, fallback: number, min: number, max: number): ParseResult<number> {
+    if (value === undefined || value === '') return { value: fallback }
+    const number = Number(value)
+    if (!Number.isFinite(number) || number < min || number > max) {
+        return { error: `${name} must be a number from ${min} to ${max}` }
+    }
+    return { value: number }
+}
+
+// Tuning from query parameters (k, keyword_weight, vector_weight), defaulting to the environment
+export function parseFusionOptions(raw: Record<string, string | undefined>): ParseResult<FusionOptions> {
+    const k = parseNumber(raw.k, 'k', DEFAULT_RRF_K, 0, 1000)
+    if ('error' in k) return k
+    const keywordWeight = parseNumber(raw.keyword_weight, 'keyword_weight', DEFAULT_KEYWORD_WEIGHT, 0, 10)
+    if ('error' in keywordWeight) return keywordWeight
+    const vectorWeight = parseNumber(raw.vector_weight, 'vector_weight', DEFAULT_VECTOR_WEIGHT, 0, 10)
+    if ('error' in vectorWeight) return vectorWeight
+
+    return { value: { k: k.value, keywordWeight: keywordWeight.value, vectorWeight: vectorWeight.value } }
+}
+
+async function keywordRanking(userId: string, tsQuery: string, count: number, options: HybridSearchOptions): Promise<any[]> {
+    const { data, error } = await supabase.rpc('search_entries', {
+        p_query: tsQuery,
+        p_user_id: userId,
+        p_limit: count,
+        p_notebook_id: options.notebookId ?? null,
+        p_tags: options.tags && options.tags.length > 0 ? options.tags : null
+    })
+
+    if (error) throw new Error(`Keyword search failed: ${error.message}`)
+    return data || []
+}
+
+// Best passage per entry, in order of similarity
+async function vectorRanking(userId: string, text: string, count: number, options: HybridSearchOptions): Promise<any[]> {
+    const queryEmbedding = await embedQuery(text)
+    const embedder = getEmbeddingProvider()
+
+    // Passages, not entries: fetch extra so enough distinct entries remain
+    const { data, error } = await supabase.rpc('match_entries', {
+        query_embedding: queryEmbedding,
+        match_threshold: options.matchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+        match_count: count * 2,
+        p_user_id: userId,
+        p_tags: options.tags && options.tags.length > 0 ? options.tags : null,
+        p_notebook_id: options.notebookId ?? null,
+        p_embedding_provider: embedder.name,
+        p_embedding_model: embedder.model
+    })
+
+    if (error) throw new Error(`Vector search failed: ${error.message}`)
+
+    const seen = new Set<number>()
+    return (data || []).filter((row: any) => !seen.has(row.id) && seen.add(row.id)).slice(0, count)
+}
+
+// Run both searches and fuse them. Throws only when neither could run.
+export async function hybridSearch(userId: string, query: HybridQuery, options: HybridSearchOptions): Promise<HybridResult[]> {
+    const k = options.k ?? DEFAULT_RRF_K
+    const keywordWeight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT
+    const vectorWeight = options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT
+    const count = Math.min(options.limit * CANDIDATE_FACTOR, MAX_CANDIDATES)
+
+    const [keyword, vector] = await Promise.allSettled([
+        query.tsQuery && keywordWeight > 0 ? keywordRanking(userId, query.tsQuery, count, options) : Promise.resolve([]),
+        vectorWeight > 0 ? vectorRanking(userId, query.text, count, options) : Promise.resolve([])
+    ])
+
+    if (keyword.status === 'rejected' && vector.status === 'rejected') {
+        throw new Error(`${keyword.reason instanceof Error ? keyword.reason.message : keyword.reason}; ` +
+            `${vector.reason instanceof Error ? vector.reason.message : vector.reason}`)
+    }
+    if (keyword.status === 'rejected') console.error('❌ Hybrid search is using vectors only:', keyword.reason)
+    if (vector.status === 'rejected') console.error('❌ Hybrid search is using keywords only:', vector.reason)
+
+    const results = new Map<number, HybridResult>()
+    const resultFor = (row: any): HybridResult => {
+        let result = results.get(row.id)
+        if (!result) {
+            result = {
+                id: row.id,
+                content: row.content,
+                text_content: row.text_content,
+                tags: row.tags || [],
+                entry_date: row.entry_date,
+                created_at: row.created_at,
+                score: 0,
+                keyword_rank: null,
+                vector_rank: null,
+                rank: null,
+                snippet: null,
+                similarity: null,
+                passage: null,
+                start_offset: null,
+                end_offset: null
+            }
+            results.set(row.id, result)
+        }
+        return result
+    }
+
+    if (keyword.status === 'fulfilled') {
+        keyword.value.forEach((row, index) => {
+            const result = resultFor(row)
+            result.keyword_rank = index + 1
+            result.rank = row.rank
+            result.snippet = row.snippet
+            result.score += keywordWeight / (k + index + 1)
+        })
+    }
+
+    if (vector.status === 'fulfilled') {
+        vector.value.forEach((row, index) => {
+            const result = resultFor(row)
+            result.vector_rank = index + 1
+            result.similarity = row.similarity
+            result.passage = row.passage
+            result.start_offset = row.start_offset
+            result.end_offset = row.end_offset
+            result.score += vectorWeight / (k + index + 1)
+        })
+    }
+
+    return [...results.values()]
+        .sort((a, b) => b.score - a.score || Date.parse(b.entry_date) - Date.parse(a.entry_date))
+        .slice(0, options.limit)
+}
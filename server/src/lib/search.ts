@@ -0,0 +1,70 @@
+// Keyword search query parsing
+//
+// Turns what the user typed into a Postgres to_tsquery expression:
+//   "exact phrase"  -> words must appear next to each other
+//   word*           -> prefix match
+//   -word           -> entries must not contain the word
+//   a OR b          -> either term matches
+// Every other term is required.
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+const TOKEN_PATTERN = /(-?)"([^"]*)"?|(\S+)/g
+
+function extractWords(text: string): string[] {
+    return text.match(WORD_PATTERN) || []
+}
+
+function phrase(words: string[]): string {
+    return words.length > 1 ? `(${words.join(' <-> ')})` : words[0]!
+}
+
+export function buildTsQuery(input: string): string | null {
+    const terms: string[] = []
+    const operators: string[] = []
+    let nextOperator = '&'
+
+    for (const match of input.matchAll(TOKEN_PATTERN)) {
+        const [, negation, quoted, bare] = match
+
+        if (bare === 'OR') {
+            if (terms.length > 0) nextOperator = '|'
+            continue
+        }
+
+        let term: string | null = null
+
+        if (quoted !== undefined) {
+            const words = extractWords(quoted)
+            if (words.length > 0) {
+                term = `${negation ? '!' : ''}${phrase(words)}`
+            }
+        } else if (bare) {
+            const isNegated = bare.startsWith('-')
+            const isPrefix = bare.endsWith('*')
+            const words = extractWords(bare)
+            if (words.length > 0) {
+                if (isPrefix) {
+                    words[words.length - 1] = `${words[words.length - 1]}:*`
+                }
+                term = `${isNegated ? '!' : ''}${phrase(words)}`
+            }
+        }
+
+        if (term) {
+            if (terms.length > 0) operators.push(nextOperator)
+            terms.push(term)
+            nextOperator = '&'
+        }
+    }
+
+    if (terms.length === 0) return null
+
+    return terms.reduce((query, term, index) => `${query} ${operators[index - 1]} ${term}`)
+}
+
+// A query matching entries with any of the words in a natural-language question,
+// for ranking rather than filtering (full-text search drops the stop words)
+export function buildAnyWordTsQuery(input: string): string | null {
+    const words = [...new Set(extractWords(input.toLowerCase()))]
+    return words.length > 0 ? words.join(' | ') : null
+}
@@ -0,0 +1,178 @@
+// Read-only share links for single entries
+//
+// A share is reached through GET /shared/:token. Only a SHA-256 hash of the
+// token is stored, so the link is shown once when it is created; after that
+// it can be listed (by entry and expiry) and revoked, but not recovered.
+// A passphrase, when set, is kept as a salted scrypt hash, and a share locks
+// for a while after too many wrong guesses.
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+import { escapeHtml, yooptaToHtml } from 'shared'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+type ParseResult<T> = { value: T } | { error: string }
+
+export const MAX_SHARE_DAYS = 365
+const MIN_PASSPHRASE_LENGTH = 4
+const MAX_PASSPHRASE_LENGTH = 200
+const PASSPHRASE_KEY_LENGTH = 32
+const MAX_PASSPHRASE_ATTEMPTS = 5
+const PASSPHRASE_LOCK_MS = 15 * 60 * 1000
+
+export interface EntryShare {
+    id: string
+    entry_id: number
+    expires_at: string | null
+    passphrase_hash: string | null
+    revoked_at: string | null
+    view_count: number
+    last_viewed_at: string | null
+    created_at: string
+}
+
+// 256 bits of randomness, URL-safe
+export function generateShareToken(): string {
+    return randomBytes(32).toString('base64url')
+}
+
+export function hashShareToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+}
+
+export function shareUrl(origin: string, token: string): string {
+    const base = (process.env.PUBLIC_API_URL || origin).replace(/\/$/, '')
+    return `${base}/shared/${token}`
+}
+
+// Expiry as an ISO date; null means the link works until revoked
+export function parseShareExpiry(expiresInDays: unknown): ParseResult<string | null> {
+    if (expiresInDays === undefined || expiresInDays === null) return { value: null }
+
+    if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) ||
+        expiresInDays < 1 || expiresInDays > MAX_SHARE_DAYS) {
+        return { error: `expires_in_days must be a whole number from 1 to ${MAX_SHARE_DAYS}` }
+    }
+
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + expiresInDays)
+    return { value: expiresAt.toISOString() }
+}
+
+export function parsePassphrase(value: unknown): ParseResult<string | null> {
+    if (value === undefined || value === null || value === '') return { value: null }
+
+    if (typeof value !== 'string' || value.length < MIN_PASSPHRASE_LENGTH || value.length > MAX_PASSPHRASE_LENGTH) {
+        return { error: `passphrase must be ${MIN_PASSPHRASE_LENGTH} to ${MAX_PASSPHRASE_LENGTH} characters` }
+    }
+    return { value }
+}
+
+export async function hashPassphrase(passphrase: string): Promise<string> {
+    const salt = randomBytes(16)
+    const key = await scryptAsync(passphrase, salt, PASSPHRASE_KEY_LENGTH)
+    return `scrypt:${salt.toString('base64url')}:${key.toString('base64url')}`
+}
+
+export async function verifyPassphrase(passphrase: string, stored: string): Promise<boolean> {
+    const [scheme, salt, key] = stored.split(':')
+    if (scheme !== 'scrypt' || !salt || !key) return false
+
+    const expected = Buffer.from(key, 'base64url')
+    const given = await scryptAsync(passphrase, Buffer.from(salt, 'base64url'), expected.length)
+    return timingSafeEqual(expected, given)
+}
+
+// Passphrase attempts per share id, counted in memory from the first one until
+// the lock runs out and cleared when the right passphrase is given. A restart
+// forgets them, which only gives a guesser one more round.
+const passphraseFailures = new Map<string, { count: number; since: number }>()
+
+function activeFailures(shareId: string) {
+    const failures = passphraseFailures.get(shareId)
+    if (failures && Date.now() - failures.since >= PASSPHRASE_LOCK_MS) {
+        passphraseFailures.delete(shareId)
+        return null
+    }
+    return failures ?? null
+}
+
+// Count an attempt before the passphrase is checked, so parallel guesses can't
+// all slip past the limit while scrypt runs. False when the share is locked.
+export function reservePassphraseAttempt(shareId: string): boolean {
+    const failures = activeFailures(shareId)
+    if (!failures) {
+        passphraseFailures.set(shareId, { count: 1, since: Date.now() })
+        return true
+    }
+    if (failures.count >= MAX_PASSPHRASE_ATTEMPTS) return false
+
+    failures.count += 1
+    return true
+}
+
+export function clearPassphraseFailures(shareId: string): void {
+    passphraseFailures.delete(shareId)
+}
+
+export function isShareActive(share: Pick<EntryShare, 'expires_at' | 'revoked_at'>): boolean {
+    if (share.revoked_at) return false
+    return !share.expires_at || new Date(share.expires_at).getTime() > Date.now()
+}
+
+// API shape: everything except the passphrase hash
+export function presentShare(share: EntryShare) {
+    const { passphrase_hash: passphraseHash, ...rest } = share
+    return { ...rest, has_passphrase: passphraseHash !== null }
+}
+
+// Shared pages are standalone documents: no scripts, inline styles only
+export const SHARED_PAGE_HEADERS = {
+    'Content-Security-Policy': "default-src 'none'; img-src https: http: data:; style-src 'unsafe-inline'; form-action 'self'",
+    'X-Content-Type-Options': 'nosniff',
+    'X-Robots-Tag': 'noindex, nofollow',
+    'Referrer-Policy': 'no-referrer',
+    'Cache-Control': 'no-store'
+}
+
+function sharedPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:42rem;margin:2rem auto;padding:0 1rem;line-height:1.6;color:#222}blockquote{border-left:3px solid #ccc;margin-left:0;padding-left:1rem;color:#555}.meta{color:#777;font-size:.875rem}input{padding:.4rem;font-size:1rem}button{padding:.4rem .8rem;font-size:1rem}.error{color:#b00}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+export function renderSharedEntry(entry: { content: unknown; entry_date: string; tags: string[] | null }): string {
+    const meta = [new Date(entry.entry_date).toLocaleDateString('en-US', { dateStyle: 'long', timeZone: 'UTC' })]
+    const tags = entry.tags || []
+    if (tags.length > 0) meta.push(tags.map((tag) => `#${escapeHtml(tag)}`).join(' '))
+
+    return sharedPage('Shared memory', `<p class="meta">${meta.join(' · ')}</p>\n${yooptaToHtml(entry.content)}`)
+}
+
+export function renderPassphraseForm(wrongPassphrase: boolean): string {
+    return sharedPage('Shared memory', `<p>This memory is protected with a passphrase.</p>
+<form method="post">
+<input type="password" name="passphrase" autofocus required aria-label="Passphrase">
+<button type="submit">Open</button>
+</form>
+${wrongPassphrase ? '<p class="error">That passphrase is not right.</p>' : ''}`)
+}
+
+export function renderPassphraseLocked(): string {
+    return sharedPage('Shared memory', '<p>Too many wrong passphrases. Try again later.</p>')
+}
+
+export function renderShareUnavailable(): string {
+    return sharedPage('Link unavailable', '<p>This link has expired or was revoked.</p>')
+}
@@ -0,0 +1,94 @@
+// Blob storage for entry attachments
+//
+// STORAGE_BACKEND picks where uploaded files live: "local" (default) writes
+// them under STORAGE_DIR, "supabase" uses a Supabase Storage bucket. Keys are
+// opaque paths such as "<user>/<entry>/<attachment>".
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { supabase } from './supabase'
+
+export interface StorageBackend {
+    name: string
+    put(key: string, data: Uint8Array, contentType: string): Promise<void>
+    // null when nothing is stored under the key
+    get(key: string): Promise<Uint8Array | null>
+    remove(keys: string[]): Promise<void>
+}
+
+function createLocalStorage(directory: string): StorageBackend {
+    const root = resolve(directory)
+
+    // Keys come from our own ids, but never let one escape the storage directory
+    const pathFor = (key: string) => {
+        const path = resolve(join(root, key))
+        if (!path.startsWith(root + '/')) {
+            throw new Error(`Invalid storage key: ${key}`)
+        }
+        return path
+    }
+
+    return {
+        name: 'local',
+        async put(key, data) {
+            const path = pathFor(key)
+            await mkdir(dirname(path), { recursive: true })
+            await writeFile(path, data)
+        },
+        async get(key) {
+            try {
+                return new Uint8Array(await readFile(pathFor(key)))
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+                throw error
+            }
+        },
+        async remove(keys) {
+            await Promise.all(keys.map((key) => rm(pathFor(key), { force: true })))
+        }
+    }
+}
+
+function createSupabaseStorage(bucket: string): StorageBackend {
+    const files = () => supabase.storage.from(bucket)
+
+    return {
+        name: 'supabase',
+        async put(key, data, contentType) {
+            const { error } = await files().upload(key, data, { contentType, upsert: false })
+            if (error) throw new Error(`Storage upload failed: ${error.message}`)
+        },
+        async get(key) {
+            const { data, error } = await files().download(key)
+            if (error) {
+                // The client reports a missing object as a 400/404 StorageError
+                if (/not found/i.test(error.message)) return null
+                throw new Error(`Storage download failed: ${error.message}`)
+            }
+            return new Uint8Array(await data.arrayBuffer())
+        },
+        async remove(keys) {
+            if (keys.length === 0) return
+            const { error } = await files().remove(keys)
+            if (error) throw new Error(`Storage delete failed: ${error.message}`)
+        }
+    }
+}
+
+let storage: StorageBackend | null = null
+
+// The configured backend, created on first use
+export function getStorage(): StorageBackend {
+    if (storage) return storage
+
+    const backend = process.env.STORAGE_BACKEND || 'local'
+    if (backend === 'supabase') {
+        storage = createSupabaseStorage(process.env.STORAGE_BUCKET || 'attachments')
+    } else {
+        if (backend !== 'local') {
+            console.warn(`⚠️ Unknown STORAGE_BACKEND "${backend}", storing attachments on the local filesystem`)
+        }
+        storage = createLocalStorage(process.env.STORAGE_DIR || './uploads')
+    }
+    return storage
+}
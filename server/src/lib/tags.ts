@@ -0,0 +1,48 @@
+// Tag parsing and normalization
+//
+// Entries carry two tag lists: manual_tags (assigned explicitly) and tags, the
+// effective set used for filtering = manual tags + #hashtags found in the text.
+
+const TAG_PATTERN = /^[\p{L}\p{N}_][\p{L}\p{N}_-]{0,49}$/u
+
+// A hashtag starts after whitespace/punctuation (not inside URLs or words) and isn't purely numeric
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&/#])#([\p{L}\p{N}_][\p{L}\p{N}_-]*)/gu
+
+export function normalizeTag(tag: string): string | null {
+    const normalized = tag.trim().replace(/^#/, '').replace(/-+$/, '').toLowerCase()
+    return TAG_PATTERN.test(normalized) ? normalized : null
+}
+
+export function extractHashtags(text: string): string[] {
+    const tags: string[] = []
+
+    for (const match of text.matchAll(HASHTAG_PATTERN)) {
+        const tag = normalizeTag(match[1]!)
+        if (tag && !/^\d+$/.test(tag)) {
+            tags.push(tag)
+        }
+    }
+
+    return mergeTags(tags)
+}
+
+// Validate a manually supplied tag list; returns null if it isn't a list of valid tags
+export function parseTagList(value: unknown): string[] | null {
+    if (value === undefined || value === null) return []
+    if (!Array.isArray(value)) return null
+
+    const tags: string[] = []
+    for (const item of value) {
+        if (typeof item !== 'string') return null
+        const tag = normalizeTag(item)
+        if (!tag) return null
+        tags.push(tag)
+    }
+
+    return mergeTags(tags)
+}
+
+// Combine tag lists, removing duplicates while keeping first-seen order
+export function mergeTags(...lists: string[][]): string[] {
+    return [...new Set(lists.flat())]
+}
@@ -0,0 +1,122 @@
+// Entry templates and their {{placeholders}}
+//
+// A template is a Yoopta document. Built-in templates ship with the server and
+// are addressed by key ('daily-review'); user templates live in the templates
+// table and are addressed by id. Placeholders are filled in when a template is
+// applied, in the caller's time zone; unknown ones are left as written.
+
+import { markdownToYoopta } from 'shared'
+import type { YooptaContent, YooptaNode } from 'shared'
+
+type ParseResult<T> = { value: T } | { error: string }
+
+export const MAX_TEMPLATE_NAME_LENGTH = 80
+
+export const TEMPLATE_VARIABLES = ['date', 'weekday', 'prompt'] as const
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]
+
+export interface BuiltinTemplate {
+    key: string
+    name: string
+    content: YooptaContent
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+// One prompt per day, the same for every template applied that day
+const WRITING_PROMPTS = [
+    'What made today different from yesterday?',
+    'What are you looking forward to this week?',
+    'Who did you think about today, and why?',
+    'What did you learn today that surprised you?',
+    'What would you like to remember about today in a year?',
+    'What drained your energy today, and what restored it?',
+    'What is something small that went well?',
+    'What decision are you putting off?',
+    'Where did you feel most like yourself today?',
+    'What would you tell yourself from a month ago?'
+]
+
+function builtin(key: string, name: string, markdown: string): BuiltinTemplate {
+    return { key, name, content: markdownToYoopta(markdown).content }
+}
+
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+    builtin('daily-review', 'Daily review', [
+        '**{{weekday}}, {{date}}**',
+        'What went well today?',
+        'What could have gone better?',
+        'What will I focus on tomorrow?',
+        '> {{prompt}}'
+    ].join('\n\n')),
+    builtin('gratitude', 'Gratitude', [
+        '**Grateful on {{date}}**',
+        '1. ',
+        '2. ',
+        '3. ',
+        'Someone I appreciate today, and why:'
+    ].join('\n\n')),
+    builtin('meeting-notes', 'Meeting notes', [
+        '**Meeting — {{date}}**',
+        'Attendees:',
+        'Agenda:',
+        'Decisions:',
+        'Action items:'
+    ].join('\n\n'))
+]
+
+export function findBuiltinTemplate(key: string): BuiltinTemplate | undefined {
+    return BUILTIN_TEMPLATES.find((template) => template.key === key)
+}
+
+export function parseTemplateName(value: unknown): ParseResult<string> {
+    const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : ''
+    if (!name) return { error: 'Template name is required' }
+    if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+        return { error: `Template names are limited to ${MAX_TEMPLATE_NAME_LENGTH} characters` }
+    }
+    return { value: name }
+}
+
+// Values for every placeholder at `now` in the given (already validated) time zone
+export function templateVariables(timeZone: string, now = new Date()): Record<TemplateVariable, string> {
+    const day = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now)
+    const dayNumber = Math.floor(Date.parse(`${day}T00:00:00Z`) / 86_400_000)
+
+    return {
+        date: now.toLocaleDateString('en-US', { timeZone, dateStyle: 'long' }),
+        weekday: now.toLocaleDateString('en-US', { timeZone, weekday: 'long' }),
+        prompt: WRITING_PROMPTS[dayNumber % WRITING_PROMPTS.length]!
+    }
+}
+
+function expandNodes(nodes: YooptaNode[], values: Record<string, string>): YooptaNode[] {
+    return nodes.map((node) => {
+        if ('text' in node) {
+            return {
+                ...node,
+                text: node.text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+                    Object.hasOwn(values, name) ? values[name]! : placeholder
+                )
+            }
+        }
+        return { ...node, children: expandNodes(node.children, values) }
+    })
+}
+
+// A copy of the document with placeholders filled in. Placeholders are matched
+// within a single text leaf, so one split across formatting stays as written.
+export function expandTemplate(content: YooptaContent, values: Record<string, string>): YooptaContent {
+    return Object.fromEntries(
+        Object.entries(content).map(([id, block]) => [
+            id,
+            {
+                ...block,
+                value: block.value.map((element) => ({
+                    ...element,
+                    children: expandNodes(element.children, values)
+                }))
+            }
+        ])
+    )
+}
@@ -0,0 +1,66 @@
+import { supabase } from './supabase'
+import { removeEntryAttachments } from './attachments'
+
+// Trash configuration
+// Deleted entries stay restorable for TRASH_RETENTION_DAYS, then the purge job removes them for good.
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30')
+const PURGE_INTERVAL_MINUTES = parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '60')
+
+// When a trashed entry will be purged
+export function purgeDate(deletedAt: string): string {
+    const date = new Date(deletedAt)
+    date.setDate(date.getDate() + TRASH_RETENTION_DAYS)
+    return date.toISOString()
+}
+
+// Permanently delete entries that have been in the trash longer than the retention period
+export async function purgeTrash(retentionDays: number = TRASH_RETENTION_DAYS): Promise<number> {
+    const cutoff = new Date()
+    cutoff.setDate(cutoff.getDate() - retentionDays)
+
+    const { data: expired, error: selectError } = await supabase
+        .from('entries')
+        .select('id')
+        .not('deleted_at', 'is', null)
+        .lt('deleted_at', cutoff.toISOString())
+
+    if (selectError) {
+        throw new Error(`Trash purge failed: ${selectError.message}`)
+    }
+
+    const ids = (expired || []).map((entry) => entry.id as number)
+    if (ids.length === 0) return 0
+
+    // Blobs first: if storage fails the entries stay in the trash for the next run
+    await removeEntryAttachments(ids)
+
+    const { data, error } = await supabase
+        .from('entries')
+        .delete()
+        .in('id', ids)
+        .select('id')
+
+    if (error) {
+        throw new Error(`Trash purge failed: ${error.message}`)
+    }
+
+    return data?.length || 0
+}
+
+// Run the purge on startup and then periodically
+export function startTrashPurgeJob() {
+    const run = async () => {
+        try {
+            const purged = await purgeTrash()
+            if (purged > 0) {
+                console.log(`🗑️ Purged ${purged} entries older than ${TRASH_RETENTION_DAYS} days from the trash`)
+            }
+        } catch (error) {
+            console.error('❌ Error purging trash:', error)
+        }
+    }
+
+    console.log(`🗑️ Trash purge job scheduled every ${PURGE_INTERVAL_MINUTES} minutes (retention: ${TRASH_RETENTION_DAYS} days)`)
+    run()
+    return setInterval(run, PURGE_INTERVAL_MINUTES * 60 * 1000)
+}
@@ -0,0 +1,72 @@
+// Pluggable weather lookup for entry metadata
+//
+// Weather can always be entered by hand. When WEATHER_PROVIDER names one of the
+// providers below, the API can also fill it in from a location label.
+
+import type { EntryWeather, WeatherCondition } from './metadata'
+
+export interface WeatherProvider {
+    name: string
+    current(location: string): Promise<EntryWeather | null>
+}
+
+// WMO weather interpretation codes, as returned by Open-Meteo
+function conditionFromWmoCode(code: number): WeatherCondition {
+    if (code === 0 || code === 1) return 'clear'
+    if (code === 2 || code === 3) return 'cloudy'
+    if (code === 45 || code === 48) return 'fog'
+    if (code >= 51 && code <= 57) return 'drizzle'
+    if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return 'rain'
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow'
+    return 'storm'
+}
+
+// Free, keyless provider: geocode the label, then read current conditions
+const openMeteo: WeatherProvider = {
+    name: 'open-meteo',
+    async current(location) {
+        const geocodeResponse = await fetch(
+            `https://geocoding-api.open-meteo.com/v1/search?count=1&name=${encodeURIComponent(location)}`
+        )
+        if (!geocodeResponse.ok) {
+            throw new Error(`Geocoding failed: ${geocodeResponse.status}`)
+        }
+
+        const geocode = await geocodeResponse.json() as { results?: { latitude: number; longitude: number }[] }
+        const place = geocode.results?.[0]
+        if (!place) return null
+
+        const forecastResponse = await fetch(
+            `https://api.open-meteo.com/v1/forecast?latitude=${place.latitude}&longitude=${place.longitude}&current=temperature_2m,weather_code`
+        )
+        if (!forecastResponse.ok) {
+            throw new Error(`Weather lookup failed: ${forecastResponse.status}`)
+        }
+
+        const forecast = await forecastResponse.json() as { current?: { temperature_2m: number; weather_code: number } }
+        if (!forecast.current) return null
+
+        return {
+            condition: conditionFromWmoCode(forecast.current.weather_code),
+            temperature_c: Math.round(forecast.current.temperature_2m * 10) / 10,
+            source: openMeteo.name
+        }
+    }
+}
+
+const PROVIDERS: Record<string, WeatherProvider> = {
+    [openMeteo.name]: openMeteo
+}
+
+// The configured provider, or null when weather is manual-only
+export function getWeatherProvider(): WeatherProvider | null {
+    const name = process.env.WEATHER_PROVIDER
+    if (!name) return null
+
+    const provider = PROVIDERS[name]
+    if (!provider) {
+        console.warn(`⚠️ Unknown WEATHER_PROVIDER "${name}", weather is manual only`)
+        return null
+    }
+    return provider
+}
@@ -0,0 +1,52 @@
+import { Hono } from 'hono'
+import { EmbeddingDimensionError, getQueryCacheStats } from '../lib/embeddings'
+import { getContentHashStats } from '../lib/embedding-queue'
+import { getReindexProgress, parseReindexOptions, startReindex } from '../lib/reindex'
+import { adminMiddleware, authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
+
+const admin = new Hono<{ Variables: ContextWithUser }>()
+
+// Progress of re-embedding entries with the configured model
+admin.get('/reindex', authMiddleware, adminMiddleware, async (c) => {
+    try {
+        return c.json(await getReindexProgress())
+    } catch (error) {
+        console.error('❌ Reindex progress error:', error)
+        return c.json({ error: 'Failed to read reindex progress' }, 500)
+    }
+})
+
+// Re-embed every entry whose embedding came from another model, in throttled
+// batches of batch_size with delay_seconds between them. Safe to call again:
+// a running reindex is reported rather than restarted, and a stopped one resumes.
+admin.post('/reindex', authMiddleware, adminMiddleware, async (c) => {
+    try {
+        const body = await c.req.json().catch(() => ({}))
+        const options = parseReindexOptions(body && typeof body === 'object' ? body : {})
+        if ('error' in options) {
+            return c.json({ error: options.error }, 400)
+        }
+
+        const { started } = await startReindex(options.value)
+        return c.json(await getReindexProgress(), started ? 202 : 200)
+    } catch (error) {
+        if (error instanceof EmbeddingDimensionError) {
+            return c.json({ error: error.message }, 409)
+        }
+        console.error('❌ Reindex start error:', error)
+        return c.json({ error: 'Failed to start reindex' }, 500)
+    }
+})
+
+// How much embedding work the caches saved since the server started: query
+// embeddings served from the LRU, and saves that kept their embedding because
+// the normalized text hashed the same
+admin.get('/embedding-cache', authMiddleware, adminMiddleware, (c) => {
+    return c.json({
+        query_cache: getQueryCacheStats(),
+        content_hash: getContentHashStats()
+    })
+})
+
+export default admin
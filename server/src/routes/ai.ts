@@ -1,17 +1,36 @@
 import { Hono } from 'hono'
 import { supabase } from '../lib/supabase'
-import { generateEmbedding } from '../lib/embeddings'
+import { hybridSearch } from '../lib/retrieval'
+import { buildAnyWordTsQuery } from '../lib/search'
 import { requestyClient } from '../lib/requesty'
-import type { User } from '@supabase/supabase-js'
+import { extractHashtags, mergeTags, parseTagList } from '../lib/tags'
+import { unsealedFilter } from '../lib/entry-dates'
+import { parseNotebookId } from '../lib/notebooks'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
 
-interface ContextWithUser {
-    user: User
+const ai = new Hono<{ Variables: ContextWithUser }>()
+
+// How many entries search feeds the model, and how much of an entry
+// stands in for a passage when it comes from elsewhere (recent or dated entries)
+const MAX_CONTEXT_ENTRIES = 8
+const MAX_CONTEXT_CHARS = 1000
+
+// How an entry came to be in the context, for the model and the logs
+function relevanceLabel(entry: { similarity?: number | null, keyword_rank?: number | null }): string {
+    if (entry.similarity) return `${Math.round(entry.similarity * 100)}% relevant`
+    return entry.keyword_rank ? 'keyword match' : '0% relevant'
 }
 
-const ai = new Hono<{ Variables: ContextWithUser }>()
+// The text an entry contributes to the chat context: its matched passage, or its beginning
+function contextText(entry: { passage?: string | null, text_content?: string | null }): string {
+    if (entry.passage) return entry.passage
+    const text = entry.text_content || ''
+    return text.length > MAX_CONTEXT_CHARS ? `${text.slice(0, MAX_CONTEXT_CHARS)}...` : text
+}
 
-// Function to handle temporal queries (yesterday, today, last week, etc.)
-async function handleTemporalQuery(message: string, userId: string): Promise<any[]> {
+// Function to handle temporal queries (yesterday, today, last week, etc.) by the day entries are dated
+async function handleTemporalQuery(message: string, userId: string, tags: string[] = [], notebookId: number | null = null): Promise<any[]> {
     const lowerMessage = message.toLowerCase()
     const now = new Date()
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
@@ -53,13 +72,24 @@ async function handleTemporalQuery(message: string, userId: string): Promise<any
 
     console.log(`📅 Fetching entries from ${description}:`, startDate.toISOString(), 'to', endDate.toISOString())
 
-    const { data: entries, error } = await supabase
+    let query = supabase
         .from('entries')
-        .select('id, content, text_content, created_at')
+        .select('id, content, text_content, tags, entry_date, created_at')
         .eq('user_id', userId)
-        .gte('created_at', startDate.toISOString())
-        .lt('created_at', endDate.toISOString())
-        .order('created_at', { ascending: false })
+        .is('deleted_at', null)
+        .or(unsealedFilter())
+        .gte('entry_date', startDate.toISOString())
+        .lt('entry_date', endDate.toISOString())
+
+    if (tags.length > 0) {
+        query = query.contains('tags', tags)
+    }
+    if (notebookId) {
+        query = query.eq('notebook_id', notebookId)
+    }
+
+    const { data: entries, error } = await query
+        .order('entry_date', { ascending: false })
         .limit(10)
 
     if (error) {
@@ -74,28 +104,6 @@ async function handleTemporalQuery(message: string, userId: string): Promise<any
     }))
 }
 
-// Middleware to verify authentication
-async function authMiddleware(c: any, next: any) {
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const token = authHeader.split(' ')[1]
-
-    try {
-        const { data: { user }, error } = await supabase.auth.getUser(token)
-        if (error || !user) {
-            return c.json({ error: 'Invalid token' }, 401)
-        }
-
-        c.set('user', user)
-        await next()
-    } catch (error) {
-        return c.json({ error: 'Authentication failed' }, 401)
-    }
-}
-
 // Simple chat endpoint
 ai.post('/chat', authMiddleware, async (c) => {
     try {
@@ -139,9 +147,26 @@ ai.post('/chat/stream', authMiddleware, async (c) => {
 // RAG chat endpoint with vector search
 ai.post('/chat/rag', authMiddleware, async (c) => {
     try {
-        const { message } = await c.req.json()
+        const { message, tags, notebook_id } = await c.req.json()
         const user = c.get('user')
 
+        // Only search one notebook when the user is looking at one
+        const notebook = parseNotebookId(notebook_id)
+        if ('error' in notebook) {
+            return c.json({ error: notebook.error }, 400)
+        }
+        const notebookId = notebook.value ?? null
+
+        // Scope the search to tags passed explicitly or written as #hashtags in the question
+        const requestedTags = parseTagList(tags)
+        if (!requestedTags) {
+            return c.json({ error: 'Tags must be a list of words (letters, numbers, _ or -)' }, 400)
+        }
+        const scopeTags = mergeTags(requestedTags, extractHashtags(message))
+        if (scopeTags.length > 0) {
+            console.log('🏷️ Scoping search to tags:', scopeTags.join(', '))
+        }
+
         // Check if this is a temporal query (yesterday, today, last week, etc.)
         const temporalKeywords = [
             'yesterday', 'today', 'last week', 'this week', 'last month',
@@ -161,40 +186,50 @@ ai.post('/chat/rag', authMiddleware, async (c) => {
         if (isTemporalQuery) {
             // Handle temporal queries by getting entries from specific time periods
             console.log('📅 Processing temporal query:', message)
-            relevantEntries = await handleTemporalQuery(message, user.id)
+            relevantEntries = await handleTemporalQuery(message, user.id, scopeTags, notebookId)
         } else {
-            // Generate embedding for semantic queries
-            const queryEmbedding = await generateEmbedding(message)
-
-            // Use true vector search to find relevant entries
-            console.log('🔍 Performing vector search for query:', message)
-            const result = await supabase.rpc('match_entries', {
-                query_embedding: queryEmbedding,
-                match_threshold: 0.3, // Lower threshold for better recall
-                match_count: 5,
-                p_user_id: user.id
-            })
-
-            relevantEntries = result.data || []
-            searchError = result.error
+            try {
+                // Keyword and vector search together: names and rare words match
+                // exactly, everything else by meaning
+                console.log('🔍 Performing hybrid search for query:', message)
+                relevantEntries = await hybridSearch(user.id, { text: message, tsQuery: buildAnyWordTsQuery(message) }, {
+                    limit: MAX_CONTEXT_ENTRIES,
+                    tags: scopeTags,
+                    notebookId
+                })
+            } catch (retrievalError) {
+                // Neither search could run; recent entries stand in below
+                console.error('❌ Error searching for chat context:', retrievalError)
+                searchError = retrievalError
+            }
         }
 
         if (relevantEntries) {
-            console.log(`✅ Found ${relevantEntries.length} relevant entries with vector search`)
+            console.log(`✅ Found ${relevantEntries.length} relevant entries`)
             relevantEntries.forEach((entry: any, index: number) => {
-                const similarity = entry.similarity ? Math.round(entry.similarity * 100) : 0
-                console.log(`  ${index + 1}. ${similarity}% relevant: ${entry.text_content?.slice(0, 50)}...`)
+                console.log(`  ${index + 1}. ${relevanceLabel(entry)}: ${(entry.passage ?? entry.text_content)?.slice(0, 50)}...`)
             })
         }
 
         if (searchError || !relevantEntries || relevantEntries.length === 0) {
-            console.log('🔍 No vector search results, falling back to recent entries')
-            // Fallback to recent entries if vector search fails or finds nothing
-            const { data: entries, error: entriesError } = await supabase
+            console.log('🔍 No search results, falling back to recent entries')
+            // Fallback to recent entries if search fails or finds nothing
+            let fallbackQuery = supabase
                 .from('entries')
-                .select('id, content, text_content, created_at')
+                .select('id, content, text_content, tags, entry_date, created_at')
                 .eq('user_id', user.id)
-                .order('created_at', { ascending: false })
+                .is('deleted_at', null)
+                .or(unsealedFilter())
+
+            if (scopeTags.length > 0) {
+                fallbackQuery = fallbackQuery.contains('tags', scopeTags)
+            }
+            if (notebookId) {
+                fallbackQuery = fallbackQuery.eq('notebook_id', notebookId)
+            }
+
+            const { data: entries, error: entriesError } = await fallbackQuery
+                .order('entry_date', { ascending: false })
                 .limit(5)
 
             if (entriesError) {
@@ -212,10 +247,12 @@ ai.post('/chat/rag', authMiddleware, async (c) => {
         // Create context from relevant entries with similarity scores
         const context = relevantEntries && relevantEntries.length > 0
             ? `\n\nRelevant journal entries:\n${relevantEntries.map((entry: any) => {
-                const similarity = entry.similarity ? Math.round(entry.similarity * 100) : 0
-                return `- ${new Date(entry.created_at).toLocaleDateString()} (${similarity}% relevant): ${entry.text_content?.slice(0, 150) || 'No text content'}...`
+                return `- ${new Date(entry.entry_date).toLocaleDateString()} (${relevanceLabel(entry)}): ${contextText(entry) || 'No text content'}`
             }).join('\n')}`
             : '\n\nNo relevant journal entries found.'
+        const scopeNote = scopeTags.length > 0
+            ? `\n\n(Only entries tagged ${scopeTags.map(tag => `#${tag}`).join(' ')} were searched.)`
+            : ''
 
         const prompt = `You are an AI assistant that helps users analyze their journal entries. 
 The user is asking: "${message}"
@@ -241,7 +278,7 @@ Your role is to:
 3. Be helpful and supportive in your analysis
 4. If no relevant entries are found, acknowledge this and offer general journaling advice
 5. Keep responses concise and focused on the user's question` },
-            { role: 'user', content: `${message}\n\n${context}` }
+            { role: 'user', content: `${message}\n\n${context}${scopeNote}` }
         ]) as Response
 
         // Create a custom stream that includes sources
@@ -259,12 +296,21 @@ Your role is to:
                 try {
                     // Send sources in the first chunk if available
                     if (relevantEntries && relevantEntries.length > 0) {
+                        // One source per entry, pointing at its best passage (results come best first)
+                        const bestPassages = relevantEntries.filter((entry: any, index: number) =>
+                            relevantEntries.findIndex((other: any) => other.id === entry.id) === index
+                        )
                         const sourcesData = JSON.stringify({
-                            sources: relevantEntries.map((entry: any) => ({
+                            sources: bestPassages.map((entry: any) => ({
                                 id: entry.id,
-                                content: entry.text_content?.slice(0, 100) + '...' || 'No text content',
+                                content: (entry.passage ?? entry.text_content)?.slice(0, 100) + '...' || 'No text content',
                                 created_at: entry.created_at,
-                                relevance: entry.similarity || entry.relevance || 0.8
+                                entry_date: entry.entry_date,
+                                tags: entry.tags || [],
+                                relevance: entry.similarity || entry.relevance || 0.8,
+                                ...(typeof entry.start_offset === 'number'
+                                    ? { start_offset: entry.start_offset, end_offset: entry.end_offset }
+                                    : {})
                             }))
                         })
                         controller.enqueue(new TextEncoder().encode(`data: ${sourcesData}\n\n`))
@@ -0,0 +1,57 @@
+import { Hono } from 'hono'
+import { supabase } from '../lib/supabase'
+import { getStorage } from '../lib/storage'
+import { isInlineType, verifyAttachmentSignature } from '../lib/attachments'
+import { isSealed } from '../lib/entry-dates'
+
+const attachments = new Hono()
+
+// Serve an attachment. The signed URL is the credential, so this route has no
+// auth middleware and works from <img src>. It expires, and stops working as
+// soon as the entry is trashed or sealed.
+attachments.get('/:id', async (c) => {
+    try {
+        const id = c.req.param('id')
+        const signature = c.req.query('sig')
+        const expires = c.req.query('exp')
+
+        const remaining = signature && expires ? verifyAttachmentSignature(id, expires, signature) : null
+        if (remaining === null) {
+            return c.json({ error: 'Invalid or expired attachment link' }, 403)
+        }
+
+        const { data: attachment, error } = await supabase
+            .from('attachments')
+            .select('file_name, content_type, storage_key, entries(deleted_at, unlock_at)')
+            .eq('id', id)
+            .maybeSingle()
+
+        if (error) {
+            console.error('❌ Error fetching attachment:', error)
+            return c.json({ error: 'Failed to fetch attachment' }, 500)
+        }
+        const entry = attachment?.entries as { deleted_at: string | null; unlock_at: string | null } | null | undefined
+        if (!attachment || !entry || entry.deleted_at || isSealed(entry)) {
+            return c.json({ error: 'Attachment not found' }, 404)
+        }
+
+        const data = await getStorage().get(attachment.storage_key)
+        if (!data) {
+            return c.json({ error: 'Attachment not found' }, 404)
+        }
+
+        const inline = isInlineType(attachment.content_type)
+        return c.body(data, 200, {
+            'Content-Type': attachment.content_type,
+            'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+            'X-Content-Type-Options': 'nosniff',
+            // Cached no longer than the link is valid
+            'Cache-Control': `private, max-age=${remaining}`
+        })
+    } catch (error) {
+        console.error('❌ Attachment fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+export default attachments
@@ -0,0 +1,165 @@
+import { Hono, type Context } from 'hono'
+import { validateYooptaContent, isYooptaEmpty } from 'shared'
+import { supabase } from '../lib/supabase'
+import { parseMetadata } from '../lib/metadata'
+import { authMiddleware } from '../lib/auth'
+import { signContentAttachments } from '../lib/attachments'
+import type { ContextWithUser } from '../lib/auth'
+
+const drafts = new Hono<{ Variables: ContextWithUser }>()
+
+const DRAFT_COLUMNS = 'context, content, metadata, device_id, updated_at'
+
+// A draft belongs to a context: "new" for the capture editor, "entry:<id>" while editing an entry
+function parseContext(value: string | undefined): string | null {
+    if (value === 'new') return value
+    return value && /^entry:[1-9][0-9]*$/.test(value) ? value : null
+}
+
+const INVALID_CONTEXT = 'context must be "new" or "entry:<id>"'
+
+// Drafts of an entry carry its attachments, whose URLs are signed afresh on every read
+function signDraftAttachments<T extends { context: string; content: unknown }>(
+    c: Context<{ Variables: ContextWithUser }>,
+    drafts: T[]
+): Promise<T[]> {
+    const entryIdOf = (draft: T) => draft.context.startsWith('entry:') ? parseInt(draft.context.slice(6)) : null
+    return signContentAttachments(drafts, entryIdOf, c.get('user').id, new URL(c.req.url).origin)
+}
+
+// Without ?context= list every draft, newest first, so another device can offer to restore them
+drafts.get('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const rawContext = c.req.query('context')
+
+        if (rawContext === undefined) {
+            const { data, error } = await supabase
+                .from('drafts')
+                .select(DRAFT_COLUMNS)
+                .eq('user_id', user.id)
+                .order('updated_at', { ascending: false })
+
+            if (error) {
+                console.error('❌ Error fetching drafts:', error)
+                return c.json({ error: 'Failed to fetch drafts' }, 500)
+            }
+
+            return c.json({ drafts: await signDraftAttachments(c, data || []) })
+        }
+
+        const context = parseContext(rawContext)
+        if (!context) {
+            return c.json({ error: INVALID_CONTEXT }, 400)
+        }
+
+        const { data, error } = await supabase
+            .from('drafts')
+            .select(DRAFT_COLUMNS)
+            .eq('user_id', user.id)
+            .eq('context', context)
+            .maybeSingle()
+
+        if (error) {
+            console.error('❌ Error fetching draft:', error)
+            return c.json({ error: 'Failed to fetch draft' }, 500)
+        }
+
+        return c.json({ draft: data ? (await signDraftAttachments(c, [data]))[0] : null })
+    } catch (error) {
+        console.error('❌ Draft fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Save (or replace) the draft for a context. An empty document removes it.
+drafts.put('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const context = parseContext(c.req.query('context'))
+        if (!context) {
+            return c.json({ error: INVALID_CONTEXT }, 400)
+        }
+
+        const { content, metadata, device_id } = await c.req.json()
+
+        const validated = validateYooptaContent(content)
+        if ('error' in validated) {
+            return c.json({ error: `Invalid content: ${validated.error}` }, 400)
+        }
+
+        const parsedMetadata = parseMetadata(metadata)
+        if ('error' in parsedMetadata) {
+            return c.json({ error: parsedMetadata.error }, 400)
+        }
+
+        if (device_id !== undefined && (typeof device_id !== 'string' || device_id.length > 64)) {
+            return c.json({ error: 'device_id must be a short string' }, 400)
+        }
+
+        if (isYooptaEmpty(validated.value) && !parsedMetadata.value) {
+            const { error } = await supabase
+                .from('drafts')
+                .delete()
+                .eq('user_id', user.id)
+                .eq('context', context)
+
+            if (error) {
+                console.error('❌ Error clearing draft:', error)
+                return c.json({ error: 'Failed to save draft' }, 500)
+            }
+            return c.json({ draft: null })
+        }
+
+        const { data, error } = await supabase
+            .from('drafts')
+            .upsert({
+                user_id: user.id,
+                context,
+                content: validated.value,
+                metadata: parsedMetadata.value,
+                device_id: device_id ?? null,
+                updated_at: new Date().toISOString()
+            }, { onConflict: 'user_id,context' })
+            .select(DRAFT_COLUMNS)
+            .single()
+
+        if (error) {
+            console.error('❌ Error saving draft:', error)
+            return c.json({ error: 'Failed to save draft' }, 500)
+        }
+
+        return c.json({ draft: data })
+    } catch (error) {
+        console.error('❌ Draft save error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+drafts.delete('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const context = parseContext(c.req.query('context'))
+        if (!context) {
+            return c.json({ error: INVALID_CONTEXT }, 400)
+        }
+
+        const { error } = await supabase
+            .from('drafts')
+            .delete()
+            .eq('user_id', user.id)
+            .eq('context', context)
+
+        if (error) {
+            console.error('❌ Error deleting draft:', error)
+            return c.json({ error: 'Failed to delete draft' }, 500)
+        }
+
+        return c.json({ message: 'Draft deleted' })
+    } catch (error) {
+        console.error('❌ Draft delete error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+export default drafts
@@ -1,244 +1,1646 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
+import { Zip, ZipDeflate, strToU8 } from 'fflate'
 import { supabase } from '../lib/supabase'
-import { generateEmbedding } from '../lib/embeddings'
-import type { User } from '@supabase/supabase-js'
+import { enqueueEmbeddings, needsEmbedding, refreshPassages } from '../lib/embedding-queue'
+import { buildTsQuery } from '../lib/search'
+import { hybridSearch, parseFusionOptions } from '../lib/retrieval'
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../lib/pagination'
+import { purgeDate } from '../lib/trash'
+import { extractHashtags, mergeTags, normalizeTag, parseTagList } from '../lib/tags'
+import type { CursorDirection } from '../lib/pagination'
+import { ImportError, MAX_IMPORT_BYTES, parseImportFile } from '../lib/importer'
+import { entryFileName, entryTitle, isExportFormat, renderEntry, renderIndex, EXPORT_FORMATS } from '../lib/exporter'
+import type { ExportEntry, ExportIndexItem } from '../lib/exporter'
+import { isValidTimeZone, parseDateRange } from '../lib/date-range'
+import { syncEntryLinks } from '../lib/links'
+import { parseMetadata, parseMetadataFilters } from '../lib/metadata'
+import { isSealed, parseEntryDate, parseUnlockAt, unsealedFilter } from '../lib/entry-dates'
+import { ownsNotebook, parseNotebookId } from '../lib/notebooks'
+import { entryETag, parseIfMatch } from '../lib/etag'
+import { MAX_ATTACHMENT_BYTES, presentAttachment, sanitizeFileName, signContentAttachments, signEntryAttachments } from '../lib/attachments'
+import type { Attachment } from '../lib/attachments'
+import { getStorage } from '../lib/storage'
+import { generateShareToken, hashPassphrase, hashShareToken, parsePassphrase, parseShareExpiry, presentShare, shareUrl } from '../lib/shares'
+import type { EntryShare } from '../lib/shares'
+import { isYooptaEmpty, validateYooptaContent, yooptaToText } from 'shared'
+import type { YooptaContent } from 'shared'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
 
-interface ContextWithUser {
-    user: User
+const entries = new Hono<{ Variables: ContextWithUser }>()
+
+// Entries listed individually by GET /embedding-status
+const MAX_EMBEDDING_STATUS_ENTRIES = 200
+
+// Bulk operations
+const BULK_ACTIONS = ['delete', 'restore', 'add_tag', 'remove_tag', 'move_to_notebook', 're_embed']
+const MAX_BULK_IDS = 500
+
+interface BulkResult {
+    id: number
+    status: 'pending' | 'updated' | 'skipped' | 'not_found' | 'failed' | 'aborted'
+    reason?: string
+}
+
+// Import / export
+const IMPORT_BATCH_SIZE = 100
+const EXPORT_PAGE_SIZE = 200
+
+interface ImportResult {
+    file: string
+    item?: number
+    status: 'imported' | 'duplicate' | 'failed'
+    id?: number
+    created_at?: string
+    reason?: string
+}
+
+// Validate posted Yoopta content (older clients send it as a JSON string) and
+// derive its plain text. A text_content in the request body is never trusted.
+function parseEntryContent(raw: unknown): { content: YooptaContent; text_content: string } | { error: string } {
+    let value = raw
+    if (typeof raw === 'string') {
+        try {
+            value = JSON.parse(raw)
+        } catch {
+            return { error: 'content must be Yoopta JSON' }
+        }
+    }
+
+    const validated = validateYooptaContent(value)
+    if ('error' in validated) {
+        return { error: `Invalid content: ${validated.error}` }
+    }
+    if (isYooptaEmpty(validated.value)) {
+        return { error: 'Entry is empty' }
+    }
+
+    return { content: validated.value, text_content: yooptaToText(validated.value) }
+}
+
+// Queue entries for the embedding worker; saving never waits on embedding.
+// Returns whether they were queued; failures are logged, never thrown, and the
+// entries stay 'pending' until queued again.
+async function queueEmbeddings(userId: string, entryIds: number[]): Promise<boolean> {
+    try {
+        await enqueueEmbeddings(userId, entryIds)
+        return true
+    } catch (error) {
+        console.error('❌ Error queueing embeddings:', error)
+        return false
+    }
+}
+
+// After a save that changed the text but kept the embedding (the text normalizes
+// the same), point its passages at the new text, re-embedding when they don't line up
+async function realignPassages(userId: string, entryId: number, content: unknown): Promise<void> {
+    try {
+        if (await refreshPassages(entryId, content)) return
+    } catch (error) {
+        console.error('❌ Error updating passages:', error)
+    }
+    await queueEmbeddings(userId, [entryId])
+}
+
+// Attachment URLs in content expire, so entries leave with freshly signed ones
+function withSignedAttachments<T extends { id: number; content?: unknown }>(
+    c: Context<{ Variables: ContextWithUser }>,
+    entries: T[]
+): Promise<T[]> {
+    return signEntryAttachments(entries, c.get('user').id, new URL(c.req.url).origin)
+}
+
+async function withSignedAttachment<T extends { id: number; content?: unknown } | null>(
+    c: Context<{ Variables: ContextWithUser }>,
+    entry: T
+): Promise<T> {
+    return entry ? (await withSignedAttachments(c, [entry]))[0]! : entry
 }
 
-const entries = new Hono<{ Variables: ContextWithUser }>()
+// Look up a version of a live entry, falling back to the entry itself for the current version.
+// Trashed entries are not found; sealed ones come back as { sealed } so the route can refuse like GET /:id.
+async function findEntryVersion(entryId: number, userId: string, versionNumber: number) {
+    const { data: entry, error: entryError } = await supabase
+        .from('entries')
+        .select('id, version, content, text_content, updated_at, unlock_at')
+        .eq('id', entryId)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+    if (entryError) throw entryError
+    if (!entry) return null
+    if (isSealed(entry)) return { sealed: true as const, unlock_at: entry.unlock_at as string }
+
+    if (entry.version === versionNumber) {
+        return {
+            version: entry.version,
+            content: entry.content,
+            text_content: entry.text_content,
+            saved_at: entry.updated_at,
+            current: true
+        }
+    }
+
+    const { data: version, error } = await supabase
+        .from('entry_versions')
+        .select('version, content, text_content, saved_at')
+        .eq('entry_id', entryId)
+        .eq('user_id', userId)
+        .eq('version', versionNumber)
+        .maybeSingle()
+
+    if (error) throw error
+    if (!version) return null
+
+    return { ...version, current: false }
+}
+
+// Get entries with cursor pagination (newest entry_date first). Sealed entries are left out.
+entries.get('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const limit = parseLimit(c.req.query('limit'), 10, 100)
+        const cursorParam = c.req.query('cursor')
+        const direction: CursorDirection = c.req.query('direction') === 'prev' ? 'prev' : 'next'
+        const pageParam = c.req.query('page')
+        const tagParam = c.req.query('tag')
+
+        const range = parseDateRange(c.req.query('from'), c.req.query('to'))
+        if (!range) {
+            return c.json({ error: 'from and to must be valid dates, with from before to' }, 400)
+        }
+
+        const notebook = parseNotebookId(c.req.query('notebook'))
+        if ('error' in notebook) {
+            return c.json({ error: notebook.error }, 400)
+        }
+
+        let query = supabase
+            .from('entries')
+            .select('*')
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .or(unsealedFilter())
+
+        if (notebook.value) query = query.eq('notebook_id', notebook.value)
+
+        if (range.start) query = query.gte('entry_date', range.start)
+        if (range.end) query = query.lt('entry_date', range.end)
+
+        const metadataFilters = parseMetadataFilters(c.req.query())
+        if ('error' in metadataFilters) {
+            return c.json({ error: metadataFilters.error }, 400)
+        }
+        for (const { column, operator, value } of metadataFilters.value) {
+            query = query.filter(column, operator, value)
+        }
+
+        if (tagParam) {
+            const tag = normalizeTag(tagParam)
+            if (!tag) {
+                return c.json({ error: 'Invalid tag' }, 400)
+            }
+            query = query.contains('tags', [tag])
+        }
+
+        // Legacy offset pagination, kept while older clients move to cursors
+        const page = pageParam && !cursorParam ? Math.max(parseInt(pageParam) || 1, 1) : null
+
+        if (page) {
+            const offset = (page - 1) * limit
+            query = query
+                .order('entry_date', { ascending: false })
+                .order('id', { ascending: false })
+                .range(offset, offset + limit)
+        } else {
+            if (cursorParam) {
+                const cursor = decodeCursor(cursorParam)
+                if (!cursor) {
+                    return c.json({ error: 'Invalid cursor' }, 400)
+                }
+                query = query.or(cursorFilter(cursor, direction))
+            }
+
+            // Walking backwards means reading upwards from the cursor, then flipping
+            const ascending = direction === 'prev'
+            query = query
+                .order('entry_date', { ascending })
+                .order('id', { ascending })
+                .limit(limit + 1)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+            console.error('Error fetching entries:', error)
+            return c.json({ error: 'Failed to fetch entries' }, 500)
+        }
+
+        // One extra row is fetched to know whether another page exists
+        const rows = data || []
+        const hasMore = rows.length > limit
+        const pageEntries = rows.slice(0, limit)
+        if (!page && direction === 'prev') {
+            pageEntries.reverse()
+        }
+
+        // Count incoming links so the list can show backlinks without a request per entry
+        const backlinkCounts = new Map<number, number>()
+        if (pageEntries.length > 0) {
+            const { data: counts, error: countsError } = await supabase.rpc('get_backlink_counts', {
+                p_ids: pageEntries.map((entry) => entry.id),
+                p_user_id: user.id
+            })
+
+            if (countsError) {
+                console.error('Error counting backlinks:', countsError)
+            }
+            for (const row of (counts || []) as { target_id: number; count: number }[]) {
+                backlinkCounts.set(row.target_id, Number(row.count))
+            }
+        }
+
+        const first = pageEntries[0]
+        const last = pageEntries[pageEntries.length - 1]
+        const olderExist = direction === 'next' ? hasMore : true
+        // The first page (no cursor, or page 1) is the newest, so there's nothing before it
+        const newerExist = page ? page > 1 : cursorParam ? direction === 'next' || hasMore : false
+
+        return c.json({
+            entries: (await withSignedAttachments(c, pageEntries)).map((entry) => ({ ...entry, backlink_count: backlinkCounts.get(entry.id) ?? 0 })),
+            pagination: {
+                limit,
+                hasMore,
+                nextCursor: last && olderExist ? encodeCursor(last) : null,
+                prevCursor: !newerExist ? null : first ? encodeCursor(first) : cursorParam || null,
+                ...(page ? { page } : {})
+            }
+        })
+    } catch (error) {
+        console.error('Entries fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Keyword search over entry text with ranked results and highlighted snippets.
+// mode=hybrid fuses it with vector search (tuned with k, keyword_weight and
+// vector_weight), so the two can be compared on the same query.
+entries.get('/search', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const query = (c.req.query('q') || '').trim()
+        const limit = parseLimit(c.req.query('limit'), 20, 50)
+        const mode = c.req.query('mode') || 'keyword'
+
+        if (!query) {
+            return c.json({ error: 'Search query is required' }, 400)
+        }
+
+        if (mode !== 'keyword' && mode !== 'hybrid') {
+            return c.json({ error: 'mode must be keyword or hybrid' }, 400)
+        }
+
+        const notebook = parseNotebookId(c.req.query('notebook'))
+        if ('error' in notebook) {
+            return c.json({ error: notebook.error }, 400)
+        }
+
+        const tsQuery = buildTsQuery(query)
+
+        if (mode === 'hybrid') {
+            const fusion = parseFusionOptions(c.req.query())
+            if ('error' in fusion) {
+                return c.json({ error: fusion.error }, 400)
+            }
+
+            console.log('🔎 Hybrid search:', query)
+
+            try {
+                const results = await hybridSearch(user.id, { text: query, tsQuery }, {
+                    ...fusion.value,
+                    limit,
+                    notebookId: notebook.value ?? null
+                })
+                return c.json({ query, mode, results: await withSignedAttachments(c, results) })
+            } catch (error) {
+                console.error('Error in hybrid search:', error)
+                return c.json({ error: 'Failed to search entries' }, 500)
+            }
+        }
+
+        if (!tsQuery) {
+            return c.json({ query, mode, results: [] })
+        }
+
+        console.log('🔎 Keyword search:', tsQuery)
+
+        const { data: results, error } = await supabase.rpc('search_entries', {
+            p_query: tsQuery,
+            p_user_id: user.id,
+            p_limit: limit,
+            p_notebook_id: notebook.value ?? null
+        })
+
+        if (error) {
+            console.error('Error searching entries:', error)
+            return c.json({ error: 'Failed to search entries' }, 500)
+        }
+
+        return c.json({ query, mode, results: await withSignedAttachments(c, results || []) })
+    } catch (error) {
+        console.error('Entries search error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Which live entries are not (yet) searchable by meaning: counts per embedding
+// status, plus the pending and failed entries with their retry state
+entries.get('/embedding-status', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+
+        const countStatus = (status: string) => supabase
+            .from('entries')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', user.id)
+            .eq('embedding_status', status)
+            .is('deleted_at', null)
+            .or(unsealedFilter())
+
+        const [pending, ready, failed, { data: waiting, error }] = await Promise.all([
+            countStatus('pending'),
+            countStatus('ready'),
+            countStatus('failed'),
+            supabase
+                .from('entries')
+                .select('id, embedding_status, entry_date')
+                .eq('user_id', user.id)
+                .neq('embedding_status', 'ready')
+                .is('deleted_at', null)
+                .or(unsealedFilter())
+                .order('entry_date', { ascending: false })
+                .limit(MAX_EMBEDDING_STATUS_ENTRIES)
+        ])
+
+        const countError = pending.error || ready.error || failed.error
+        if (error || countError) {
+            console.error('❌ Error fetching embedding status:', error || countError)
+            return c.json({ error: 'Failed to fetch embedding status' }, 500)
+        }
+
+        const ids = (waiting || []).map((entry) => entry.id as number)
+        const { data: jobs, error: jobsError } = ids.length > 0
+            ? await supabase
+                .from('embedding_jobs')
+                .select('entry_id, attempts, run_after, last_error')
+                .in('entry_id', ids)
+            : { data: [], error: null }
+
+        if (jobsError) {
+            console.error('❌ Error fetching embedding jobs:', jobsError)
+            return c.json({ error: 'Failed to fetch embedding status' }, 500)
+        }
+
+        const jobsByEntry = new Map((jobs || []).map((job) => [job.entry_id as number, job]))
+
+        return c.json({
+            counts: {
+                pending: pending.count ?? 0,
+                ready: ready.count ?? 0,
+                failed: failed.count ?? 0
+            },
+            entries: (waiting || []).map((entry) => {
+                const job = jobsByEntry.get(entry.id)
+                return {
+                    id: entry.id,
+                    embedding_status: entry.embedding_status,
+                    entry_date: entry.entry_date,
+                    attempts: job?.attempts ?? 0,
+                    next_attempt_at: entry.embedding_status === 'pending' ? job?.run_after ?? null : null,
+                    last_error: job?.last_error ?? null
+                }
+            })
+        })
+    } catch (error) {
+        console.error('❌ Embedding status error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Per-day entry and word counts for a year, for the calendar heatmap
+entries.get('/calendar', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const year = parseInt(c.req.query('year') || String(new Date().getFullYear()))
+        const timeZone = c.req.query('tz') || 'UTC'
+
+        if (!Number.isInteger(year) || year < 1970 || year > 9999) {
+            return c.json({ error: 'Invalid year' }, 400)
+        }
+        if (!isValidTimeZone(timeZone)) {
+            return c.json({ error: 'Invalid time zone' }, 400)
+        }
+
+        const notebook = parseNotebookId(c.req.query('notebook'))
+        if ('error' in notebook) {
+            return c.json({ error: notebook.error }, 400)
+        }
+
+        const { data, error } = await supabase.rpc('get_entry_calendar', {
+            p_year: year,
+            p_time_zone: timeZone,
+            p_user_id: user.id,
+            p_notebook_id: notebook.value ?? null
+        })
+
+        if (error) {
+            console.error('❌ Error fetching entry calendar:', error)
+            return c.json({ error: 'Failed to fetch calendar' }, 500)
+        }
+
+        const days = (data || []).map((day: { day: string; entry_count: number; word_count: number }) => ({
+            date: day.day,
+            count: Number(day.entry_count),
+            words: Number(day.word_count)
+        }))
+
+        return c.json({ year, timeZone, days })
+    } catch (error) {
+        console.error('❌ Entry calendar error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// List entries in the trash, most recently deleted first
+entries.get('/trash', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const limit = parseLimit(c.req.query('limit'), 50, 100)
+
+        const { data: trashed, error } = await supabase
+            .from('entries')
+            .select('id, content, text_content, created_at, updated_at, deleted_at')
+            .eq('user_id', user.id)
+            .not('deleted_at', 'is', null)
+            .order('deleted_at', { ascending: false })
+            .limit(limit)
+
+        if (error) {
+            console.error('Error fetching trash:', error)
+            return c.json({ error: 'Failed to fetch trash' }, 500)
+        }
+
+        return c.json({
+            entries: (trashed || []).map((entry) => ({
+                ...entry,
+                purge_at: purgeDate(entry.deleted_at)
+            }))
+        })
+    } catch (error) {
+        console.error('Trash fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Export entries as a zip with one file per entry plus an index, streamed while
+// entries are read page by page (oldest first). Sealed entries stay out until they open.
+entries.get('/export', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const format = c.req.query('format') || 'markdown'
+
+        if (!isExportFormat(format)) {
+            return c.json({ error: `Unknown format. Expected one of: ${EXPORT_FORMATS.join(', ')}` }, 400)
+        }
+
+        const range = parseDateRange(c.req.query('from'), c.req.query('to'))
+        if (!range) {
+            return c.json({ error: 'from and to must be valid dates, with from before to' }, 400)
+        }
+
+        // Live, unsealed entries within the requested range
+        const rangeQuery = (columns: string, head = false) => {
+            let query = supabase
+                .from('entries')
+                .select(columns, head ? { count: 'exact', head: true } : undefined)
+                .eq('user_id', user.id)
+                .is('deleted_at', null)
+                .or(unsealedFilter())
+            if (range.start) query = query.gte('entry_date', range.start)
+            if (range.end) query = query.lt('entry_date', range.end)
+            return query
+        }
+
+        const { count, error: countError } = await rangeQuery('id', true)
+
+        if (countError) {
+            console.error('❌ Error counting entries for export:', countError)
+            return c.json({ error: 'Failed to export entries' }, 500)
+        }
+
+        console.log(`📤 Exporting ${count} entries as ${format} for user:`, user.id)
+
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const zip = new Zip((error, chunk, final) => {
+                    if (error) {
+                        controller.error(error)
+                        return
+                    }
+                    controller.enqueue(chunk)
+                    if (final) controller.close()
+                })
+
+                const addFile = (name: string, text: string) => {
+                    const file = new ZipDeflate(name, { level: 6 })
+                    zip.add(file)
+                    file.push(strToU8(text), true)
+                }
+
+                try {
+                    const index: ExportIndexItem[] = []
+                    let cursor: { entry_date: string; id: number } | null = null
+
+                    while (true) {
+                        let query = rangeQuery('id, content, text_content, tags, manual_tags, metadata, entry_date, unlock_at, created_at, updated_at')
+                        if (cursor) {
+                            query = query.or(cursorFilter({ entryDate: cursor.entry_date, id: cursor.id }, 'prev'))
+                        }
+
+                        const { data, error } = await query
+                            .order('entry_date', { ascending: true })
+                            .order('id', { ascending: true })
+                            .limit(EXPORT_PAGE_SIZE)
+
+                        if (error) throw error
+
+                        const page = (data || []) as unknown as ExportEntry[]
+                        for (const entry of page) {
+                            const file = entryFileName(entry, format)
+                            addFile(file, renderEntry(entry, format))
+                            index.push({
+                                id: entry.id,
+                                file,
+                                title: entryTitle(entry),
+                                entry_date: entry.entry_date,
+                                tags: entry.tags || []
+                            })
+                        }
+
+                        if (page.length < EXPORT_PAGE_SIZE) break
+                        cursor = page[page.length - 1]!
+                    }
+
+                    addFile(`index.${format === 'markdown' ? 'md' : format}`, renderIndex(index, format))
+                    zip.end()
+                } catch (error) {
+                    console.error('❌ Error streaming export:', error)
+                    controller.error(error)
+                }
+            }
+        })
+
+        const fileName = `yournal-export-${new Date().toISOString().slice(0, 10)}.zip`
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'X-Entry-Count': String(count ?? 0)
+            }
+        })
+    } catch (error) {
+        console.error('❌ Entry export error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Apply one action to many entries at once, reporting the outcome per id.
+// Database actions run as a single statement, so they either all apply or none do;
+// re-embedding queues the entries for the embedding worker.
+entries.post('/bulk', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const { action, ids, tag: rawTag, notebook_id } = await c.req.json()
+
+        if (!BULK_ACTIONS.includes(action)) {
+            return c.json({ error: `Unknown action. Expected one of: ${BULK_ACTIONS.join(', ')}` }, 400)
+        }
+
+        if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+            return c.json({ error: 'ids must be a non-empty list of entry ids' }, 400)
+        }
+
+        const uniqueIds: number[] = [...new Set<number>(ids)]
+        if (uniqueIds.length > MAX_BULK_IDS) {
+            return c.json({ error: `At most ${MAX_BULK_IDS} entries can be updated at once` }, 400)
+        }
+
+        let tag: string | null = null
+        if (action === 'add_tag' || action === 'remove_tag') {
+            tag = typeof rawTag === 'string' ? normalizeTag(rawTag) : null
+            if (!tag) {
+                return c.json({ error: 'A valid tag is required for this action' }, 400)
+            }
+        }
+
+        // notebook_id null moves the entries out of every notebook
+        let notebookId: number | null = null
+        if (action === 'move_to_notebook') {
+            const parsedNotebook = parseNotebookId(notebook_id)
+            if ('error' in parsedNotebook || parsedNotebook.value === undefined) {
+                return c.json({ error: 'notebook_id (a notebook id or null) is required for this action' }, 400)
+            }
+            notebookId = parsedNotebook.value
+            if (notebookId !== null && !(await ownsNotebook(user.id, notebookId))) {
+                return c.json({ error: 'Notebook not found' }, 404)
+            }
+        }
+
+        const { data: owned, error: lookupError } = await supabase
+            .from('entries')
+            .select('id, deleted_at')
+            .eq('user_id', user.id)
+            .in('id', uniqueIds)
+
+        if (lookupError) {
+            console.error('❌ Error looking up bulk entries:', lookupError)
+            return c.json({ error: 'Failed to apply bulk action' }, 500)
+        }
+
+        const ownedById = new Map((owned || []).map((entry) => [entry.id as number, entry]))
+        const results: BulkResult[] = []
+        const targets: number[] = []
+
+        for (const id of uniqueIds) {
+            const entry = ownedById.get(id)
+            if (!entry) {
+                results.push({ id, status: 'not_found' })
+            } else if (action === 'delete' && entry.deleted_at) {
+                results.push({ id, status: 'skipped', reason: 'Already in trash' })
+            } else if (action === 'restore' && !entry.deleted_at) {
+                results.push({ id, status: 'skipped', reason: 'Not in trash' })
+            } else if (action !== 'delete' && action !== 'restore' && entry.deleted_at) {
+                results.push({ id, status: 'skipped', reason: 'Entry is in trash' })
+            } else {
+                results.push({ id, status: 'pending' })
+                targets.push(id)
+            }
+        }
+
+        // Nothing is applied when any id is unknown, so a stale selection can't half-apply
+        if (results.some((result) => result.status === 'not_found')) {
+            return c.json({
+                action,
+                applied: false,
+                results: results.map((result) =>
+                    result.status === 'pending' ? { ...result, status: 'aborted' } : result
+                )
+            }, 404)
+        }
+
+        const markTargets = (status: BulkResult['status'], updatedIds: number[]) => {
+            const updated = new Set(updatedIds)
+            for (const result of results) {
+                if (result.status === 'pending') {
+                    result.status = updated.has(result.id) ? status : 'skipped'
+                }
+            }
+        }
+
+        console.log(`📦 Bulk ${action} on ${targets.length} entries for user:`, user.id)
+
+        if (targets.length > 0) {
+            if (action === 'delete' || action === 'restore') {
+                const { data: updated, error } = await supabase
+                    .from('entries')
+                    .update({ deleted_at: action === 'delete' ? new Date().toISOString() : null })
+                    .eq('user_id', user.id)
+                    .in('id', targets)
+                    .select('id')
+
+                if (error) {
+                    console.error(`❌ Error applying bulk ${action}:`, error)
+                    return c.json({ error: 'Failed to apply bulk action' }, 500)
+                }
+
+                markTargets('updated', (updated || []).map((entry) => entry.id))
+            } else if (action === 'add_tag' || action === 'remove_tag') {
+                const { data: updated, error } = await supabase.rpc('bulk_update_entry_tag', {
+                    p_ids: targets,
+                    p_tag: tag,
+                    p_remove: action === 'remove_tag',
+                    p_user_id: user.id
+                })
+
+                if (error) {
+                    console.error(`❌ Error applying bulk ${action}:`, error)
+                    return c.json({ error: 'Failed to apply bulk action' }, 500)
+                }
+
+                markTargets('updated', (updated || []) as number[])
+            } else if (action === 'move_to_notebook') {
+                const { data: updated, error } = await supabase
+                    .from('entries')
+                    .update({ notebook_id: notebookId })
+                    .eq('user_id', user.id)
+                    .in('id', targets)
+                    .is('deleted_at', null)
+                    .select('id')
+
+                if (error) {
+                    console.error(`❌ Error applying bulk ${action}:`, error)
+                    return c.json({ error: 'Failed to apply bulk action' }, 500)
+                }
+
+                markTargets('updated', (updated || []).map((entry) => entry.id))
+            } else if (action === 're_embed') {
+                if (await queueEmbeddings(user.id, targets)) {
+                    markTargets('updated', targets)
+                } else {
+                    for (const result of results) {
+                        if (result.status !== 'pending') continue
+                        result.status = 'failed'
+                        result.reason = 'Could not queue the entry for embedding'
+                    }
+                }
+            }
+        }
+
+        return c.json({
+            action,
+            applied: true,
+            results,
+            summary: {
+                updated: results.filter((result) => result.status === 'updated').length,
+                skipped: results.filter((result) => result.status === 'skipped').length,
+                failed: results.filter((result) => result.status === 'failed').length
+            }
+        })
+    } catch (error) {
+        console.error('❌ Bulk entries error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Import entries from a zip of Markdown files / JSON exports (or a single such file).
+// Original dates are kept; an entry with the same date and text as an existing one
+// is reported as a duplicate. Embeddings are generated after responding.
+entries.post('/import', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const body = await c.req.parseBody()
+        const file = body.file
+
+        if (!(file instanceof File)) {
+            return c.json({ error: 'Upload a zip, Markdown or JSON file in the "file" field' }, 400)
+        }
+        if (file.size > MAX_IMPORT_BYTES) {
+            return c.json({ error: `Import files are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB` }, 413)
+        }
+
+        let items
+        try {
+            items = parseImportFile(file.name, new Uint8Array(await file.arrayBuffer()))
+        } catch (error) {
+            if (error instanceof ImportError) {
+                return c.json({ error: error.message }, 400)
+            }
+            throw error
+        }
+
+        console.log(`📥 Importing ${items.length} items from ${file.name} for user:`, user.id)
+
+        const importedAt = new Date().toISOString()
+        const results: ImportResult[] = []
+        const toInsert: { result: ImportResult; row: Record<string, unknown> }[] = []
+
+        // Existing entries on the same timestamps, to detect re-imports
+        const dates = [...new Set(items.map((item) => item.created_at).filter((date): date is string => !!date))]
+        const existingKeys = new Set<string>()
+        for (let i = 0; i < dates.length; i += IMPORT_BATCH_SIZE) {
+            const { data: existing, error } = await supabase
+                .from('entries')
+                .select('created_at, text_content')
+                .eq('user_id', user.id)
+                .is('deleted_at', null)
+                .in('created_at', dates.slice(i, i + IMPORT_BATCH_SIZE))
+
+            if (error) {
+                console.error('❌ Error checking for duplicate entries:', error)
+                return c.json({ error: 'Failed to import entries' }, 500)
+            }
+
+            for (const entry of existing || []) {
+                existingKeys.add(`${new Date(entry.created_at).toISOString()}|${entry.text_content}`)
+            }
+        }
+
+        for (const item of items) {
+            const result: ImportResult = { file: item.file, item: item.item, status: 'failed' }
+            results.push(result)
+
+            if (item.error || !item.content || !item.text_content) {
+                result.reason = item.error ?? 'Entry has no text'
+                continue
+            }
+
+            // Undated items can't be matched against earlier imports, so they're always new
+            const key = `${item.created_at ?? ''}|${item.text_content}`
+            if (item.created_at && existingKeys.has(key)) {
+                result.status = 'duplicate'
+                continue
+            }
+            existingKeys.add(key)
+
+            if (!item.created_at) {
+                result.reason = 'No date found; used the import time'
+            }
+
+            const manualTags = item.tags ?? []
+            toInsert.push({
+                result,
+                row: {
+                    user_id: user.id,
+                    content: item.content,
+                    text_content: item.text_content,
+                    manual_tags: manualTags,
+                    tags: mergeTags(manualTags, extractHashtags(item.text_content)),
+                    metadata: item.metadata ?? null,
+                    created_at: item.created_at ?? importedAt,
+                    entry_date: item.entry_date ?? item.created_at ?? importedAt,
+                    unlock_at: item.unlock_at ?? null
+                }
+            })
+        }
+
+        const imported: { id: number; text_content: string }[] = []
+        for (let i = 0; i < toInsert.length; i += IMPORT_BATCH_SIZE) {
+            const batch = toInsert.slice(i, i + IMPORT_BATCH_SIZE)
+            const { data: created, error } = await supabase
+                .from('entries')
+                .insert(batch.map(({ row }) => row))
+                .select('id, created_at, text_content')
+
+            if (error || !created || created.length !== batch.length) {
+                console.error('❌ Error inserting imported entries:', error)
+                for (const { result } of batch) {
+                    result.reason = 'Failed to save entry'
+                }
+                continue
+            }
+
+            batch.forEach(({ result }, index) => {
+                result.status = 'imported'
+                result.id = created[index]!.id
+                result.created_at = created[index]!.created_at
+            })
+            imported.push(...created)
+        }
+
+        await queueEmbeddings(user.id, imported.map((entry) => entry.id))
+
+        return c.json({
+            results,
+            summary: {
+                imported: results.filter((result) => result.status === 'imported').length,
+                duplicate: results.filter((result) => result.status === 'duplicate').length,
+                failed: results.filter((result) => result.status === 'failed').length
+            }
+        })
+    } catch (error) {
+        console.error('❌ Entry import error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Create new entry; its embedding is generated in the background
+entries.post('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const { content, tags, metadata, entry_date, unlock_at, notebook_id } = await c.req.json()
+
+        const parsedContent = parseEntryContent(content)
+        if ('error' in parsedContent) {
+            return c.json({ error: parsedContent.error }, 400)
+        }
+        const { text_content } = parsedContent
+
+        const parsedEntryDate = parseEntryDate(entry_date)
+        if ('error' in parsedEntryDate) {
+            return c.json({ error: parsedEntryDate.error }, 400)
+        }
+
+        // A sealed letter lands in the timeline on the day it opens unless dated explicitly
+        const parsedUnlockAt = parseUnlockAt(unlock_at)
+        if ('error' in parsedUnlockAt) {
+            return c.json({ error: parsedUnlockAt.error }, 400)
+        }
+
+        const manualTags = parseTagList(tags)
+        if (!manualTags) {
+            return c.json({ error: 'Tags must be a list of words (letters, numbers, _ or -)' }, 400)
+        }
+
+        const parsedMetadata = parseMetadata(metadata)
+        if ('error' in parsedMetadata) {
+            return c.json({ error: parsedMetadata.error }, 400)
+        }
+
+        const parsedNotebook = parseNotebookId(notebook_id)
+        if ('error' in parsedNotebook) {
+            return c.json({ error: parsedNotebook.error }, 400)
+        }
+        if (parsedNotebook.value && !(await ownsNotebook(user.id, parsedNotebook.value))) {
+            return c.json({ error: 'Notebook not found' }, 404)
+        }
+
+        console.log('📝 Creating new entry for user:', user.id)
+
+        // First, create the entry without embedding
+        const { data: entry, error: createError } = await supabase
+            .from('entries')
+            .insert({
+                user_id: user.id,
+                content: parsedContent.content,
+                text_content,
+                manual_tags: manualTags,
+                tags: mergeTags(manualTags, extractHashtags(text_content)),
+                metadata: parsedMetadata.value,
+                notebook_id: parsedNotebook.value ?? null,
+                unlock_at: parsedUnlockAt.value,
+                ...(parsedEntryDate.value || parsedUnlockAt.value
+                    ? { entry_date: parsedEntryDate.value ?? parsedUnlockAt.value }
+                    : {})
+            })
+            .select()
+            .single()
+
+        if (createError) {
+            console.error('❌ Error creating entry:', createError)
+            return c.json({ error: 'Failed to create entry' }, 500)
+        }
+
+        console.log('✅ Entry created with ID:', entry.id)
+
+        await syncEntryLinks(entry.id, user.id, text_content)
+
+        // The embedding worker makes the entry searchable shortly
+        await queueEmbeddings(user.id, [entry.id])
+
+        return c.json({ entry: await withSignedAttachment(c, entry) })
+    } catch (error) {
+        console.error('❌ Entry creation error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Get a single live entry
+entries.get('/:id{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+
+        const { data: entry, error } = await supabase
+            .from('entries')
+            .select('*')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .maybeSingle()
+
+        if (error) {
+            console.error('❌ Error fetching entry:', error)
+            return c.json({ error: 'Failed to fetch entry' }, 500)
+        }
+
+        if (!entry) {
+            return c.json({ error: 'Entry not found' }, 404)
+        }
 
-// Middleware to verify authentication
-async function authMiddleware(c: any, next: any) {
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return c.json({ error: 'Unauthorized' }, 401)
-    }
+        if (isSealed(entry)) {
+            return c.json({ error: 'Entry is sealed', unlock_at: entry.unlock_at }, 403)
+        }
 
-    const token = authHeader.split(' ')[1]
+        c.header('ETag', entryETag(entry.version))
+        return c.json({ entry: await withSignedAttachment(c, entry) })
+    } catch (error) {
+        console.error('❌ Entry fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
 
+// List the memories that link to an entry
+entries.get('/:id{[0-9]+}/backlinks', authMiddleware, async (c) => {
     try {
-        const { data: { user }, error } = await supabase.auth.getUser(token)
-        if (error || !user) {
-            return c.json({ error: 'Invalid token' }, 401)
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+
+        const { data: backlinks, error } = await supabase.rpc('get_entry_backlinks', {
+            p_entry_id: id,
+            p_user_id: user.id
+        })
+
+        if (error) {
+            console.error('❌ Error fetching backlinks:', error)
+            return c.json({ error: 'Failed to fetch backlinks' }, 500)
         }
 
-        c.set('user', user)
-        await next()
+        return c.json({ entryId: id, backlinks: backlinks || [] })
     } catch (error) {
-        return c.json({ error: 'Authentication failed' }, 401)
+        console.error('❌ Backlinks fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
     }
-}
+})
 
-// Get entries with pagination
-entries.get('/', authMiddleware, async (c) => {
+// Upload a file to an entry. The response's `url` is what the editor embeds
+// in an Image or File block.
+entries.post('/:id{[0-9]+}/attachments', authMiddleware, async (c) => {
     try {
         const user = c.get('user')
-        const page = parseInt(c.req.query('page') || '1')
-        const limit = parseInt(c.req.query('limit') || '10')
-        const offset = (page - 1) * limit
+        const id = parseInt(c.req.param('id'))
+        const body = await c.req.parseBody()
+        const file = body.file
+
+        if (!(file instanceof File)) {
+            return c.json({ error: 'Upload a file in the "file" field' }, 400)
+        }
+        if (file.size === 0) {
+            return c.json({ error: 'The file is empty' }, 400)
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            return c.json({ error: `Attachments are limited to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` }, 413)
+        }
 
-        // Get total count for pagination
-        const { count, error: countError } = await supabase
+        const { data: entry, error: entryError } = await supabase
             .from('entries')
-            .select('*', { count: 'exact', head: true })
+            .select('id')
+            .eq('id', id)
             .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .maybeSingle()
 
-        if (countError) {
-            console.error('Error counting entries:', countError)
-            return c.json({ error: 'Failed to fetch entries' }, 500)
+        if (entryError) {
+            console.error('❌ Error fetching entry for attachment:', entryError)
+            return c.json({ error: 'Failed to upload attachment' }, 500)
+        }
+        if (!entry) {
+            return c.json({ error: 'Entry not found' }, 404)
         }
 
-        // Get entries for current page
-        const { data: entries, error } = await supabase
-            .from('entries')
-            .select('*')
-            .eq('user_id', user.id)
-            .order('created_at', { ascending: false })
-            .range(offset, offset + limit - 1)
+        const attachmentId = crypto.randomUUID()
+        const storageKey = `${user.id}/${id}/${attachmentId}`
+        const contentType = file.type || 'application/octet-stream'
+
+        await getStorage().put(storageKey, new Uint8Array(await file.arrayBuffer()), contentType)
+
+        const { data: attachment, error } = await supabase
+            .from('attachments')
+            .insert({
+                id: attachmentId,
+                entry_id: id,
+                user_id: user.id,
+                file_name: sanitizeFileName(file.name),
+                content_type: contentType,
+                size_bytes: file.size,
+                storage_key: storageKey
+            })
+            .select('id, entry_id, file_name, content_type, size_bytes, storage_key, created_at')
+            .single()
 
         if (error) {
-            console.error('Error fetching entries:', error)
-            return c.json({ error: 'Failed to fetch entries' }, 500)
+            console.error('❌ Error saving attachment:', error)
+            // Don't leave a blob behind that nothing points to
+            await getStorage().remove([storageKey]).catch(() => {})
+            return c.json({ error: 'Failed to upload attachment' }, 500)
         }
 
-        const total = count || 0
-        const totalPages = Math.ceil(total / limit)
-        const hasMore = page < totalPages
+        console.log(`📎 Attached ${file.name} (${file.size} bytes) to entry ${id}`)
+
+        return c.json({ attachment: presentAttachment(new URL(c.req.url).origin, attachment as Attachment) }, 201)
+    } catch (error) {
+        console.error('❌ Attachment upload error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+entries.get('/:id{[0-9]+}/attachments', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+
+        const { data, error } = await supabase
+            .from('attachments')
+            .select('id, entry_id, file_name, content_type, size_bytes, storage_key, created_at')
+            .eq('entry_id', id)
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: true })
+
+        if (error) {
+            console.error('❌ Error fetching attachments:', error)
+            return c.json({ error: 'Failed to fetch attachments' }, 500)
+        }
 
+        const origin = new URL(c.req.url).origin
         return c.json({
-            entries: entries || [],
-            pagination: {
-                page,
-                limit,
-                total,
-                totalPages,
-                hasMore
-            }
+            entryId: id,
+            attachments: (data as Attachment[]).map((attachment) => presentAttachment(origin, attachment))
         })
     } catch (error) {
-        console.error('Entries fetch error:', error)
+        console.error('❌ Attachments fetch error:', error)
         return c.json({ error: 'Internal server error' }, 500)
     }
 })
 
-// Create new entry with automatic embedding generation
-entries.post('/', authMiddleware, async (c) => {
+// Remove one attachment and its blob; its URL stops working immediately
+entries.delete('/:id{[0-9]+}/attachments/:attachmentId{[0-9a-fA-F-]{36}}', authMiddleware, async (c) => {
     try {
         const user = c.get('user')
-        const { content, text_content } = await c.req.json()
+        const id = parseInt(c.req.param('id'))
+        const attachmentId = c.req.param('attachmentId')
 
-        console.log('📝 Creating new entry for user:', user.id)
+        const { data: attachment, error } = await supabase
+            .from('attachments')
+            .select('id, storage_key')
+            .eq('id', attachmentId)
+            .eq('entry_id', id)
+            .eq('user_id', user.id)
+            .maybeSingle()
 
-        // Parse content if it's a string (should be an object from Yoopta)
-        let parsedContent = content
-        if (typeof content === 'string') {
-            try {
-                parsedContent = JSON.parse(content)
-            } catch (error) {
-                console.error('❌ Error parsing content JSON:', error)
-                parsedContent = content // Keep as string if parsing fails
-            }
+        if (error) {
+            console.error('❌ Error fetching attachment:', error)
+            return c.json({ error: 'Failed to delete attachment' }, 500)
+        }
+        if (!attachment) {
+            return c.json({ error: 'Attachment not found' }, 404)
         }
 
-        // First, create the entry without embedding
-        const { data: entry, error: createError } = await supabase
+        await getStorage().remove([attachment.storage_key])
+
+        const { error: deleteError } = await supabase
+            .from('attachments')
+            .delete()
+            .eq('id', attachmentId)
+
+        if (deleteError) {
+            console.error('❌ Error deleting attachment:', deleteError)
+            return c.json({ error: 'Failed to delete attachment' }, 500)
+        }
+
+        return c.json({ message: 'Attachment deleted' })
+    } catch (error) {
+        console.error('❌ Attachment delete error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Create a read-only share link for an entry. The token is only returned here;
+// the link is listed and revoked through /shares.
+entries.post('/:id{[0-9]+}/share', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+        const body = await c.req.json().catch(() => ({}))
+
+        const expiry = parseShareExpiry(body.expires_in_days)
+        if ('error' in expiry) {
+            return c.json({ error: expiry.error }, 400)
+        }
+        const passphrase = parsePassphrase(body.passphrase)
+        if ('error' in passphrase) {
+            return c.json({ error: passphrase.error }, 400)
+        }
+
+        const { data: entry, error: entryError } = await supabase
             .from('entries')
+            .select('id, unlock_at')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .maybeSingle()
+
+        if (entryError) {
+            console.error('❌ Error fetching entry to share:', entryError)
+            return c.json({ error: 'Failed to share entry' }, 500)
+        }
+        if (!entry) {
+            return c.json({ error: 'Entry not found' }, 404)
+        }
+        if (isSealed(entry)) {
+            return c.json({ error: 'Entry is sealed', unlock_at: entry.unlock_at }, 403)
+        }
+
+        const token = generateShareToken()
+        const { data: share, error } = await supabase
+            .from('entry_shares')
             .insert({
+                entry_id: id,
                 user_id: user.id,
-                content: parsedContent, // Store as JSONB object
-                text_content: text_content
+                token_hash: hashShareToken(token),
+                passphrase_hash: passphrase.value ? await hashPassphrase(passphrase.value) : null,
+                expires_at: expiry.value
             })
-            .select()
+            .select('id, entry_id, expires_at, passphrase_hash, revoked_at, view_count, last_viewed_at, created_at')
             .single()
 
-        if (createError) {
-            console.error('❌ Error creating entry:', createError)
-            return c.json({ error: 'Failed to create entry' }, 500)
+        if (error) {
+            console.error('❌ Error creating share:', error)
+            return c.json({ error: 'Failed to share entry' }, 500)
         }
 
-        console.log('✅ Entry created with ID:', entry.id)
+        console.log(`🔗 Shared entry ${id}${expiry.value ? ` until ${expiry.value}` : ''}`)
 
-        // Generate embedding for the text content
-        try {
-            console.log('📄 Using text content for embedding:', text_content?.substring(0, 100) + '...')
+        return c.json({
+            share: presentShare(share as EntryShare),
+            token,
+            url: shareUrl(new URL(c.req.url).origin, token)
+        }, 201)
+    } catch (error) {
+        console.error('❌ Share entry error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Update entry. Requires If-Match with the version being edited; a stale version
+// gets 409 with the current copy so the client can merge instead of overwriting.
+entries.put('/:id{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+        const { content, tags, metadata, entry_date, notebook_id } = await c.req.json()
+
+        const expectedVersion = parseIfMatch(c.req.header('If-Match'))
+        if (expectedVersion === null) {
+            return c.json({ error: 'If-Match header with the entry version is required' }, 428)
+        }
+
+        const parsedContent = parseEntryContent(content)
+        if ('error' in parsedContent) {
+            return c.json({ error: parsedContent.error }, 400)
+        }
+        const { text_content } = parsedContent
+
+        // Manual tags are only replaced when provided; hashtags are re-read from the new text
+        const parsedTags = parseTagList(tags)
+        if (!parsedTags) {
+            return c.json({ error: 'Tags must be a list of words (letters, numbers, _ or -)' }, 400)
+        }
+
+        // Like manual tags, metadata is only replaced when provided (null clears it)
+        const parsedMetadata = parseMetadata(metadata)
+        if ('error' in parsedMetadata) {
+            return c.json({ error: parsedMetadata.error }, 400)
+        }
+
+        const parsedEntryDate = parseEntryDate(entry_date)
+        if ('error' in parsedEntryDate) {
+            return c.json({ error: parsedEntryDate.error }, 400)
+        }
+
+        // Moved only when notebook_id is given; null unfiles the entry
+        const parsedNotebook = parseNotebookId(notebook_id)
+        if ('error' in parsedNotebook) {
+            return c.json({ error: parsedNotebook.error }, 400)
+        }
+        if (parsedNotebook.value && !(await ownsNotebook(user.id, parsedNotebook.value))) {
+            return c.json({ error: 'Notebook not found' }, 404)
+        }
+
+        const { data: existing, error: existingError } = await supabase
+            .from('entries')
+            .select('*')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .maybeSingle()
+
+        if (existingError) {
+            console.error('❌ Error fetching entry:', existingError)
+            return c.json({ error: 'Failed to update entry' }, 500)
+        }
+
+        if (!existing) {
+            return c.json({ error: 'Entry not found' }, 404)
+        }
+
+        if (isSealed(existing)) {
+            return c.json({ error: 'Entry is sealed', unlock_at: existing.unlock_at }, 403)
+        }
+
+        if (existing.version !== expectedVersion) {
+            c.header('ETag', entryETag(existing.version))
+            return c.json({ error: 'Entry was changed since it was loaded', entry: await withSignedAttachment(c, existing) }, 409)
+        }
+
+        const manualTags: string[] = tags === undefined ? existing.manual_tags || [] : parsedTags
+        // Only a change of text needs a new embedding, and not even that when it
+        // normalizes to the text already embedded
+        const textChanged = existing.text_content !== text_content
+        const reembed = textChanged && needsEmbedding(existing, text_content)
+
+        // Update the entry content
+        const { data: entry, error: updateError } = await supabase
+            .from('entries')
+            .update({
+                content: parsedContent.content,
+                text_content,
+                manual_tags: manualTags,
+                tags: mergeTags(manualTags, extractHashtags(text_content)),
+                ...(metadata !== undefined ? { metadata: parsedMetadata.value } : {}),
+                ...(parsedEntryDate.value ? { entry_date: parsedEntryDate.value } : {}),
+                ...(parsedNotebook.value !== undefined ? { notebook_id: parsedNotebook.value } : {}),
+                ...(reembed ? { embedding_status: 'pending' } : {})
+            })
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .eq('version', expectedVersion)
+            .is('deleted_at', null)
+            .select()
+            .maybeSingle()
 
-            const embedding = await generateEmbedding(text_content || '')
-            console.log('🧠 Generated embedding, length:', embedding.length)
+        if (updateError) {
+            console.error('❌ Error updating entry:', updateError)
+            return c.json({ error: 'Failed to update entry' }, 500)
+        }
 
-            // Update the entry with the embedding directly
-            const { error: updateError } = await supabase
+        // Another save landed between the check above and this update
+        if (!entry) {
+            const { data: current } = await supabase
                 .from('entries')
-                .update({ embedding: embedding })
-                .eq('id', entry.id)
+                .select('*')
+                .eq('id', id)
                 .eq('user_id', user.id)
+                .maybeSingle()
 
-            if (updateError) {
-                console.error('❌ Error updating entry with embedding:', updateError)
-                // Don't fail the request, just log the error
-            } else {
-                console.log('✅ Entry embedding updated successfully')
-            }
-        } catch (embeddingError) {
-            console.error('❌ Error generating embedding:', embeddingError)
-            // Don't fail the request if embedding generation fails
+            if (current) c.header('ETag', entryETag(current.version))
+            return c.json({ error: 'Entry was changed since it was loaded', entry: await withSignedAttachment(c, current) }, 409)
         }
 
-        return c.json({ entry })
+        await syncEntryLinks(id, user.id, text_content)
+
+        if (reembed) {
+            await queueEmbeddings(user.id, [id])
+        } else if (textChanged) {
+            await realignPassages(user.id, id, parsedContent.content)
+        }
+
+        c.header('ETag', entryETag(entry.version))
+        return c.json({ entry: await withSignedAttachment(c, entry) })
     } catch (error) {
-        console.error('❌ Entry creation error:', error)
+        console.error('❌ Entry update error:', error)
         return c.json({ error: 'Internal server error' }, 500)
     }
 })
 
-// Update entry
-entries.put('/:id', authMiddleware, async (c) => {
+// List the version history of an entry, newest first
+entries.get('/:id{[0-9]+}/versions', authMiddleware, async (c) => {
     try {
         const user = c.get('user')
         const id = parseInt(c.req.param('id'))
-        const { content, text_content } = await c.req.json()
 
-        // Parse content if it's a string (should be an object from Yoopta)
-        let parsedContent = content
-        if (typeof content === 'string') {
-            try {
-                parsedContent = JSON.parse(content)
-            } catch (error) {
-                console.error('❌ Error parsing content JSON:', error)
-                parsedContent = content // Keep as string if parsing fails
-            }
+        const { data: entry, error: entryError } = await supabase
+            .from('entries')
+            .select('id, version, text_content, updated_at, unlock_at')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .maybeSingle()
+
+        if (entryError) {
+            console.error('Error fetching entry:', entryError)
+            return c.json({ error: 'Failed to fetch versions' }, 500)
         }
 
-        // Update the entry content
+        if (!entry) {
+            return c.json({ error: 'Entry not found' }, 404)
+        }
+
+        if (isSealed(entry)) {
+            return c.json({ error: 'Entry is sealed', unlock_at: entry.unlock_at }, 403)
+        }
+
+        const { data: versions, error } = await supabase
+            .from('entry_versions')
+            .select('version, text_content, saved_at, replaced_at')
+            .eq('entry_id', id)
+            .eq('user_id', user.id)
+            .order('version', { ascending: false })
+
+        if (error) {
+            console.error('Error fetching entry versions:', error)
+            return c.json({ error: 'Failed to fetch versions' }, 500)
+        }
+
+        return c.json({
+            entryId: id,
+            currentVersion: entry.version,
+            versions: [
+                {
+                    version: entry.version,
+                    text_content: entry.text_content,
+                    saved_at: entry.updated_at,
+                    replaced_at: null,
+                    current: true
+                },
+                ...(versions || []).map((version) => ({ ...version, current: false }))
+            ]
+        })
+    } catch (error) {
+        console.error('Entry versions fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Get a single version of an entry (the current version included)
+entries.get('/:id{[0-9]+}/versions/:version{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+        const versionNumber = parseInt(c.req.param('version'))
+
+        const version = await findEntryVersion(id, user.id, versionNumber)
+
+        if (!version) {
+            return c.json({ error: 'Version not found' }, 404)
+        }
+
+        if ('sealed' in version) {
+            return c.json({ error: 'Entry is sealed', unlock_at: version.unlock_at }, 403)
+        }
+
+        const [signed] = await signContentAttachments([version], () => id, user.id, new URL(c.req.url).origin)
+        return c.json({ version: signed })
+    } catch (error) {
+        console.error('Entry version fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Restore an entry to a previous version (the current content becomes a new version).
+// Like PUT, requires If-Match with the entry's current version.
+entries.post('/:id{[0-9]+}/versions/:version{[0-9]+}/restore', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+        const versionNumber = parseInt(c.req.param('version'))
+
+        const expectedVersion = parseIfMatch(c.req.header('If-Match'))
+        if (expectedVersion === null) {
+            return c.json({ error: 'If-Match header with the entry version is required' }, 428)
+        }
+
+        const version = await findEntryVersion(id, user.id, versionNumber)
+
+        if (!version) {
+            return c.json({ error: 'Version not found' }, 404)
+        }
+
+        if ('sealed' in version) {
+            return c.json({ error: 'Entry is sealed', unlock_at: version.unlock_at }, 403)
+        }
+
+        if (version.current) {
+            return c.json({ error: 'Version is already current' }, 400)
+        }
+
+        console.log(`⏪ Restoring entry ${id} to version ${versionNumber}`)
+
+        const { data: existing, error: existingError } = await supabase
+            .from('entries')
+            .select('*')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .maybeSingle()
+
+        if (existingError) {
+            console.error('❌ Error fetching entry:', existingError)
+            return c.json({ error: 'Failed to restore version' }, 500)
+        }
+
+        if (!existing) {
+            return c.json({ error: 'Entry not found' }, 404)
+        }
+
+        if (existing.version !== expectedVersion) {
+            c.header('ETag', entryETag(existing.version))
+            return c.json({ error: 'Entry was changed since it was loaded', entry: await withSignedAttachment(c, existing) }, 409)
+        }
+
+        const textChanged = existing.text_content !== version.text_content
+        const reembed = textChanged && needsEmbedding(existing, version.text_content || '')
+
         const { data: entry, error: updateError } = await supabase
             .from('entries')
             .update({
-                content: parsedContent, // Store as JSONB object
-                text_content: text_content
+                content: version.content,
+                text_content: version.text_content,
+                tags: mergeTags(existing.manual_tags || [], extractHashtags(version.text_content || '')),
+                ...(reembed ? { embedding_status: 'pending' } : {})
             })
             .eq('id', id)
             .eq('user_id', user.id)
+            .eq('version', expectedVersion)
+            .is('deleted_at', null)
             .select()
-            .single()
+            .maybeSingle()
 
         if (updateError) {
-            console.error('❌ Error updating entry:', updateError)
-            return c.json({ error: 'Failed to update entry' }, 500)
+            console.error('❌ Error restoring entry version:', updateError)
+            return c.json({ error: 'Failed to restore version' }, 500)
         }
 
-        // Regenerate embedding for the updated text content
-        try {
-            console.log('📄 Regenerating embedding for text content:', text_content?.substring(0, 100) + '...')
-
-            const embedding = await generateEmbedding(text_content || '')
-            console.log('🧠 Generated embedding, length:', embedding.length)
-
-            // Update the entry with the new embedding directly
-            const { error: embeddingError } = await supabase
+        // Another save landed between the check above and this update
+        if (!entry) {
+            const { data: current } = await supabase
                 .from('entries')
-                .update({ embedding: embedding })
+                .select('*')
                 .eq('id', id)
                 .eq('user_id', user.id)
+                .maybeSingle()
 
-            if (embeddingError) {
-                console.error('❌ Error updating entry embedding:', embeddingError)
-            } else {
-                console.log('✅ Entry embedding updated successfully')
-            }
-        } catch (embeddingError) {
-            console.error('❌ Error generating embedding:', embeddingError)
+            if (current) c.header('ETag', entryETag(current.version))
+            return c.json({ error: 'Entry was changed since it was loaded', entry: await withSignedAttachment(c, current) }, 409)
+        }
+
+        await syncEntryLinks(id, user.id, version.text_content)
+        if (reembed) {
+            await queueEmbeddings(user.id, [id])
+        } else if (textChanged) {
+            await realignPassages(user.id, id, version.content)
         }
 
-        return c.json({ entry })
+        c.header('ETag', entryETag(entry.version))
+        return c.json({ entry: await withSignedAttachment(c, entry) })
     } catch (error) {
-        console.error('❌ Entry update error:', error)
+        console.error('❌ Entry version restore error:', error)
         return c.json({ error: 'Internal server error' }, 500)
     }
 })
 
-// Delete entry
-entries.delete('/:id', authMiddleware, async (c) => {
+// Move entry to the trash (restorable until purged)
+entries.delete('/:id{[0-9]+}', authMiddleware, async (c) => {
     try {
         const user = c.get('user')
         const id = parseInt(c.req.param('id'))
 
-        const { error } = await supabase
+        const { data: entry, error } = await supabase
             .from('entries')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .eq('id', id)
             .eq('user_id', user.id)
+            .is('deleted_at', null)
+            .select('id, deleted_at')
+            .maybeSingle()
 
         if (error) {
             console.error('Error deleting entry:', error)
             return c.json({ error: 'Failed to delete entry' }, 500)
         }
 
-        return c.json({ success: true })
+        if (!entry) {
+            return c.json({ error: 'Entry not found' }, 404)
+        }
+
+        return c.json({
+            success: true,
+            entry: { ...entry, purge_at: purgeDate(entry.deleted_at) }
+        })
     } catch (error) {
         console.error('Entry deletion error:', error)
         return c.json({ error: 'Internal server error' }, 500)
     }
 })
 
+// Restore entry from the trash
+entries.post('/:id{[0-9]+}/restore', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+
+        const { data: entry, error } = await supabase
+            .from('entries')
+            .update({ deleted_at: null })
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .not('deleted_at', 'is', null)
+            .select()
+            .maybeSingle()
+
+        if (error) {
+            console.error('Error restoring entry:', error)
+            return c.json({ error: 'Failed to restore entry' }, 500)
+        }
+
+        if (!entry) {
+            return c.json({ error: 'Entry not found in trash' }, 404)
+        }
+
+        return c.json({ entry: await withSignedAttachment(c, entry) })
+    } catch (error) {
+        console.error('Entry restore error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
 export default entries 
\ No newline at end of file
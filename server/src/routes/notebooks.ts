@@ -0,0 +1,140 @@
+import { Hono } from 'hono'
+import { supabase } from '../lib/supabase'
+import { parseNotebookName } from '../lib/notebooks'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
+
+const notebooks = new Hono<{ Variables: ContextWithUser }>()
+
+const NOTEBOOK_COLUMNS = 'id, name, created_at, updated_at'
+
+// Postgres unique_violation, raised by the per-user name index
+const DUPLICATE_NAME = '23505'
+
+// List the user's notebooks with how many live entries each holds
+notebooks.get('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+
+        const { data, error } = await supabase.rpc('get_user_notebooks', {
+            p_user_id: user.id
+        })
+
+        if (error) {
+            console.error('❌ Error fetching notebooks:', error)
+            return c.json({ error: 'Failed to fetch notebooks' }, 500)
+        }
+
+        return c.json({
+            notebooks: (data || []).map((notebook: { entry_count: number }) => ({
+                ...notebook,
+                entry_count: Number(notebook.entry_count)
+            }))
+        })
+    } catch (error) {
+        console.error('❌ Notebooks fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+notebooks.post('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const { name } = await c.req.json()
+
+        const parsedName = parseNotebookName(name)
+        if ('error' in parsedName) {
+            return c.json({ error: parsedName.error }, 400)
+        }
+
+        const { data: notebook, error } = await supabase
+            .from('notebooks')
+            .insert({ user_id: user.id, name: parsedName.value })
+            .select(NOTEBOOK_COLUMNS)
+            .single()
+
+        if (error) {
+            if (error.code === DUPLICATE_NAME) {
+                return c.json({ error: 'A notebook with that name already exists' }, 409)
+            }
+            console.error('❌ Error creating notebook:', error)
+            return c.json({ error: 'Failed to create notebook' }, 500)
+        }
+
+        return c.json({ notebook: { ...notebook, entry_count: 0 } }, 201)
+    } catch (error) {
+        console.error('❌ Notebook creation error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Rename a notebook
+notebooks.patch('/:id{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+        const { name } = await c.req.json()
+
+        const parsedName = parseNotebookName(name)
+        if ('error' in parsedName) {
+            return c.json({ error: parsedName.error }, 400)
+        }
+
+        const { data: notebook, error } = await supabase
+            .from('notebooks')
+            .update({ name: parsedName.value })
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .select(NOTEBOOK_COLUMNS)
+            .maybeSingle()
+
+        if (error) {
+            if (error.code === DUPLICATE_NAME) {
+                return c.json({ error: 'A notebook with that name already exists' }, 409)
+            }
+            console.error('❌ Error renaming notebook:', error)
+            return c.json({ error: 'Failed to rename notebook' }, 500)
+        }
+
+        if (!notebook) {
+            return c.json({ error: 'Notebook not found' }, 404)
+        }
+
+        return c.json({ notebook })
+    } catch (error) {
+        console.error('❌ Notebook rename error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Delete a notebook. Its entries are kept and become unfiled.
+notebooks.delete('/:id{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+
+        const { data: notebook, error } = await supabase
+            .from('notebooks')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .select('id')
+            .maybeSingle()
+
+        if (error) {
+            console.error('❌ Error deleting notebook:', error)
+            return c.json({ error: 'Failed to delete notebook' }, 500)
+        }
+
+        if (!notebook) {
+            return c.json({ error: 'Notebook not found' }, 404)
+        }
+
+        return c.json({ message: 'Notebook deleted' })
+    } catch (error) {
+        console.error('❌ Notebook delete error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+export default notebooks
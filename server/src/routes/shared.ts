@@ -0,0 +1,101 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import { supabase } from '../lib/supabase'
+import { isSealed } from '../lib/entry-dates'
+import { signEntryAttachments } from '../lib/attachments'
+import {
+    SHARED_PAGE_HEADERS,
+    clearPassphraseFailures,
+    hashShareToken,
+    isShareActive,
+    renderPassphraseForm,
+    renderPassphraseLocked,
+    reservePassphraseAttempt,
+    renderShareUnavailable,
+    renderSharedEntry,
+    verifyPassphrase
+} from '../lib/shares'
+import type { EntryShare } from '../lib/shares'
+
+const shared = new Hono()
+
+// A shared page is read in one sitting, so its attachment links need not outlive it for long
+const SHARED_ATTACHMENT_URL_TTL_SECONDS = 60 * 60
+
+// Render a shared entry as a standalone HTML page. The token is the credential,
+// so these routes have no auth middleware; a passphrase, when set, is posted
+// back from the form on the page.
+async function renderShare(c: Context, passphrase: string | null) {
+    const html = (body: string, status: 200 | 401 | 404 | 429) => c.html(body, status, SHARED_PAGE_HEADERS)
+
+    const { data: share, error } = await supabase
+        .from('entry_shares')
+        .select('id, entry_id, expires_at, passphrase_hash, revoked_at, view_count, last_viewed_at, created_at')
+        .eq('token_hash', hashShareToken(c.req.param('token') || ''))
+        .maybeSingle()
+
+    if (error) throw error
+    if (!share || !isShareActive(share as EntryShare)) {
+        return html(renderShareUnavailable(), 404)
+    }
+
+    if (share.passphrase_hash) {
+        if (passphrase === null) {
+            return html(renderPassphraseForm(false), 401)
+        }
+        if (!reservePassphraseAttempt(share.id)) {
+            return html(renderPassphraseLocked(), 429)
+        }
+        if (!(await verifyPassphrase(passphrase, share.passphrase_hash))) {
+            console.log('🔒 Wrong passphrase for share:', share.id)
+            return html(renderPassphraseForm(true), 401)
+        }
+        clearPassphraseFailures(share.id)
+    }
+
+    const { data: entry, error: entryError } = await supabase
+        .from('entries')
+        .select('id, user_id, content, entry_date, tags, unlock_at')
+        .eq('id', share.entry_id)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+    if (entryError) throw entryError
+    if (!entry || isSealed(entry)) {
+        return html(renderShareUnavailable(), 404)
+    }
+
+    const { error: countError } = await supabase
+        .from('entry_shares')
+        .update({ view_count: share.view_count + 1, last_viewed_at: new Date().toISOString() })
+        .eq('id', share.id)
+
+    if (countError) {
+        console.error('❌ Error counting share view:', countError)
+    }
+
+    const [signed] = await signEntryAttachments([entry], entry.user_id, new URL(c.req.url).origin, SHARED_ATTACHMENT_URL_TTL_SECONDS)
+    return html(renderSharedEntry(signed!), 200)
+}
+
+shared.get('/:token', async (c) => {
+    try {
+        return await renderShare(c, null)
+    } catch (error) {
+        console.error('❌ Shared entry error:', error)
+        return c.text('Internal server error', 500)
+    }
+})
+
+shared.post('/:token', async (c) => {
+    try {
+        const body = await c.req.parseBody()
+        const passphrase = typeof body.passphrase === 'string' ? body.passphrase : ''
+        return await renderShare(c, passphrase)
+    } catch (error) {
+        console.error('❌ Shared entry error:', error)
+        return c.text('Internal server error', 500)
+    }
+})
+
+export default shared
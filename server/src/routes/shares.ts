@@ -0,0 +1,86 @@
+import { Hono } from 'hono'
+import { supabase } from '../lib/supabase'
+import { presentShare } from '../lib/shares'
+import type { EntryShare } from '../lib/shares'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
+
+const shares = new Hono<{ Variables: ContextWithUser }>()
+
+const SHARE_COLUMNS = 'id, entry_id, expires_at, passphrase_hash, revoked_at, view_count, last_viewed_at, created_at'
+
+// Share ids are UUIDs; anything else can't name a share
+const SHARE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// List the user's active share links, newest first (optionally for one entry).
+// Links themselves can't be listed: only a hash of each token is stored.
+shares.get('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const entryParam = c.req.query('entry')
+
+        let query = supabase
+            .from('entry_shares')
+            .select(SHARE_COLUMNS)
+            .eq('user_id', user.id)
+            .is('revoked_at', null)
+            .or(`expires_at.is.null,expires_at.gt."${new Date().toISOString()}"`)
+
+        if (entryParam) {
+            const entryId = parseInt(entryParam)
+            if (!Number.isSafeInteger(entryId) || entryId <= 0) {
+                return c.json({ error: 'entry must be an entry id' }, 400)
+            }
+            query = query.eq('entry_id', entryId)
+        }
+
+        const { data, error } = await query.order('created_at', { ascending: false })
+
+        if (error) {
+            console.error('❌ Error fetching shares:', error)
+            return c.json({ error: 'Failed to fetch shares' }, 500)
+        }
+
+        return c.json({ shares: (data as EntryShare[]).map(presentShare) })
+    } catch (error) {
+        console.error('❌ Shares fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Revoke a share link; it stops working immediately
+shares.delete('/:id', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = c.req.param('id')
+
+        if (!SHARE_ID_PATTERN.test(id)) {
+            return c.json({ error: 'Share not found' }, 404)
+        }
+
+        const { data: share, error } = await supabase
+            .from('entry_shares')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .is('revoked_at', null)
+            .select('id')
+            .maybeSingle()
+
+        if (error) {
+            console.error('❌ Error revoking share:', error)
+            return c.json({ error: 'Failed to revoke share' }, 500)
+        }
+
+        if (!share) {
+            return c.json({ error: 'Share not found' }, 404)
+        }
+
+        return c.json({ message: 'Share revoked' })
+    } catch (error) {
+        console.error('❌ Share revoke error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+export default shares
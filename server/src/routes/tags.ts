@@ -0,0 +1,29 @@
+import { Hono } from 'hono'
+import { supabase } from '../lib/supabase'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
+
+const tags = new Hono<{ Variables: ContextWithUser }>()
+
+// List the user's tags with how many entries use each one
+tags.get('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+
+        const { data, error } = await supabase.rpc('get_user_tags', {
+            p_user_id: user.id
+        })
+
+        if (error) {
+            console.error('Error fetching tags:', error)
+            return c.json({ error: 'Failed to fetch tags' }, 500)
+        }
+
+        return c.json({ tags: data || [] })
+    } catch (error) {
+        console.error('Tags fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+export default tags
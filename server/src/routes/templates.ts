@@ -0,0 +1,261 @@
+import { Hono } from 'hono'
+import { supabase } from '../lib/supabase'
+import { BUILTIN_TEMPLATES, expandTemplate, findBuiltinTemplate, parseTemplateName, templateVariables } from '../lib/templates'
+import { isValidTimeZone } from '../lib/date-range'
+import { validateYooptaContent, yooptaToText } from 'shared'
+import type { YooptaContent } from 'shared'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
+
+const templates = new Hono<{ Variables: ContextWithUser }>()
+
+const TEMPLATE_COLUMNS = 'id, name, content, created_at, updated_at'
+
+// Postgres unique_violation, raised by the per-user name index
+const DUPLICATE_NAME = '23505'
+
+interface TemplateUsage {
+    template_key: string
+    use_count: number
+    last_used_at: string | null
+}
+
+function parseTemplateContent(value: unknown): { value: YooptaContent } | { error: string } {
+    const validated = validateYooptaContent(value)
+    if ('error' in validated) {
+        return { error: `Invalid content: ${validated.error}` }
+    }
+    return validated
+}
+
+// List built-in templates followed by the user's own, each with how often the user applied it
+templates.get('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+
+        const [{ data: own, error }, { data: usage, error: usageError }] = await Promise.all([
+            supabase
+                .from('templates')
+                .select(TEMPLATE_COLUMNS)
+                .eq('user_id', user.id)
+                .order('name'),
+            supabase
+                .from('template_usage')
+                .select('template_key, use_count, last_used_at')
+                .eq('user_id', user.id)
+        ])
+
+        if (error || usageError) {
+            console.error('❌ Error fetching templates:', error || usageError)
+            return c.json({ error: 'Failed to fetch templates' }, 500)
+        }
+
+        const usageByKey = new Map((usage as TemplateUsage[]).map((row) => [row.template_key, row]))
+        const withUsage = (key: string) => ({
+            use_count: usageByKey.get(key)?.use_count ?? 0,
+            last_used_at: usageByKey.get(key)?.last_used_at ?? null
+        })
+
+        return c.json({
+            templates: [
+                ...BUILTIN_TEMPLATES.map((template) => ({
+                    ...template,
+                    builtin: true,
+                    ...withUsage(template.key)
+                })),
+                ...(own || []).map((template) => ({
+                    ...template,
+                    key: String(template.id),
+                    builtin: false,
+                    ...withUsage(String(template.id))
+                }))
+            ]
+        })
+    } catch (error) {
+        console.error('❌ Templates fetch error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+templates.post('/', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const { name, content } = await c.req.json()
+
+        const parsedName = parseTemplateName(name)
+        if ('error' in parsedName) {
+            return c.json({ error: parsedName.error }, 400)
+        }
+        const parsedContent = parseTemplateContent(content)
+        if ('error' in parsedContent) {
+            return c.json({ error: parsedContent.error }, 400)
+        }
+
+        const { data: template, error } = await supabase
+            .from('templates')
+            .insert({ user_id: user.id, name: parsedName.value, content: parsedContent.value })
+            .select(TEMPLATE_COLUMNS)
+            .single()
+
+        if (error) {
+            if (error.code === DUPLICATE_NAME) {
+                return c.json({ error: 'A template with that name already exists' }, 409)
+            }
+            console.error('❌ Error creating template:', error)
+            return c.json({ error: 'Failed to create template' }, 500)
+        }
+
+        return c.json({
+            template: { ...template, key: String(template.id), builtin: false, use_count: 0, last_used_at: null }
+        }, 201)
+    } catch (error) {
+        console.error('❌ Template creation error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Rename a template and/or replace its content. Built-in templates can't be changed.
+templates.patch('/:id{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+        const { name, content } = await c.req.json()
+
+        const updates: { name?: string; content?: YooptaContent } = {}
+        if (name !== undefined) {
+            const parsedName = parseTemplateName(name)
+            if ('error' in parsedName) {
+                return c.json({ error: parsedName.error }, 400)
+            }
+            updates.name = parsedName.value
+        }
+        if (content !== undefined) {
+            const parsedContent = parseTemplateContent(content)
+            if ('error' in parsedContent) {
+                return c.json({ error: parsedContent.error }, 400)
+            }
+            updates.content = parsedContent.value
+        }
+        if (Object.keys(updates).length === 0) {
+            return c.json({ error: 'Nothing to update' }, 400)
+        }
+
+        const { data: template, error } = await supabase
+            .from('templates')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .select(TEMPLATE_COLUMNS)
+            .maybeSingle()
+
+        if (error) {
+            if (error.code === DUPLICATE_NAME) {
+                return c.json({ error: 'A template with that name already exists' }, 409)
+            }
+            console.error('❌ Error updating template:', error)
+            return c.json({ error: 'Failed to update template' }, 500)
+        }
+
+        if (!template) {
+            return c.json({ error: 'Template not found' }, 404)
+        }
+
+        return c.json({ template: { ...template, key: String(template.id), builtin: false } })
+    } catch (error) {
+        console.error('❌ Template update error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+templates.delete('/:id{[0-9]+}', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const id = parseInt(c.req.param('id'))
+
+        const { data: template, error } = await supabase
+            .from('templates')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .select('id')
+            .maybeSingle()
+
+        if (error) {
+            console.error('❌ Error deleting template:', error)
+            return c.json({ error: 'Failed to delete template' }, 500)
+        }
+
+        if (!template) {
+            return c.json({ error: 'Template not found' }, 404)
+        }
+
+        const { error: usageError } = await supabase
+            .from('template_usage')
+            .delete()
+            .eq('user_id', user.id)
+            .eq('template_key', String(id))
+
+        if (usageError) {
+            console.error('❌ Error clearing template usage:', usageError)
+        }
+
+        return c.json({ message: 'Template deleted' })
+    } catch (error) {
+        console.error('❌ Template delete error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+// Fill in a template's placeholders for a new entry and count the use.
+// Body: { time_zone } (IANA name, defaults to UTC) for {{date}} and {{weekday}}.
+templates.post('/:key/apply', authMiddleware, async (c) => {
+    try {
+        const user = c.get('user')
+        const key = c.req.param('key')
+        const { time_zone: timeZone = 'UTC' } = await c.req.json().catch(() => ({}))
+
+        if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+            return c.json({ error: 'time_zone must be an IANA time zone name' }, 400)
+        }
+
+        let content: YooptaContent | undefined
+        if (/^[0-9]+$/.test(key)) {
+            const { data: template, error } = await supabase
+                .from('templates')
+                .select('content')
+                .eq('id', parseInt(key))
+                .eq('user_id', user.id)
+                .maybeSingle()
+
+            if (error) {
+                console.error('❌ Error fetching template:', error)
+                return c.json({ error: 'Failed to apply template' }, 500)
+            }
+            content = template?.content
+        } else {
+            content = findBuiltinTemplate(key)?.content
+        }
+
+        if (!content) {
+            return c.json({ error: 'Template not found' }, 404)
+        }
+
+        const expanded = expandTemplate(content, templateVariables(timeZone))
+
+        const { data: useCount, error: usageError } = await supabase.rpc('record_template_use', {
+            p_template_key: key,
+            p_user_id: user.id
+        })
+
+        if (usageError) {
+            console.error('❌ Error recording template use:', usageError)
+        }
+
+        return c.json({ content: expanded, text_content: yooptaToText(expanded), use_count: useCount ?? null })
+    } catch (error) {
+        console.error('❌ Template apply error:', error)
+        return c.json({ error: 'Internal server error' }, 500)
+    }
+})
+
+export default templates
@@ -0,0 +1,35 @@
+import { Hono } from 'hono'
+import { getWeatherProvider } from '../lib/weather'
+import { authMiddleware } from '../lib/auth'
+import type { ContextWithUser } from '../lib/auth'
+
+const weather = new Hono<{ Variables: ContextWithUser }>()
+
+// Current weather for a location label, from the configured provider.
+// Without ?location= this only reports which provider (if any) is available.
+weather.get('/', authMiddleware, async (c) => {
+    try {
+        const provider = getWeatherProvider()
+        const location = c.req.query('location')?.trim()
+
+        if (!location) {
+            return c.json({ provider: provider?.name ?? null })
+        }
+
+        if (!provider) {
+            return c.json({ error: 'No weather provider is configured; enter the weather by hand' }, 501)
+        }
+
+        const current = await provider.current(location)
+        if (!current) {
+            return c.json({ error: 'Location not found' }, 404)
+        }
+
+        return c.json({ provider: provider.name, weather: current })
+    } catch (error) {
+        console.error('❌ Weather lookup error:', error)
+        return c.json({ error: 'Weather lookup failed' }, 502)
+    }
+})
+
+export default weather
@@ -0,0 +1,5 @@
+export * from "./types"
+export * from "./validate"
+export * from "./serialize"
+export * from "./parse"
+export * from "./passages"
@@ -0,0 +1,138 @@
+import type { YooptaBlock, YooptaContent, YooptaDocument, YooptaText } from "./types";
+
+type TextBlock = { type: "Paragraph" | "Blockquote"; children: YooptaText[] };
+
+const INLINE_PATTERN = /(\*\*|__)(.+?)\1|(?<!\w)(\*|_)(?!\s)(.+?)(?<!\s)\3(?!\w)|`([^`]+)`|!?\[([^\]]*)\]\([^)]*\)/g;
+
+// crypto.randomUUID exists in browsers and Bun; the fallback only has to be unique
+function generateId(): string {
+  const random = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto?.randomUUID;
+  if (random) return random.call((globalThis as { crypto?: unknown }).crypto);
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+// Turn inline Markdown (bold, italic, code, links) into marked text leaves
+function parseInline(line: string): YooptaText[] {
+  const leaves: YooptaText[] = [];
+  let lastIndex = 0;
+
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    if (match.index! > lastIndex) {
+      leaves.push({ text: line.slice(lastIndex, match.index) });
+    }
+
+    if (match[2] !== undefined) leaves.push({ text: match[2], bold: true });
+    else if (match[4] !== undefined) leaves.push({ text: match[4], italic: true });
+    else if (match[5] !== undefined) leaves.push({ text: match[5], code: true });
+    else if (match[6]) leaves.push({ text: match[6] });
+
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < line.length) {
+    leaves.push({ text: line.slice(lastIndex) });
+  }
+
+  return leaves.length > 0 ? leaves : [{ text: "" }];
+}
+
+function createBlock({ type, children }: TextBlock, order: number): YooptaBlock {
+  const id = generateId();
+  return {
+    id,
+    type,
+    meta: { order, depth: 0 },
+    value: [
+      {
+        id: generateId(),
+        type: type === "Blockquote" ? "blockquote" : "paragraph",
+        children,
+        props: { nodeType: "block" },
+      },
+    ],
+  };
+}
+
+// Only Paragraph and Blockquote blocks are produced, the plugins every editor loads
+function buildDocument(blocks: TextBlock[]): YooptaDocument {
+  const content: YooptaContent = {};
+  const lines: string[] = [];
+
+  blocks.forEach((textBlock, order) => {
+    const block = createBlock(textBlock, order);
+    content[block.id] = block;
+    lines.push(textBlock.children.map((leaf) => leaf.text).join(""));
+  });
+
+  if (blocks.length === 0) {
+    const block = createBlock({ type: "Paragraph", children: [{ text: "" }] }, 0);
+    content[block.id] = block;
+  }
+
+  return { content, text_content: lines.join("\n").trim() };
+}
+
+// One paragraph per blank-line separated chunk of plain text
+export function textToYoopta(text: string): YooptaDocument {
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  return buildDocument(paragraphs.map((paragraph) => ({ type: "Paragraph", children: [{ text: paragraph }] })));
+}
+
+// Convert Markdown into a Yoopta document. Headings become bold paragraphs,
+// quotes become Blockquote blocks, list items keep a bullet.
+export function markdownToYoopta(markdown: string): YooptaDocument {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "Paragraph", children: parseInline(paragraph.join(" ")) });
+      paragraph = [];
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: "Blockquote", children: parseInline(quote.join(" ")) });
+      quote = [];
+    }
+  };
+
+  for (const rawLine of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line) || line.startsWith("```")) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: "Paragraph", children: [{ text: heading[1]!.replace(/\s+#+$/, ""), bold: true }] });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      if (paragraph.length > 0) flush();
+      quote.push(line.replace(/^>\s?/, ""));
+      continue;
+    }
+
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/);
+    if (listItem) {
+      flush();
+      blocks.push({ type: "Paragraph", children: parseInline(`• ${listItem[1]}`) });
+      continue;
+    }
+
+    if (quote.length > 0) flush();
+    paragraph.push(line);
+  }
+
+  flush();
+  return buildDocument(blocks);
+}
@@ -0,0 +1,87 @@
+import { blockText, orderedBlocks } from "./serialize";
+
+// A stretch of an entry's text_content, embedded on its own so a relevant
+// paragraph of a long entry isn't diluted by the rest
+export type YooptaPassage = {
+  index: number;
+  text: string;
+  // Character offsets into yooptaToText(content); end is exclusive
+  start: number;
+  end: number;
+};
+
+export type PassageOptions = {
+  maxChars?: number;
+  overlapChars?: number;
+};
+
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP_CHARS = 150;
+
+type Span = { start: number; end: number };
+
+// Cut a block longer than a passage into overlapping windows, breaking at whitespace
+function splitSpan(text: string, span: Span, maxChars: number, overlapChars: number): Span[] {
+  const spans: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > maxChars) {
+    let end = start + maxChars;
+    const lastSpace = text.lastIndexOf(" ", end);
+    if (lastSpace > start + maxChars / 2) end = lastSpace;
+    spans.push({ start, end });
+
+    let next = Math.max(end - overlapChars, start + 1);
+    const nextSpace = text.indexOf(" ", next);
+    if (nextSpace !== -1 && nextSpace < end) next = nextSpace + 1;
+    start = next;
+  }
+
+  spans.push({ start, end: span.end });
+  return spans;
+}
+
+// Split a document into passages along block boundaries. Consecutive blocks
+// are packed up to maxChars, and each passage repeats the last block of the
+// one before it so a thought running across the cut is kept whole somewhere.
+// A short entry is a single passage covering all of its text.
+export function yooptaToPassages(content: unknown, options: PassageOptions = {}): YooptaPassage[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+
+  // Rebuild the text exactly as yooptaToText does, remembering where each block lands
+  const blocks = orderedBlocks(content).map(blockText);
+  const fullText = blocks.join("\n");
+  const text = fullText.trim();
+  const leading = fullText.length - fullText.trimStart().length;
+
+  const spans: Span[] = [];
+  let offset = -leading;
+  for (const block of blocks) {
+    const start = offset + (block.length - block.trimStart().length);
+    const end = offset + block.trimEnd().length;
+    offset += block.length + 1;
+
+    if (end > start) {
+      spans.push(...splitSpan(text, { start: Math.max(start, 0), end: Math.min(end, text.length) }, maxChars, overlapChars));
+    }
+  }
+
+  const passages: YooptaPassage[] = [];
+  let first = 0;
+  while (first < spans.length) {
+    let last = first;
+    while (last + 1 < spans.length && spans[last + 1]!.end - spans[first]!.start <= maxChars) last++;
+
+    const start = spans[first]!.start;
+    const end = spans[last]!.end;
+    passages.push({ index: passages.length, text: text.slice(start, end), start, end });
+
+    if (last + 1 >= spans.length) break;
+    // Repeat the last block only when the next passage then has room to move on
+    const overlapFits = last > first && spans[last + 1]!.end - spans[last]!.start <= maxChars;
+    first = overlapFits ? last : last + 1;
+  }
+
+  return passages;
+}
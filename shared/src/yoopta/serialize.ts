@@ -0,0 +1,138 @@
+import { YOOPTA_MEDIA_BLOCK_TYPES } from "./types";
+import type { YooptaBlock } from "./types";
+
+type Format = "markdown" | "html";
+
+const HEADING_LEVELS: Partial<Record<string, number>> = { HeadingOne: 1, HeadingTwo: 2, HeadingThree: 3 };
+
+// Sort a document's blocks into editor order, skipping anything that isn't a block.
+// Accepts unknown input so stored content that predates validation still renders.
+export function orderedBlocks(content: unknown): YooptaBlock[] {
+  if (!content || typeof content !== "object" || Array.isArray(content)) return [];
+
+  return Object.values(content as Record<string, YooptaBlock>)
+    .filter((block) => block && typeof block === "object" && Array.isArray(block.value))
+    .sort((a, b) => (a.meta?.order ?? 0) - (b.meta?.order ?? 0));
+}
+
+function nodeText(node: unknown): string {
+  const typed = node as { text?: unknown; children?: unknown };
+  if (typeof typed?.text === "string") return typed.text;
+  return Array.isArray(typed?.children) ? typed.children.map(nodeText).join("") : "";
+}
+
+// Plain text of one block, one line per element
+export function blockText(block: YooptaBlock): string {
+  return block.value.map(nodeText).join("\n");
+}
+
+// Plain text of a document, one line per block in editor order
+export function yooptaToText(content: unknown): string {
+  return orderedBlocks(content).map(blockText).join("\n").trim();
+}
+
+// True when a document has neither text nor attachments worth saving
+export function isYooptaEmpty(content: unknown): boolean {
+  return orderedBlocks(content).every((block) =>
+    YOOPTA_MEDIA_BLOCK_TYPES.includes(block.type)
+      ? !block.value[0]?.props?.src
+      : !block.value.map(nodeText).join("").trim()
+  );
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Only web URLs are rendered as links or media; javascript:, data: and the like never reach the output
+function isWebUrl(url: unknown): url is string {
+  return typeof url === "string" && /^https?:\/\//i.test(url);
+}
+
+// Render a node's children, wrapping marked leaves and inline links
+function renderInline(node: unknown, format: Format): string {
+  const typed = node as Record<string, unknown>;
+
+  if (typeof typed?.text === "string") {
+    let text = format === "html" ? escapeHtml(typed.text) : typed.text;
+    if (!text.trim()) return text;
+    if (format === "html") {
+      if (typed.code) text = `<code>${text}</code>`;
+      if (typed.bold) text = `<strong>${text}</strong>`;
+      if (typed.italic) text = `<em>${text}</em>`;
+      if (typed.strike) text = `<s>${text}</s>`;
+    } else {
+      if (typed.code) text = `\`${text}\``;
+      if (typed.bold) text = `**${text}**`;
+      if (typed.italic) text = `_${text}_`;
+      if (typed.strike) text = `~~${text}~~`;
+    }
+    return text;
+  }
+
+  const inner = Array.isArray(typed?.children)
+    ? typed.children.map((child) => renderInline(child, format)).join("")
+    : "";
+
+  const url = typed?.type === "link" ? (typed.props as Record<string, unknown> | undefined)?.url : undefined;
+  if (isWebUrl(url)) {
+    return format === "html" ? `<a href="${escapeHtml(url)}">${inner}</a>` : `[${inner}](${url})`;
+  }
+  return inner;
+}
+
+// Image and File blocks hold one void element whose props point at the upload
+function renderMedia(block: YooptaBlock, format: Format): string {
+  const props = block.value[0]?.props || {};
+  const src = isWebUrl(props.src) ? props.src : "";
+  if (!src) return "";
+
+  if (block.type === "Image") {
+    const alt = typeof props.alt === "string" ? props.alt : "";
+    return format === "html"
+      ? `<p><img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" style="max-width:100%"></p>`
+      : `![${alt.replace(/[[\]]/g, "")}](${src})`;
+  }
+
+  const name = typeof props.name === "string" && props.name ? props.name : "Attachment";
+  return format === "html"
+    ? `<p><a href="${escapeHtml(src)}">${escapeHtml(name)}</a></p>`
+    : `[${name.replace(/[[\]]/g, "")}](${src})`;
+}
+
+// Markdown for a document, one paragraph per block
+export function yooptaToMarkdown(content: unknown): string {
+  return orderedBlocks(content)
+    .map((block) => {
+      if (YOOPTA_MEDIA_BLOCK_TYPES.includes(block.type)) return renderMedia(block, "markdown");
+
+      const text = block.value.map((element) => renderInline(element, "markdown")).join("\n");
+      const level = HEADING_LEVELS[block.type];
+      if (block.type === "Blockquote") return text.split("\n").map((line) => `> ${line}`).join("\n");
+      if (level) return `${"#".repeat(level)} ${text}`;
+      return text;
+    })
+    .filter((text) => text.trim())
+    .join("\n\n");
+}
+
+// HTML fragment for a document; all text is escaped
+export function yooptaToHtml(content: unknown): string {
+  return orderedBlocks(content)
+    .map((block) => {
+      if (YOOPTA_MEDIA_BLOCK_TYPES.includes(block.type)) return renderMedia(block, "html");
+
+      const text = block.value.map((element) => renderInline(element, "html")).join("<br>");
+      const level = HEADING_LEVELS[block.type];
+      if (!text.trim()) return "";
+      if (block.type === "Blockquote") return `<blockquote>${text}</blockquote>`;
+      if (level) return `<h${level}>${text}</h${level}>`;
+      return `<p>${text}</p>`;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,78 @@
+// Yoopta editor documents as stored in entries.content
+//
+// A document is an object of blocks keyed by block id. Each block holds
+// Slate-style elements whose children are text leaves (with optional marks)
+// or inline elements such as links.
+
+export const YOOPTA_BLOCK_TYPES = [
+  "Paragraph",
+  "Blockquote",
+  "HeadingOne",
+  "HeadingTwo",
+  "HeadingThree",
+  "Image",
+  "File",
+] as const;
+export type YooptaBlockType = (typeof YOOPTA_BLOCK_TYPES)[number];
+
+// Blocks whose single element is a void node pointing at an upload
+export const YOOPTA_MEDIA_BLOCK_TYPES: readonly YooptaBlockType[] = ["Image", "File"];
+
+export type YooptaText = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+};
+
+export type YooptaInlineElement = {
+  id?: string;
+  type: string; // e.g. "link", with props.url
+  children: YooptaNode[];
+  props?: Record<string, unknown>;
+};
+
+export type YooptaNode = YooptaText | YooptaInlineElement;
+
+export type YooptaElement = {
+  id: string;
+  type: string; // "paragraph", "blockquote", "image", "file", ...
+  children: YooptaNode[];
+  props?: { nodeType?: "block" | "inline" | "void" } & Record<string, unknown>;
+};
+
+export type YooptaBlockMeta = {
+  order: number;
+  depth: number;
+  align?: "left" | "center" | "right";
+};
+
+export type YooptaBlock = {
+  id: string;
+  type: YooptaBlockType;
+  meta: YooptaBlockMeta;
+  value: YooptaElement[];
+};
+
+export type YooptaContent = Record<string, YooptaBlock>;
+
+// A document together with its plain text, as stored on an entry
+export type YooptaDocument = {
+  content: YooptaContent;
+  text_content: string;
+};
+
+export type YooptaImageProps = {
+  src?: string | null;
+  alt?: string | null;
+  sizes?: { width: number | string; height: number | string };
+};
+
+export type YooptaFileProps = {
+  src: string | null;
+  name: string | null;
+  size: number | null;
+  format?: string | null;
+};
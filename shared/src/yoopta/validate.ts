@@ -0,0 +1,92 @@
+import { YOOPTA_BLOCK_TYPES } from "./types";
+import type { YooptaBlockType, YooptaContent } from "./types";
+
+export const MAX_YOOPTA_BLOCKS = 2000;
+const MAX_NODE_DEPTH = 8;
+
+export type YooptaValidationResult = { value: YooptaContent } | { error: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIndex(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Text leaves, or inline elements (links) wrapping more nodes
+function validateNodes(nodes: unknown, path: string, depth: number): string | null {
+  if (!Array.isArray(nodes) || nodes.length === 0) {
+    return `${path} must be a non-empty array`;
+  }
+  if (depth > MAX_NODE_DEPTH) {
+    return `${path} is nested too deeply`;
+  }
+
+  for (const [index, node] of nodes.entries()) {
+    const nodePath = `${path}[${index}]`;
+    if (!isPlainObject(node)) return `${nodePath} must be an object`;
+
+    if ("text" in node) {
+      if (typeof node.text !== "string") return `${nodePath}.text must be a string`;
+      continue;
+    }
+
+    if (typeof node.type !== "string") return `${nodePath} needs a text or a type`;
+    const error = validateNodes(node.children, `${nodePath}.children`, depth + 1);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+// Check that a value has the shape of a Yoopta document before it is stored.
+// Returns the same object, typed, or the first problem found.
+export function validateYooptaContent(value: unknown): YooptaValidationResult {
+  if (!isPlainObject(value)) {
+    return { error: "content must be an object of blocks" };
+  }
+
+  const blocks = Object.entries(value);
+  if (blocks.length === 0) {
+    return { error: "content has no blocks" };
+  }
+  if (blocks.length > MAX_YOOPTA_BLOCKS) {
+    return { error: `content can hold at most ${MAX_YOOPTA_BLOCKS} blocks` };
+  }
+
+  for (const [key, block] of blocks) {
+    const path = `content.${key}`;
+    if (!isPlainObject(block)) return { error: `${path} must be an object` };
+    if (block.id !== key) return { error: `${path}.id must match its key` };
+
+    if (!YOOPTA_BLOCK_TYPES.includes(block.type as YooptaBlockType)) {
+      return { error: `${path}.type must be one of: ${YOOPTA_BLOCK_TYPES.join(", ")}` };
+    }
+
+    const meta = block.meta;
+    if (!isPlainObject(meta) || !isIndex(meta.order) || !isIndex(meta.depth)) {
+      return { error: `${path}.meta needs whole-number order and depth` };
+    }
+
+    if (!Array.isArray(block.value) || block.value.length === 0) {
+      return { error: `${path}.value must be a non-empty array of elements` };
+    }
+
+    for (const [index, element] of block.value.entries()) {
+      const elementPath = `${path}.value[${index}]`;
+      if (!isPlainObject(element)) return { error: `${elementPath} must be an object` };
+      if (typeof element.id !== "string" || typeof element.type !== "string") {
+        return { error: `${elementPath} needs a string id and type` };
+      }
+      if (element.props !== undefined && !isPlainObject(element.props)) {
+        return { error: `${elementPath}.props must be an object` };
+      }
+
+      const error = validateNodes(element.children, `${elementPath}.children`, 1);
+      if (error) return { error };
+    }
+  }
+
+  return { value: value as YooptaContent };
+}